@@ -34,6 +34,8 @@ export default [
       'prettier/prettier': 'error',
 
       // TypeScript specific rules
+      // The base rule flags type and signature parameters; the TypeScript rule below replaces it
+      'no-unused-vars': 'off',
       '@typescript-eslint/no-unused-vars': [
         'error',
         {
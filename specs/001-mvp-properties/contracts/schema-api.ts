@@ -151,10 +151,22 @@ export declare function defineSchema<TProperties extends Record<string, Property
  * @throws {NotionAPIError} When Notion API calls fail
  */
 export declare function query<TSchema extends SchemaDefinition>(
+  client: NotionClient,
   schema: TypedSchema<TSchema>,
   options?: QueryOptions
 ): Promise<QueryResult<TSchema>[]>;
 
+/**
+ * Minimal Notion client interface (satisfied by @notionhq/client's Client)
+ */
+export interface NotionClient {
+  request<ResponseBody extends object>(args: {
+    path: string;
+    method: 'get' | 'post' | 'patch';
+    body?: Record<string, unknown>;
+  }): Promise<ResponseBody>;
+}
+
 /**
  * Query options for database operations
  */
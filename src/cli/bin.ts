@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+/**
+ * Executable entry point for the typed-notion CLI
+ * Loads environment variables from .env before running
+ */
+
+import 'dotenv/config';
+import { runCli } from './index.js';
+
+process.exitCode = await runCli(process.argv.slice(2));
@@ -0,0 +1,112 @@
+/**
+ * Command line interface
+ *
+ * Implements `typed-notion generate`, which introspects databases and writes
+ * one `as const` schema module per database
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { Client } from '@notionhq/client';
+import { NOTION_API_VERSION, type NotionClient } from '../clients/notion-client.js';
+import { generateSchemaModules } from '../codegen/schema-module.js';
+
+/**
+ * Environment and output streams used by the CLI
+ */
+export interface CliContext {
+  /** Environment variables; NOTION_TOKEN authenticates the default client */
+  readonly env: Readonly<Record<string, string | undefined>>;
+  /** Client to use instead of one built from NOTION_TOKEN */
+  readonly client?: NotionClient;
+  /** Generation time written to module headers (default now) */
+  readonly now?: Date;
+  readonly stdout: (text: string) => void;
+  readonly stderr: (text: string) => void;
+}
+
+const USAGE = `Usage: typed-notion generate <database-id...> [options]
+
+Introspect Notion databases and write one schema module per database.
+
+Options:
+  -o, --out <dir>        Output directory (default: current directory)
+      --import <module>  Module imported by generated code (default: typed-notion)
+  -h, --help             Show this help
+
+Environment:
+  NOTION_TOKEN           Notion integration token
+`;
+
+/**
+ * Run the CLI with the given arguments
+ *
+ * @param args - Command line arguments without the node and script paths
+ * @param context - Environment and output streams
+ * @returns Process exit code
+ */
+export async function runCli(
+  args: readonly string[],
+  context: CliContext = {
+    env: process.env,
+    stdout: text => process.stdout.write(text),
+    stderr: text => process.stderr.write(text),
+  }
+): Promise<number> {
+  try {
+    const { values, positionals } = parseArgs({
+      args: [...args],
+      allowPositionals: true,
+      options: {
+        out: { type: 'string', short: 'o', default: '.' },
+        import: { type: 'string' },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    });
+    const [command, ...databaseIds] = positionals;
+
+    if (values.help) {
+      context.stdout(USAGE);
+      return 0;
+    }
+    if (command !== 'generate' || databaseIds.length === 0) {
+      context.stderr(USAGE);
+      return 1;
+    }
+
+    const client = context.client ?? createClient(context.env);
+    const modules = await generateSchemaModules(client, databaseIds, {
+      ...(values.import !== undefined && { importFrom: values.import }),
+      ...(context.now !== undefined && { generatedAt: context.now }),
+    });
+
+    await mkdir(values.out, { recursive: true });
+    for (const module of modules) {
+      const path = join(values.out, module.fileName);
+      await writeFile(path, module.source);
+      context.stdout(`Wrote ${path} (${module.schemaName}, ${module.rowTypeName})\n`);
+      for (const property of module.unsupported) {
+        context.stderr(
+          `warning: ${module.fileName}: '${property.name}' (${property.type}): ${property.reason}\n`
+        );
+      }
+    }
+
+    return 0;
+  } catch (error) {
+    context.stderr(`error: ${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+}
+
+/**
+ * Build a Notion client authenticated with NOTION_TOKEN
+ */
+function createClient(env: CliContext['env']): NotionClient {
+  const auth = env.NOTION_TOKEN;
+  if (!auth) {
+    throw new Error('NOTION_TOKEN environment variable is required');
+  }
+  return new Client({ auth, notionVersion: NOTION_API_VERSION });
+}
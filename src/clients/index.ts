@@ -0,0 +1,7 @@
+/**
+ * Client exports for Notion API integration
+ */
+
+export { sendRequest, NOTION_API_VERSION } from './notion-client.js';
+
+export type { NotionClient, NotionRequest } from './notion-client.js';
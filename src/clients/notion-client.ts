@@ -0,0 +1,60 @@
+/**
+ * Notion API client integration
+ *
+ * Wraps the official @notionhq/client transport for the database endpoints
+ * Maps client failures to typed NotionAPIError exceptions
+ */
+
+import { APIResponseError, UnknownHTTPResponseError } from '@notionhq/client';
+import { NotionAPIError } from '../errors/index.js';
+
+/**
+ * Notion API version the request bodies are written against
+ *
+ * The database query endpoint used by this library belongs to this version;
+ * construct the client with `new Client({ auth, notionVersion: NOTION_API_VERSION })`
+ */
+export const NOTION_API_VERSION = '2022-06-28';
+
+/**
+ * Request accepted by the client transport
+ */
+export interface NotionRequest {
+  readonly path: string;
+  readonly method: 'get' | 'post' | 'patch';
+  readonly query?: Record<string, string>;
+  readonly body?: Record<string, unknown>;
+}
+
+/**
+ * Minimal client interface required by the library
+ * Satisfied structurally by the `Client` class from @notionhq/client
+ */
+export interface NotionClient {
+  request<ResponseBody extends object>(args: NotionRequest): Promise<ResponseBody>;
+}
+
+/**
+ * Send a request through the client, normalizing API failures
+ *
+ * @param client - Notion client instance
+ * @param request - Request path, method and body
+ * @returns Parsed response body
+ * @throws {NotionAPIError} When the Notion API responds with an error status
+ */
+export async function sendRequest<ResponseBody extends object>(
+  client: NotionClient,
+  request: NotionRequest
+): Promise<ResponseBody> {
+  try {
+    return await client.request<ResponseBody>(request);
+  } catch (error) {
+    if (
+      APIResponseError.isAPIResponseError(error) ||
+      UnknownHTTPResponseError.isUnknownHTTPResponseError(error)
+    ) {
+      throw new NotionAPIError(error.status, error.message, error.request_id);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * Code generation exports
+ *
+ * Re-exports schema module generation from introspected databases
+ */
+
+export { generateSchemaModule, generateSchemaModules } from './schema-module.js';
+
+export type { SchemaModuleOptions, GeneratedSchemaModule } from './schema-module.js';
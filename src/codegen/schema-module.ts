@@ -0,0 +1,202 @@
+/**
+ * Schema module code generation
+ *
+ * Renders introspected database schemas as TypeScript modules holding an
+ * `as const` createTypedSchema call and the inferred row type
+ */
+
+import type { IntrospectionResult, UnsupportedProperty } from '../services/introspection.js';
+import type { NotionClient } from '../clients/notion-client.js';
+import { introspectSchema } from '../services/introspection.js';
+import { DEFAULT_VALIDATION_CONFIG } from '../schema/rules.js';
+
+/**
+ * Options for generating schema modules
+ */
+export interface SchemaModuleOptions {
+  /** Module specifier the generated code imports from (default 'typed-notion') */
+  readonly importFrom?: string;
+  /** Generation time written to the module header (default now) */
+  readonly generatedAt?: Date;
+}
+
+/**
+ * Generated TypeScript module for one database
+ */
+export interface GeneratedSchemaModule {
+  /** Suggested file name, derived from the database title and unique within one generation */
+  readonly fileName: string;
+  /** Name of the exported TypedSchema constant */
+  readonly schemaName: string;
+  /** Name of the exported inferred row type */
+  readonly rowTypeName: string;
+  /** TypeScript source of the module */
+  readonly source: string;
+  /** Properties left out of the generated schema */
+  readonly unsupported: readonly UnsupportedProperty[];
+}
+
+/**
+ * Default module specifier imported by generated code
+ */
+const DEFAULT_IMPORT = 'typed-notion';
+
+/**
+ * Introspect databases and generate a schema module for each
+ * Databases with the same title get numbered file names (`tasks.ts`, `tasks-2.ts`)
+ *
+ * @param client - Notion client instance
+ * @param databaseIds - IDs of the databases to generate modules for
+ * @param options - Import specifier and generation time
+ * @returns Generated modules in the order of the given database IDs
+ * @throws {NotionAPIError} When Notion API calls fail
+ */
+export async function generateSchemaModules(
+  client: NotionClient,
+  databaseIds: readonly string[],
+  options: SchemaModuleOptions = {}
+): Promise<GeneratedSchemaModule[]> {
+  const modules: GeneratedSchemaModule[] = [];
+  const fileNames = new Set<string>();
+
+  for (const databaseId of databaseIds) {
+    const result = await introspectSchema(client, databaseId);
+    const module = generateSchemaModule(result, options);
+    const fileName = toUniqueFileName(module.fileName, fileNames);
+    fileNames.add(fileName);
+    modules.push({ ...module, fileName });
+  }
+
+  return modules;
+}
+
+/**
+ * Render an introspected database schema as a TypeScript module
+ *
+ * @param result - Introspection result of the database
+ * @param options - Import specifier and generation time
+ * @returns Generated module source and naming
+ */
+export function generateSchemaModule(
+  result: IntrospectionResult,
+  options: SchemaModuleOptions = {}
+): GeneratedSchemaModule {
+  const words = toWords(result.title);
+  const baseName = toPascalCase(words);
+  const schemaName = `${baseName.charAt(0).toLowerCase()}${baseName.slice(1)}Schema`;
+  const rowTypeName = `${baseName}Row`;
+  const fileName = `${words.map(word => word.toLowerCase()).join('-') || 'database'}.ts`;
+  const generatedAt = (options.generatedAt ?? new Date()).toISOString();
+
+  const header = [
+    '/**',
+    ` * ${toCommentText(result.title || 'Untitled')} schema`,
+    ' *',
+    ` * Generated by \`typed-notion generate\` from database ${result.definition.databaseId}`,
+    ` * Generated at ${generatedAt}`,
+    ' * Do not edit by hand; re-run the generator to update',
+    ...(result.unsupported.length > 0
+      ? [
+          ' *',
+          ' * Properties not fully represented:',
+          ...result.unsupported.map(
+            property =>
+              ` * - ${toCommentText(property.name)} (${property.type}): ${toCommentText(property.reason)}`
+          ),
+        ]
+      : []),
+    ' */',
+  ];
+
+  const properties = Object.entries(result.definition.properties).map(
+    ([name, definition]) => `    ${formatKey(name)}: ${formatLiteral(definition)},`
+  );
+  // Wide databases need a higher property limit than the default to pass schema validation
+  const schemaOptions =
+    properties.length > DEFAULT_VALIDATION_CONFIG.maxProperties
+      ? `, { validation: { maxProperties: ${properties.length} } }`
+      : '';
+
+  const source = [
+    ...header,
+    '',
+    `import { createTypedSchema, type InferSchemaProperties } from ${formatLiteral(options.importFrom ?? DEFAULT_IMPORT)};`,
+    '',
+    `export const ${schemaName} = createTypedSchema({`,
+    `  databaseId: ${formatLiteral(result.definition.databaseId)},`,
+    '  properties: {',
+    ...properties,
+    '  },',
+    `} as const${schemaOptions});`,
+    '',
+    `export type ${rowTypeName} = InferSchemaProperties<typeof ${schemaName}.definition>;`,
+    '',
+  ].join('\n');
+
+  return { fileName, schemaName, rowTypeName, source, unsupported: result.unsupported };
+}
+
+/**
+ * Number a file name until it differs from the names already taken
+ */
+function toUniqueFileName(fileName: string, taken: ReadonlySet<string>): string {
+  const stem = fileName.replace(/\.ts$/, '');
+  let candidate = fileName;
+  for (let index = 2; taken.has(candidate); index++) {
+    candidate = `${stem}-${index}.ts`;
+  }
+  return candidate;
+}
+
+/**
+ * Split a database title into identifier words
+ */
+function toWords(title: string): string[] {
+  return title.split(/[^A-Za-z0-9]+/).filter(word => word.length > 0);
+}
+
+/**
+ * Join words into a PascalCase identifier that doesn't start with a digit
+ */
+function toPascalCase(words: readonly string[]): string {
+  const name = words.map(word => `${word.charAt(0).toUpperCase()}${word.slice(1)}`).join('');
+  if (name.length === 0) {
+    return 'Database';
+  }
+  return /^[0-9]/.test(name) ? `Database${name}` : name;
+}
+
+/**
+ * Format an object key, quoting it when it isn't a valid identifier
+ */
+function formatKey(key: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : formatLiteral(key);
+}
+
+/**
+ * Format a JSON-compatible value as a single-line TypeScript literal
+ */
+function formatLiteral(value: unknown): string {
+  if (typeof value === 'string') {
+    const escaped = JSON.stringify(value).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'");
+    return `'${escaped}'`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(formatLiteral).join(', ')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, entry]) => entry !== undefined);
+    if (entries.length === 0) {
+      return '{}';
+    }
+    return `{ ${entries.map(([key, entry]) => `${formatKey(key)}: ${formatLiteral(entry)}`).join(', ')} }`;
+  }
+  return String(value);
+}
+
+/**
+ * Make text safe to embed in a block comment
+ */
+function toCommentText(text: string): string {
+  return text.replace(/\*\//g, '*\\/').replace(/\s+/g, ' ');
+}
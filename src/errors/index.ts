@@ -35,19 +35,50 @@ export abstract class TypedNotionError extends Error {
   }
 }
 
+/**
+ * Single problem found while validating a schema definition or record
+ */
+export interface SchemaIssue {
+  /** Location of the problem, e.g. `properties.Status.options[2]` (empty for the whole input) */
+  readonly path: string;
+  /** Machine-readable issue kind, e.g. `duplicate_option` */
+  readonly code: string;
+  readonly message: string;
+}
+
 /**
  * Schema validation error for creation-time validation failures
  * Thrown when schema definitions are invalid (FR-008)
+ * Carries every issue found when raised by schema validation
  */
 export class SchemaValidationError extends TypedNotionError {
   readonly code = 'SCHEMA_VALIDATION_ERROR';
-  readonly context: { property: string; expected: string; received: unknown };
+  readonly context: {
+    property: string;
+    expected: string;
+    received: unknown;
+    issues: readonly SchemaIssue[];
+  };
 
-  constructor(property: string, expected: string, received: unknown) {
+  constructor(
+    property: string,
+    expected: string,
+    received: unknown,
+    issues: readonly SchemaIssue[] = []
+  ) {
     super(
-      `Invalid property type for '${property}': expected ${expected}, received ${typeof received}`
+      issues.length > 0
+        ? `Invalid ${property}: ${issues.map(formatSchemaIssue).join('; ')}`
+        : `Invalid property type for '${property}': expected ${expected}, received ${typeof received}`
     );
-    this.context = { property, expected, received };
+    this.context = { property, expected, received, issues };
+  }
+
+  /**
+   * Every issue found by schema validation (empty for single-value errors)
+   */
+  get issues(): readonly SchemaIssue[] {
+    return this.context.issues;
   }
 }
 
@@ -85,13 +116,61 @@ export class NotionAPIError extends TypedNotionError {
  */
 export class PropertyValidationError extends TypedNotionError {
   readonly code = 'PROPERTY_VALIDATION_ERROR';
-  readonly context: { property: string; value: unknown; expectedType: string };
+  readonly context: {
+    property: string;
+    value: unknown;
+    expectedType: string;
+    /** Violated definition constraint, e.g. `maxLength` */
+    constraint?: string;
+    /** Limit set by the violated constraint */
+    limit?: unknown;
+  };
+
+  constructor(
+    property: string,
+    value: unknown,
+    expectedType: string,
+    constraint?: {
+      readonly name: string;
+      readonly limit?: unknown;
+      readonly received?: string | undefined;
+    }
+  ) {
+    super(
+      `Invalid value for property '${property}': expected ${expectedType}, received ${constraint?.received ?? (value === null ? 'null' : typeof value)}`
+    );
+    this.context = constraint
+      ? {
+          property,
+          value,
+          expectedType,
+          constraint: constraint.name,
+          ...('limit' in constraint ? { limit: constraint.limit } : {}),
+        }
+      : { property, value, expectedType };
+  }
+}
+
+/**
+ * Record validation error for whole-record validation failures
+ * Thrown when a record doesn't match its schema, with every issue found
+ */
+export class RecordValidationError extends TypedNotionError {
+  readonly code = 'RECORD_VALIDATION_ERROR';
+  readonly context: { schema: string; issues: readonly SchemaIssue[]; record?: string };
 
-  constructor(property: string, value: unknown, expectedType: string) {
+  constructor(schema: string, issues: readonly SchemaIssue[], record?: string) {
     super(
-      `Invalid value for property '${property}': expected ${expectedType}, received ${typeof value}`
+      `Invalid record${record ? ` '${record}'` : ''} for schema '${schema}': ${issues.map(formatSchemaIssue).join('; ')}`
     );
-    this.context = { property, value, expectedType };
+    this.context = record ? { schema, issues, record } : { schema, issues };
+  }
+
+  /**
+   * Every issue found in the record
+   */
+  get issues(): readonly SchemaIssue[] {
+    return this.context.issues;
   }
 }
 
@@ -110,3 +189,10 @@ export class SelectionValidationError extends TypedNotionError {
     this.context = { property, value, validOptions };
   }
 }
+
+/**
+ * Format a schema issue as `path: message`
+ */
+function formatSchemaIssue(issue: SchemaIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+}
@@ -6,7 +6,7 @@
  *
  * ## Features
  *
- * - **Type-safe schema definition** for 10 MVP Notion property types
+ * - **Type-safe schema definition** for the MVP Notion property types and relations
  * - **Compile-time type inference** with literal type preservation for selections
  * - **Runtime validation** with comprehensive error handling
  * - **Zero `any` types** in public API
@@ -24,12 +24,27 @@
  * - `rich_text` - Formatted text content
  * - `select` - Single selection from predefined options (literal type preservation)
  * - `multi_select` - Multiple selections from predefined options (literal type arrays)
+ * - `status` - Workflow status from options organized in To-do / In progress / Complete groups
  *
  * ### Contact Properties (User Story 3)
  * - `date` - Date values with Date object validation
  * - `email` - Email addresses with format validation
  * - `url` - URLs with protocol validation (http/https only)
  * - `people` - References to Notion users with structure validation
+ * - `phone_number` - Phone numbers validated as E.164 (spaces, dots, dashes and parentheses allowed)
+ * - `files` - Uploaded or external files (`NotionFile` with name, URL and expiry time)
+ *
+ * ### Relation Properties
+ * - `relation` - References to pages in another database, given as a schema or database ID
+ *
+ * ### Computed Properties (read-only)
+ * - `formula` - Formula value with a declared result type (string, number, boolean, date)
+ * - `rollup` - Rollup aggregation with a declared result type (number, date, array)
+ *
+ * ### System Properties (read-only)
+ * - `created_time` / `last_edited_time` - Page timestamps maintained by Notion (`Date`)
+ * - `created_by` / `last_edited_by` - Users who created and last edited the page (`NotionUser`)
+ * - `unique_id` - Auto-incremented ID with its optional prefix (`{ prefix, number }`)
  *
  * ## Quick Start
  *
@@ -70,6 +85,15 @@
  * // Runtime validation with type safety
  * const isValid = validator('Status', 'Todo'); // true
  * const isInvalid = validator('Status', 'Invalid'); // false
+ *
+ * // Validate whole records, e.g. webhook or form input
+ * const result = taskSchema.validateRecord(request.body);
+ * if (result.success) {
+ *   result.data.Status; // 'Todo' | 'In Progress' | 'Done' | null
+ * } else {
+ *   result.issues; // [{ path: 'Status', code: 'invalid_selection', message: '...' }]
+ * }
+ * const task = taskSchema.parse(request.body); // throws RecordValidationError
  * ```
  *
  * ## Advanced Usage Examples
@@ -115,6 +139,315 @@
  * } as const);
  * ```
  *
+ * ## Querying a Database
+ *
+ * ```typescript
+ * import { Client } from '@notionhq/client';
+ * import { query, NOTION_API_VERSION } from 'typed-notion';
+ *
+ * const client = new Client({ auth: process.env.NOTION_TOKEN, notionVersion: NOTION_API_VERSION });
+ *
+ * const tasks = await query(client, taskSchema, {
+ *   // Operators and operands are checked against each property definition
+ *   filter: {
+ *     or: [
+ *       { Status: { equals: 'Todo' } },
+ *       { Tags: { contains: 'Bug' }, DueDate: { before: new Date() } },
+ *     ],
+ *   },
+ *   // Sort keys are constrained to schema property names
+ *   sorts: [
+ *     { property: 'DueDate', direction: 'ascending' },
+ *     { timestamp: 'last_edited_time', direction: 'descending' },
+ *   ],
+ *   page_size: 50,
+ * });
+ * for (const task of tasks) {
+ *   // task.props.Status: 'Todo' | 'In Progress' | 'Done' | null
+ *   console.log(task.id, task.props.Title, task.props.Status);
+ * }
+ * ```
+ *
+ * ## Streaming Large Databases
+ *
+ * ```typescript
+ * import { collect } from 'typed-notion';
+ *
+ * // Cursors are followed automatically, 100 results per request
+ * for await (const task of taskSchema.queryAll(client, { page_size: 100 })) {
+ *   console.log(task.props.Title);
+ * }
+ *
+ * // Stops requesting pages once 250 results are collected
+ * const firstTasks = await collect(taskSchema.queryAll(client), { limit: 250 });
+ * ```
+ *
+ * ## Writing Pages
+ *
+ * ```typescript
+ * import { createPage, updatePage, archivePage } from 'typed-notion';
+ *
+ * // Values are validated before the request is sent
+ * const task = await createPage(client, taskSchema, { Title: 'Write docs', Status: 'Todo' });
+ * await updatePage(client, taskSchema, task.id, { Status: 'Done' });
+ * await archivePage(client, taskSchema, task.id);
+ * ```
+ *
+ * ## Validation Configuration
+ *
+ * ```typescript
+ * // Schemas default to at most 20 properties, exactly one title and letter/digit/underscore names
+ * const wideSchema = createTypedSchema(definition, {
+ *   validation: { maxProperties: 60, propertyNamePattern: /^[A-Za-z][A-Za-z0-9_]*$/ },
+ * });
+ * ```
+ *
+ * ## Aliasing Property Names
+ *
+ * ```typescript
+ * // Schema keys stay clean identifiers; `name` is the column name (or property ID) in Notion
+ * const launchSchema = createTypedSchema({
+ *   databaseId: '12345678-1234-5678-9abc-123456789abc',
+ *   properties: {
+ *     title: { type: 'title', name: '🚀 Launch' },
+ *     dueDate: { type: 'date', name: 'Due date (ETA)' },
+ *   },
+ * } as const);
+ *
+ * // Filters, sorts, decoded pages and writes all translate to the Notion-side names
+ * const launches = await query(client, launchSchema, {
+ *   filter: { dueDate: { next_week: true } },
+ *   sorts: [{ property: 'dueDate', direction: 'ascending' }],
+ * });
+ * console.log(launches[0]?.props.dueDate);
+ * ```
+ *
+ * ## Stable Property IDs
+ *
+ * ```typescript
+ * // Pin property IDs from the live database (or declare `id` in the definition)
+ * const pinned = await launchSchema.resolvePropertyIds(client);
+ *
+ * // Filters, sorts and page writes now address properties by ID,
+ * // so renaming 'Due date (ETA)' in the Notion UI doesn't break queries
+ * await query(client, pinned, { filter: { dueDate: { next_week: true } } });
+ * ```
+ *
+ * ## Required Properties
+ *
+ * ```typescript
+ * const orderSchema = createTypedSchema({
+ *   databaseId: '12345678-1234-5678-9abc-123456789abc',
+ *   properties: {
+ *     OrderNumber: { type: 'title', required: true }, // string (never null)
+ *     Amount: { type: 'number', required: true }, // number
+ *     Notes: { type: 'rich_text' }, // string | null
+ *   },
+ * } as const);
+ *
+ * // Rows with an empty required property throw by default; skip them or report them instead
+ * // Empty lists count as empty for required multi_select, people, relation and files properties
+ * const orders = await query(client, orderSchema, { onMissingRequired: 'report' });
+ * const incomplete = orders.filter(order => order.issues);
+ * orders[0].props.OrderNumber; // string | null, since reported rows can be incomplete
+ * ```
+ *
+ * ## Value Constraints
+ *
+ * ```typescript
+ * const signupSchema = createTypedSchema({
+ *   databaseId: '12345678-1234-5678-9abc-123456789abc',
+ *   properties: {
+ *     Handle: { type: 'title', minLength: 3, maxLength: 20, pattern: /^[a-z0-9_]+$/ },
+ *     Age: { type: 'number', min: 13, integer: true },
+ *     Email: { type: 'email', domains: ['example.com'] }, // also accepts mail.example.com
+ *     Interests: { type: 'multi_select', options: ['Art', 'Code', 'Music'] as const, maxItems: 2 },
+ *   },
+ * } as const);
+ *
+ * // Fails with a constraint_violation issue at 'Age': expected number >= 13, received 12
+ * const result = signupSchema.validateRecord({ Handle: 'ada', Age: 12 });
+ * ```
+ *
+ * ## Date Ranges, Calendar Dates and Time Zones
+ *
+ * ```typescript
+ * const bookingSchema = createTypedSchema({
+ *   databaseId: '12345678-1234-5678-9abc-123456789abc',
+ *   properties: {
+ *     Guest: { type: 'title' },
+ *     Created: { type: 'date' }, // Date | null
+ *     // Calendar dates stay 'YYYY-MM-DD' strings, so they never shift by a day
+ *     // { start: DateOnly; end: DateOnly | null } | null
+ *     Stay: { type: 'date', range: true, includeTime: false },
+ *     // Written as local Paris time with its time zone; read back as instants
+ *     CheckIn: { type: 'date', includeTime: true, timeZone: 'Europe/Paris' }, // Date | null
+ *   },
+ * } as const);
+ *
+ * await createPage(client, bookingSchema, {
+ *   Guest: 'Ada',
+ *   Stay: { start: '2024-07-01', end: '2024-07-05' },
+ *   CheckIn: new Date('2024-07-01T13:00:00Z'), // sent as 2024-07-01T15:00:00.000 in Europe/Paris
+ * });
+ *
+ * // Filters take calendar dates as written and Date operands in the property's time zone
+ * await query(client, bookingSchema, { filter: { Stay: { on_or_after: '2024-07-01' } } });
+ * ```
+ *
+ * ## Refinements and Branded Types
+ *
+ * ```typescript
+ * type TicketId = Brand<string, 'TicketId'>;
+ *
+ * const issueSchema = createTypedSchema({
+ *   databaseId: '12345678-1234-5678-9abc-123456789abc',
+ *   properties: {
+ *     Key: {
+ *       type: 'rich_text',
+ *       // A type predicate brands the inferred type: TicketId | null
+ *       refine: (value): value is TicketId => /^JIRA-\d+$/.test(value),
+ *     },
+ *     // Return a description of the expected value to use it in the error message
+ *     Title: { type: 'title', refine: value => value.trim() === value || 'trimmed text' },
+ *     Start: { type: 'date' },
+ *     End: { type: 'date' },
+ *   },
+ *   // Cross-field rules run by validateRecord, parse and createPage
+ *   refinements: [
+ *     {
+ *       check: (issue: { Start: Date | null; End: Date | null }) =>
+ *         !issue.Start || !issue.End || issue.End > issue.Start,
+ *       message: 'End must be after Start',
+ *       path: 'End',
+ *     },
+ *   ],
+ * } as const);
+ * ```
+ *
+ * ## Workflow Status
+ *
+ * ```typescript
+ * const ticketSchema = createTypedSchema({
+ *   databaseId: '12345678-1234-5678-9abc-123456789abc',
+ *   properties: {
+ *     Title: { type: 'title' },
+ *     State: {
+ *       type: 'status',
+ *       options: ['Backlog', 'Doing', 'Review', 'Shipped'] as const,
+ *       groups: {
+ *         'To-do': ['Backlog'] as const,
+ *         'In progress': ['Doing', 'Review'] as const,
+ *         Complete: ['Shipped'] as const,
+ *       },
+ *     },
+ *   },
+ * } as const);
+ *
+ * // ticket.props.State: 'Backlog' | 'Doing' | 'Review' | 'Shipped' | null
+ * if (ticketSchema.isStatusInGroup('State', ticket.props.State, 'Complete')) {
+ *   // ticket.props.State narrowed to 'Shipped'
+ * }
+ * ```
+ *
+ * ## Formulas and Rollups
+ *
+ * ```typescript
+ * const invoiceSchema = createTypedSchema({
+ *   databaseId: '12345678-1234-5678-9abc-123456789abc',
+ *   properties: {
+ *     Title: { type: 'title' },
+ *     Total: { type: 'formula', result: 'number' },
+ *     LastPayment: { type: 'rollup', result: 'date' },
+ *   },
+ * } as const);
+ *
+ * // Conditions are nested under the declared result type: { formula: { number: ... } }
+ * const large = await query(client, invoiceSchema, { filter: { Total: { greater_than: 1000 } } });
+ * // large[0].props.Total: number | null
+ *
+ * // Computed properties are read-only: this is a compile-time error
+ * await createPage(client, invoiceSchema, { Title: 'INV-1', Total: 5 });
+ * ```
+ *
+ * ## Relations Across Schemas
+ *
+ * ```typescript
+ * import { expandRelation } from 'typed-notion';
+ *
+ * const projectSchema = createTypedSchema({
+ *   databaseId: '87654321-4321-8765-cba9-987654321cba',
+ *   properties: { Name: { type: 'title' } },
+ * } as const);
+ *
+ * const milestoneSchema = createTypedSchema({
+ *   databaseId: '12345678-1234-5678-9abc-123456789abc',
+ *   properties: {
+ *     Title: { type: 'title' },
+ *     Project: { type: 'relation', target: projectSchema },
+ *   },
+ * } as const);
+ *
+ * const [milestone] = await query(client, milestoneSchema);
+ * // milestone.props.Project: RelationReference[] | null
+ * const projects = await expandRelation(client, milestoneSchema, milestone, 'Project');
+ * // projects[0].props.Name: string | null
+ * // Required properties are checked like query results, e.g. { onMissingRequired: 'skip' }
+ * ```
+ *
+ * ## Introspecting a Database
+ *
+ * ```typescript
+ * import { introspectSchema } from 'typed-notion';
+ *
+ * const { definition, unsupported } = await introspectSchema(client, databaseId);
+ * for (const property of unsupported) {
+ *   console.warn(`Skipped ${property.name} (${property.type}): ${property.reason}`);
+ * }
+ * // Columns named with emoji or punctuation are aliased under a camelCase key
+ * const schema = createTypedSchema(definition);
+ * ```
+ *
+ * ## Detecting Schema Drift
+ *
+ * ```typescript
+ * const drift = await taskSchema.checkDrift(client);
+ * if (drift.hasDrift) {
+ *   // e.g. missingProperties: ['DueDate'], optionChanges: [{ property: 'Status', added: ['Blocked'], removed: [] }]
+ *   console.warn(drift);
+ * }
+ *
+ * // Fail fast at startup: throws SchemaValidationError with one issue per difference,
+ * // e.g. { path: 'properties.Status.options', code: 'options_changed', message: '...' }
+ * await taskSchema.checkDrift(client, { strict: true });
+ * ```
+ *
+ * ## Planning Schema Migrations
+ *
+ * ```typescript
+ * import { diffSchemas, planMigration, applyMigration } from 'typed-notion';
+ *
+ * // Compare the committed schema with the new version
+ * // Properties are matched by pinned ID, then Notion name; declare renames of unpinned columns,
+ * // otherwise they are planned as a removal plus an addition
+ * const diff = diffSchemas(previousTaskDefinition, taskSchema.definition, {
+ *   renames: { Description: 'Summary' },
+ * });
+ * // diff.changes: [{ kind: 'property_renamed', property: 'Summary', from: 'Description', to: 'Summary', ... }, ...]
+ *
+ * const plan = planMigration(diff);
+ * // plan.steps[0].request: { path: 'databases/…', method: 'patch', body: { properties: { Description: { name: 'Summary' } } } }
+ * // plan.manual lists changes that can't be made through the API (e.g. status options)
+ * await applyMigration(client, plan);
+ * ```
+ *
+ * ## Generating Schema Modules
+ *
+ * ```bash
+ * # Writes one `createTypedSchema({...} as const)` module per database, e.g. ./src/schemas/tasks.ts
+ * NOTION_TOKEN=secret_... npx typed-notion generate <database-id> <database-id> --out src/schemas
+ * ```
+ *
  * ## Error Handling
  *
  * ```typescript
@@ -125,7 +458,10 @@
  * } catch (error) {
  *   if (error instanceof SchemaValidationError) {
  *     console.error('Schema validation failed:', error.message);
- *     console.error('Context:', error.context);
+ *     // Every problem found, e.g. { path: 'properties.Status.options[2]', code: 'duplicate_option', ... }
+ *     for (const issue of error.issues) {
+ *       console.error(`${issue.path} [${issue.code}]: ${issue.message}`);
+ *     }
  *   }
  * }
  * ```
@@ -148,12 +484,50 @@
 export type {
   PropertyType,
   PropertyDefinition,
+  PropertyDefinitionOptions,
+  NumberConstraints,
+  TextConstraints,
+  DomainConstraints,
+  ItemConstraints,
+  DateOptions,
+  DateOnly,
+  DateRange,
+  DatePropertyValue,
+  PropertyRefinement,
+  RefinementOptions,
+  RecordRefinement,
+  Brand,
   SchemaDefinition,
   NotionUser,
+  NotionFile,
+  UniqueId,
+  RelationTarget,
+  RelationReference,
+  NumberFormat,
+  StatusGroup,
+  StatusGroups,
+  ReadOnlyPropertyType,
+  FormulaResultType,
+  RollupResultType,
   InferPropertyType,
   InferSchemaProperties,
+  InferRecordProperties,
+  InferWritableProperties,
+  InferRelationTarget,
+  ExtractStatusGroupOptions,
   QueryOptions,
+  QueryResult,
+  QueryPage,
+  QuerySort,
+  RequiredPropertyPolicy,
+  QueryResultProperties,
+  QueryFilter,
+  PropertyFilter,
+  FilterCondition,
   PerformanceMetrics,
+  NotionPage,
+  NotionPropertyValue,
+  NotionPropertyRequest,
 } from './types/index.js';
 
 // Schema classes and functions
@@ -163,15 +537,74 @@ export {
   validateSchemaDefinition,
   validatePropertyDefinition,
   isValidSchemaDefinition,
+  DEFAULT_VALIDATION_CONFIG,
+} from './schema/index.js';
+export type {
+  TypedSchemaOptions,
+  RecordValidationResult,
+  ValidationConfig,
 } from './schema/index.js';
 
+// Code generation
+export { generateSchemaModule, generateSchemaModules } from './codegen/index.js';
+export type { SchemaModuleOptions, GeneratedSchemaModule } from './codegen/index.js';
+
+// Notion API client integration
+export { NOTION_API_VERSION } from './clients/index.js';
+export type { NotionClient, NotionRequest } from './clients/index.js';
+
+// Database operations
+export {
+  query,
+  queryPage,
+  queryAll,
+  queryPages,
+  collect,
+  compileFilter,
+  compileSorts,
+  createPage,
+  updatePage,
+  archivePage,
+  expandRelation,
+  introspectSchema,
+  checkSchemaDrift,
+  diffSchemas,
+  planMigration,
+  applyMigration,
+  resolvePropertyIds,
+  pinPropertyIds,
+  decodePageProperties,
+  encodePageProperties,
+} from './services/index.js';
+export type {
+  PropertyCodec,
+  PropertyDecoder,
+  CollectOptions,
+  IntrospectionResult,
+  UnsupportedProperty,
+  SchemaDrift,
+  PropertyTypeChange,
+  PropertyOptionChange,
+  PropertyFormatChange,
+  DriftCheckOptions,
+  SchemaChange,
+  SchemaDiff,
+  DiffSchemasOptions,
+  ExpandRelationOptions,
+  MigrationStep,
+  ManualMigrationStep,
+  MigrationPlan,
+} from './services/index.js';
+
 // Error classes
 export {
   TypedNotionError,
   SchemaValidationError,
   PropertyAccessError,
   NotionAPIError,
+  RecordValidationError,
 } from './errors/index.js';
+export type { SchemaIssue } from './errors/index.js';
 
 // Performance monitoring
 export {
@@ -6,6 +6,8 @@
 
 export { TypedSchema, createTypedSchema } from './typed-schema.js';
 
+export type { TypedSchemaOptions, RecordValidationResult } from './typed-schema.js';
+
 export {
   validatePropertyType,
   validatePropertyDefinition,
@@ -15,14 +17,30 @@ export {
   validateSelectionOptions,
   isValidSchemaDefinition,
   isValidPropertyDefinition,
+  toSchemaIssues,
 } from './validation.js';
 
 export {
   validateSchemaStructure,
   validatePropertyStructure,
   validatePropertyValue,
+  validateStatusGroups,
   validateSchema,
   DEFAULT_VALIDATION_CONFIG,
+  DEFAULT_PROPERTY_NAME_PATTERN,
 } from './validator.js';
 
 export type { ValidationResult, ValidationConfig } from './validator.js';
+
+export {
+  checkSchemaDefinition,
+  checkPropertyDefinition,
+  checkPropertyValue,
+  checkRecord,
+  checkRecordRefinements,
+  getPropertyRule,
+  formatIssuePath,
+  PROPERTY_TYPES,
+} from './rules.js';
+
+export type { ValidationIssue, ValidationIssueCode, ValueIssue, PropertyRule } from './rules.js';
@@ -0,0 +1,1448 @@
+/**
+ * Validation core for schema definitions and property values
+ *
+ * Holds the single set of rules every validation entry point delegates to:
+ * the valibot schemas, validateSchemaStructure, validatePropertyValue and
+ * TypedSchema property validators
+ */
+
+import type {
+  DateOptions,
+  DomainConstraints,
+  ItemConstraints,
+  NumberConstraints,
+  NumberFormat,
+  PropertyDefinition,
+  PropertyType,
+  RecordRefinement,
+  TextConstraints,
+} from '../types/core.js';
+import {
+  PropertyValidationError,
+  SelectionValidationError,
+  type SchemaIssue,
+} from '../errors/index.js';
+import { isDateOnly, isValidTimeZone } from '../utils/dates.js';
+
+/**
+ * Schema validation configuration
+ */
+export interface ValidationConfig {
+  readonly maxProperties: number;
+  readonly minProperties: number;
+  readonly requireTitle: boolean;
+  readonly allowMultipleTitles: boolean;
+  /**
+   * Pattern every property name must match, or null to accept any non-empty name
+   * Defaults to DEFAULT_PROPERTY_NAME_PATTERN
+   */
+  readonly propertyNamePattern?: RegExp | null;
+}
+
+/**
+ * Default property naming rule: a letter followed by letters, numbers, underscores and spaces
+ */
+export const DEFAULT_PROPERTY_NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9_\s]*$/;
+
+/**
+ * Default validation configuration
+ */
+export const DEFAULT_VALIDATION_CONFIG: ValidationConfig = {
+  maxProperties: 20,
+  minProperties: 1,
+  requireTitle: true,
+  allowMultipleTitles: false,
+  propertyNamePattern: DEFAULT_PROPERTY_NAME_PATTERN,
+} as const;
+
+/**
+ * Problem found by a validation rule
+ */
+export interface ValidationIssue {
+  /** Location of the problem, e.g. `['properties', 'Status', 'options', 2]` */
+  readonly path: readonly (string | number)[];
+  readonly code: ValidationIssueCode;
+  readonly message: string;
+}
+
+/**
+ * Machine-readable kind of a validation issue
+ */
+export type ValidationIssueCode =
+  | 'invalid_schema'
+  | 'invalid_database_id'
+  | 'missing_properties'
+  | 'too_few_properties'
+  | 'too_many_properties'
+  | 'missing_title'
+  | 'multiple_titles'
+  | 'duplicate_notion_name'
+  | 'duplicate_property_id'
+  | 'invalid_property_name'
+  | 'invalid_definition'
+  | 'invalid_notion_name'
+  | 'invalid_property_id'
+  | 'invalid_number_format'
+  | 'missing_options'
+  | 'empty_options'
+  | 'invalid_option'
+  | 'duplicate_option'
+  | 'invalid_status_groups'
+  | 'undeclared_status_option'
+  | 'ungrouped_status_option'
+  | 'invalid_relation_target'
+  | 'invalid_result'
+  | 'invalid_unique_id_prefix'
+  | 'invalid_date_options'
+  | 'invalid_record'
+  | 'unknown_property'
+  | 'invalid_value'
+  | 'invalid_selection'
+  | 'invalid_required'
+  | 'invalid_constraint'
+  | 'invalid_refinement'
+  | 'missing_required'
+  | 'constraint_violation'
+  | 'refinement_failed';
+
+/**
+ * Reason a property value was rejected
+ * - `required`: the property is required but the value is null, missing or an empty list
+ * - `type`: the value doesn't have the expected shape
+ * - `selection`: the value is not one of the declared options
+ * - `constraint`: the value breaks a constraint of the definition, e.g. `max` or `pattern`
+ * - `refinement`: the value is rejected by the definition's `refine` function
+ */
+export type ValueIssue =
+  | { readonly kind: 'required' }
+  | { readonly kind: 'type'; readonly expected: string }
+  | { readonly kind: 'selection'; readonly value: string; readonly options: readonly string[] }
+  | {
+      readonly kind: 'constraint';
+      /** Name of the violated constraint option */
+      readonly constraint: string;
+      /** Limit set by the constraint */
+      readonly limit: unknown;
+      /** Accepted values, e.g. `number <= 10` */
+      readonly expected: string;
+      /** Rejected value as described in messages, e.g. `12 characters` */
+      readonly received: string;
+    }
+  | { readonly kind: 'refinement'; readonly expected: string };
+
+/**
+ * Rules for a single property definition type
+ */
+export interface PropertyRule<D extends PropertyDefinition> {
+  /** Check the type-specific configuration (paths relative to the definition) */
+  checkDefinition?(definition: D): ValidationIssue[];
+  /** Check a non-null value against the definition */
+  checkValue(value: unknown, definition: D): ValueIssue | null;
+}
+
+/**
+ * Rule registry keyed by property type
+ */
+type PropertyRuleRegistry = {
+  readonly [K in PropertyType]: PropertyRule<Extract<PropertyDefinition, { type: K }>>;
+};
+
+/**
+ * Notion status groups every status property must declare
+ */
+const STATUS_GROUPS = ['To-do', 'In progress', 'Complete'] as const;
+
+/**
+ * Result types a formula property can declare
+ */
+const FORMULA_RESULT_TYPES = ['string', 'number', 'boolean', 'date'];
+
+/**
+ * Result types a rollup property can declare
+ */
+const ROLLUP_RESULT_TYPES = ['number', 'date', 'array'];
+
+/**
+ * Number formats a number property can declare
+ */
+export const NUMBER_FORMATS: readonly NumberFormat[] = [
+  'number',
+  'number_with_commas',
+  'percent',
+  'dollar',
+  'australian_dollar',
+  'canadian_dollar',
+  'singapore_dollar',
+  'euro',
+  'pound',
+  'yen',
+  'ruble',
+  'rupee',
+  'won',
+  'yuan',
+  'real',
+  'lira',
+  'rupiah',
+  'franc',
+  'hong_kong_dollar',
+  'new_zealand_dollar',
+  'krona',
+  'norwegian_krone',
+  'mexican_peso',
+  'rand',
+  'new_taiwan_dollar',
+  'danish_krone',
+  'zloty',
+  'baht',
+  'forint',
+  'koruna',
+  'shekel',
+  'chilean_peso',
+  'philippine_peso',
+  'dirham',
+  'colombian_peso',
+  'riyal',
+  'ringgit',
+  'leu',
+  'argentine_peso',
+  'uruguayan_peso',
+  'peruvian_sol',
+];
+
+/**
+ * Database ID format (UUID)
+ */
+export const DATABASE_ID_PATTERN = /^[a-f0-9-]{36}$/;
+
+/**
+ * Value rules shared by several property types
+ */
+const textValue = (value: unknown, definition: TextConstraints): ValueIssue | null =>
+  typeof value === 'string'
+    ? checkTextConstraints(value, definition)
+    : { kind: 'type', expected: 'string' };
+
+const dateValue = (value: unknown): ValueIssue | null => {
+  if (!(value instanceof Date)) {
+    return { kind: 'type', expected: 'Date' };
+  }
+  // Invalid dates (`new Date('nope')`) are Date objects but can't be encoded
+  return isNaN(value.getTime()) ? { kind: 'type', expected: 'valid Date' } : null;
+};
+
+const dateOnlyValue = (value: unknown): ValueIssue | null =>
+  isDateOnly(value) ? null : { kind: 'type', expected: 'date string (YYYY-MM-DD)' };
+
+const userValue = (value: unknown): ValueIssue | null =>
+  isValidNotionUser(value) ? null : { kind: 'type', expected: 'valid NotionUser object' };
+
+const singleOptionValue = (
+  value: unknown,
+  definition: { readonly options: readonly string[] }
+): ValueIssue | null => {
+  if (typeof value !== 'string') {
+    return { kind: 'type', expected: 'string' };
+  }
+  return definition.options.includes(value)
+    ? null
+    : { kind: 'selection', value, options: definition.options };
+};
+
+const optionsDefinition =
+  (missingMessage: string) =>
+  (definition: { readonly options: readonly string[] }): ValidationIssue[] =>
+    Array.isArray(definition.options)
+      ? checkSelectionOptions(definition.options)
+      : [{ path: ['options'], code: 'missing_options', message: missingMessage }];
+
+const textDefinition = (definition: TextConstraints): ValidationIssue[] => [
+  ...checkBounds(definition, 'minLength', 'maxLength', 'count'),
+  ...(definition.pattern !== undefined && !(definition.pattern instanceof RegExp)
+    ? [constraintDefinitionIssue('pattern', 'must be a RegExp')]
+    : []),
+];
+
+const domainsDefinition = ({ domains }: DomainConstraints): ValidationIssue[] =>
+  domains !== undefined &&
+  (!Array.isArray(domains) ||
+    domains.length === 0 ||
+    !domains.every(domain => typeof domain === 'string' && domain.trim().length > 0))
+    ? [constraintDefinitionIssue('domains', 'must be a non-empty array of domain names')]
+    : [];
+
+/**
+ * Rules for every supported property type
+ */
+const propertyRules: PropertyRuleRegistry = {
+  title: { checkDefinition: textDefinition, checkValue: textValue },
+  rich_text: { checkDefinition: textDefinition, checkValue: textValue },
+  number: {
+    checkDefinition: definition => [
+      ...(definition.format && !isValidNumberFormat(definition.format)
+        ? [
+            {
+              path: ['format'],
+              code: 'invalid_number_format' as const,
+              message: `Invalid number format '${definition.format}'`,
+            },
+          ]
+        : []),
+      ...checkBounds(definition, 'min', 'max', 'number'),
+      ...(definition.integer !== undefined && typeof definition.integer !== 'boolean'
+        ? [constraintDefinitionIssue('integer', 'must be a boolean')]
+        : []),
+    ],
+    checkValue: (value, definition) =>
+      typeof value === 'number' && !isNaN(value)
+        ? checkNumberConstraints(value, definition)
+        : { kind: 'type', expected: 'number' },
+  },
+  checkbox: {
+    checkValue: value =>
+      typeof value === 'boolean' ? null : { kind: 'type', expected: 'boolean' },
+  },
+  date: {
+    checkDefinition: checkDateOptions,
+    checkValue: checkDateValue,
+  },
+  url: {
+    checkDefinition: domainsDefinition,
+    checkValue: (value, definition) => {
+      if (typeof value !== 'string') {
+        return { kind: 'type', expected: 'string' };
+      }
+      if (!isValidURL(value)) {
+        return { kind: 'type', expected: 'valid URL' };
+      }
+      return checkDomain(value, new URL(value).hostname, definition, 'URL');
+    },
+  },
+  email: {
+    checkDefinition: domainsDefinition,
+    checkValue: (value, definition) => {
+      if (typeof value !== 'string') {
+        return { kind: 'type', expected: 'string' };
+      }
+      if (!isValidEmail(value)) {
+        return { kind: 'type', expected: 'valid email address' };
+      }
+      return checkDomain(
+        value,
+        value.slice(value.lastIndexOf('@') + 1),
+        definition,
+        'email address'
+      );
+    },
+  },
+  select: {
+    checkDefinition: optionsDefinition('Selection properties must have options array'),
+    checkValue: singleOptionValue,
+  },
+  multi_select: {
+    checkDefinition: definition => [
+      ...optionsDefinition('Selection properties must have options array')(definition),
+      ...checkBounds(definition, 'minItems', 'maxItems', 'count'),
+    ],
+    checkValue: (value, definition) => {
+      if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+        return { kind: 'type', expected: 'string[]' };
+      }
+      const invalid = value.find(item => !definition.options.includes(item));
+      return invalid === undefined
+        ? checkItemConstraints(value.length, definition)
+        : { kind: 'selection', value: invalid, options: definition.options };
+    },
+  },
+  people: {
+    checkDefinition: definition => checkBounds(definition, 'minItems', 'maxItems', 'count'),
+    checkValue: (value, definition) => {
+      if (!Array.isArray(value)) {
+        return { kind: 'type', expected: 'NotionUser[]' };
+      }
+      return value.every(isValidNotionUser)
+        ? checkItemConstraints(value.length, definition)
+        : { kind: 'type', expected: 'array of valid NotionUser objects' };
+    },
+  },
+  relation: {
+    checkDefinition: definition =>
+      isValidRelationTarget(definition.target)
+        ? []
+        : [
+            {
+              path: ['target'],
+              code: 'invalid_relation_target',
+              message: 'Relation target must be a database ID or a schema with a valid database ID',
+            },
+          ],
+    checkValue: value =>
+      Array.isArray(value) && value.every(isValidRelationReference)
+        ? null
+        : { kind: 'type', expected: 'RelationReference[]' },
+  },
+  status: {
+    checkDefinition: definition =>
+      Array.isArray(definition.options)
+        ? [
+            ...checkSelectionOptions(definition.options),
+            ...checkStatusGroups(definition.groups, definition.options),
+          ]
+        : [
+            {
+              path: ['options'],
+              code: 'missing_options',
+              message: 'Status properties must have options array',
+            },
+          ],
+    checkValue: singleOptionValue,
+  },
+  formula: {
+    checkDefinition: definition =>
+      FORMULA_RESULT_TYPES.includes(definition.result)
+        ? []
+        : [
+            {
+              path: ['result'],
+              code: 'invalid_result',
+              message: `Formula result must be one of [${FORMULA_RESULT_TYPES.join(', ')}]`,
+            },
+          ],
+    checkValue: (value, definition) => computedValue(value, definition.result),
+  },
+  rollup: {
+    checkDefinition: definition =>
+      ROLLUP_RESULT_TYPES.includes(definition.result)
+        ? []
+        : [
+            {
+              path: ['result'],
+              code: 'invalid_result',
+              message: `Rollup result must be one of [${ROLLUP_RESULT_TYPES.join(', ')}]`,
+            },
+          ],
+    checkValue: (value, definition) => computedValue(value, definition.result),
+  },
+  created_time: { checkValue: dateValue },
+  last_edited_time: { checkValue: dateValue },
+  created_by: { checkValue: userValue },
+  last_edited_by: { checkValue: userValue },
+  files: {
+    checkValue: value =>
+      Array.isArray(value) && value.every(isValidNotionFile)
+        ? null
+        : { kind: 'type', expected: 'NotionFile[]' },
+  },
+  phone_number: {
+    checkValue: value => {
+      if (typeof value !== 'string') {
+        return { kind: 'type', expected: 'string' };
+      }
+      return isValidPhoneNumber(value) ? null : { kind: 'type', expected: 'valid phone number' };
+    },
+  },
+  unique_id: {
+    checkDefinition: definition =>
+      definition.prefix !== undefined &&
+      (typeof definition.prefix !== 'string' || definition.prefix.length === 0)
+        ? [
+            {
+              path: ['prefix'],
+              code: 'invalid_unique_id_prefix',
+              message: 'Unique ID prefix must be a non-empty string',
+            },
+          ]
+        : [],
+    checkValue: value => (isValidUniqueId(value) ? null : { kind: 'type', expected: 'UniqueId' }),
+  },
+};
+
+/**
+ * Every supported property type
+ */
+export const PROPERTY_TYPES = Object.keys(propertyRules) as readonly PropertyType[];
+
+/**
+ * Get the rules registered for a property type
+ *
+ * @param type - Property type
+ * @returns Definition and value rules for that type
+ */
+export function getPropertyRule<T extends PropertyType>(type: T): PropertyRuleRegistry[T] {
+  return propertyRules[type];
+}
+
+/**
+ * Check a complete schema definition
+ *
+ * @param schema - Schema definition to check
+ * @param config - Validation configuration
+ * @returns Issues in schema order (empty when valid)
+ */
+export function checkSchemaDefinition(
+  schema: unknown,
+  config: ValidationConfig = DEFAULT_VALIDATION_CONFIG
+): ValidationIssue[] {
+  if (!schema || typeof schema !== 'object') {
+    return [{ path: [], code: 'invalid_schema', message: 'Schema must be a non-null object' }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  const { databaseId, properties } = schema as Record<string, unknown>;
+
+  if (!databaseId || typeof databaseId !== 'string') {
+    issues.push({
+      path: ['databaseId'],
+      code: 'invalid_database_id',
+      message: 'Database ID is required and must be a string',
+    });
+  } else if (!DATABASE_ID_PATTERN.test(databaseId)) {
+    issues.push({
+      path: ['databaseId'],
+      code: 'invalid_database_id',
+      message: 'Database ID must be a valid UUID format',
+    });
+  }
+
+  if (!properties || typeof properties !== 'object') {
+    issues.push({
+      path: ['properties'],
+      code: 'missing_properties',
+      message: 'Properties are required and must be an object',
+    });
+    return issues;
+  }
+
+  const propertyEntries = Object.entries(properties);
+
+  if (propertyEntries.length < config.minProperties) {
+    issues.push({
+      path: ['properties'],
+      code: 'too_few_properties',
+      message: `Schema must have at least ${config.minProperties} property`,
+    });
+  }
+
+  if (propertyEntries.length > config.maxProperties) {
+    issues.push({
+      path: ['properties'],
+      code: 'too_many_properties',
+      message: `Schema cannot have more than ${config.maxProperties} properties`,
+    });
+  }
+
+  const titleCount = propertyEntries.filter(
+    ([, definition]) => isPropertyDefinition(definition) && definition.type === 'title'
+  ).length;
+
+  if (config.requireTitle && titleCount === 0) {
+    issues.push({
+      path: ['properties'],
+      code: 'missing_title',
+      message: 'Schema must have exactly one title property',
+    });
+  }
+
+  if (!config.allowMultipleTitles && titleCount > 1) {
+    issues.push({
+      path: ['properties'],
+      code: 'multiple_titles',
+      message: 'Schema cannot have multiple title properties',
+    });
+  }
+
+  // Aliases and pinned IDs must not map two properties to the same Notion property
+  const notionNames = propertyEntries.map(([name, definition]) =>
+    isPropertyDefinition(definition) && typeof definition.name === 'string' ? definition.name : name
+  );
+  const duplicateNames = findDuplicates(notionNames);
+  if (duplicateNames.length > 0) {
+    issues.push({
+      path: ['properties'],
+      code: 'duplicate_notion_name',
+      message: `Notion property names must be unique [${duplicateNames.join(', ')}]`,
+    });
+  }
+
+  const ids = propertyEntries.flatMap(([, definition]) =>
+    isPropertyDefinition(definition) && typeof definition.id === 'string' ? [definition.id] : []
+  );
+  const duplicateIds = findDuplicates(ids);
+  if (duplicateIds.length > 0) {
+    issues.push({
+      path: ['properties'],
+      code: 'duplicate_property_id',
+      message: `Notion property IDs must be unique [${duplicateIds.join(', ')}]`,
+    });
+  }
+
+  for (const [name, definition] of propertyEntries) {
+    issues.push(...checkPropertyStructure(name, definition, config));
+  }
+
+  const { refinements } = schema as Record<string, unknown>;
+  if (refinements !== undefined) {
+    issues.push(...checkRecordRefinementDefinitions(refinements, properties));
+  }
+
+  return issues;
+}
+
+/**
+ * Check one named property of a schema: its name and its definition
+ *
+ * @param name - Property name
+ * @param definition - Property definition to check
+ * @param config - Validation configuration
+ * @returns Issues with paths relative to the schema definition
+ */
+export function checkPropertyStructure(
+  name: string,
+  definition: unknown,
+  config: ValidationConfig = DEFAULT_VALIDATION_CONFIG
+): ValidationIssue[] {
+  const nameIssues = checkPropertyName(name, config.propertyNamePattern);
+  const definitionIssues = checkPropertyDefinition(definition);
+
+  return [...nameIssues, ...definitionIssues].map(issue => ({
+    ...issue,
+    path: ['properties', name, ...issue.path],
+  }));
+}
+
+/**
+ * Check a single property definition
+ *
+ * @param definition - Property definition to check
+ * @returns Issues with paths relative to the definition
+ */
+export function checkPropertyDefinition(definition: unknown): ValidationIssue[] {
+  if (!isPropertyDefinition(definition)) {
+    return [
+      { path: [], code: 'invalid_definition', message: 'Invalid property definition structure' },
+    ];
+  }
+
+  const issues: ValidationIssue[] = [];
+
+  if (
+    definition.name !== undefined &&
+    (typeof definition.name !== 'string' || definition.name.length === 0)
+  ) {
+    issues.push({
+      path: ['name'],
+      code: 'invalid_notion_name',
+      message: 'Notion property name must be a non-empty string',
+    });
+  }
+  if (
+    definition.id !== undefined &&
+    (typeof definition.id !== 'string' || definition.id.length === 0)
+  ) {
+    issues.push({
+      path: ['id'],
+      code: 'invalid_property_id',
+      message: 'Notion property ID must be a non-empty string',
+    });
+  }
+
+  if (definition.required !== undefined && typeof definition.required !== 'boolean') {
+    issues.push({
+      path: ['required'],
+      code: 'invalid_required',
+      message: 'Required flag must be a boolean',
+    });
+  }
+
+  const { refine } = definition as { refine?: unknown };
+  if (refine !== undefined && typeof refine !== 'function') {
+    issues.push({
+      path: ['refine'],
+      code: 'invalid_refinement',
+      message: 'Refinement must be a function',
+    });
+  }
+
+  const rule = propertyRules[definition.type] as PropertyRule<PropertyDefinition>;
+  issues.push(...(rule.checkDefinition?.(definition) ?? []));
+
+  return issues;
+}
+
+/**
+ * Check a property name against a naming rule
+ *
+ * @param name - Property name to check
+ * @param pattern - Pattern the name must match, or null to accept any non-empty name
+ * @returns Issues with paths relative to the property
+ */
+export function checkPropertyName(
+  name: unknown,
+  pattern: RegExp | null = DEFAULT_PROPERTY_NAME_PATTERN
+): ValidationIssue[] {
+  if (!name || typeof name !== 'string') {
+    return [
+      {
+        path: [],
+        code: 'invalid_property_name',
+        message: 'Property name must be a non-empty string',
+      },
+    ];
+  }
+
+  const messages: string[] = [];
+
+  if (name.length > 100) {
+    messages.push('Property name cannot exceed 100 characters');
+  }
+
+  if (pattern === DEFAULT_PROPERTY_NAME_PATTERN) {
+    // Must start with letter
+    if (!/^[a-zA-Z]/.test(name)) {
+      messages.push('Property name must start with a letter');
+    }
+
+    // Valid characters: letters, numbers, underscores, spaces
+    if (!pattern.test(name)) {
+      messages.push('Property name can only contain letters, numbers, underscores, and spaces');
+    }
+  } else if (pattern && !pattern.test(name)) {
+    messages.push(`Property name must match ${pattern}`);
+  }
+
+  return messages.map(message => ({ path: [], code: 'invalid_property_name', message }));
+}
+
+/**
+ * Check selection options of select, multi_select and status properties
+ *
+ * @param options - Selection options to check
+ * @returns Issues with paths relative to the definition
+ */
+export function checkSelectionOptions(options: unknown): ValidationIssue[] {
+  if (!Array.isArray(options)) {
+    return [{ path: ['options'], code: 'missing_options', message: 'Options must be an array' }];
+  }
+
+  const issues: ValidationIssue[] = [];
+
+  if (options.length === 0) {
+    issues.push({
+      path: ['options'],
+      code: 'empty_options',
+      message: 'Selection options cannot be empty',
+    });
+  }
+
+  options.forEach((option: unknown, index) => {
+    if (typeof option !== 'string') {
+      issues.push({
+        path: ['options', index],
+        code: 'invalid_option',
+        message: 'All options must be strings',
+      });
+    } else if (option.trim().length === 0) {
+      issues.push({
+        path: ['options', index],
+        code: 'invalid_option',
+        message: 'Options cannot be empty strings',
+      });
+    } else if (options.indexOf(option) !== index) {
+      issues.push({
+        path: ['options', index],
+        code: 'duplicate_option',
+        message: 'Options must be unique',
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Check that status groups assign every status option to exactly one group
+ *
+ * @param groups - Status groups to check
+ * @param options - Declared status options
+ * @returns Issues with paths relative to the definition
+ */
+export function checkStatusGroups(groups: unknown, options: readonly unknown[]): ValidationIssue[] {
+  if (!groups || typeof groups !== 'object') {
+    return [
+      {
+        path: ['groups'],
+        code: 'invalid_status_groups',
+        message: 'Status properties must have groups object',
+      },
+    ];
+  }
+
+  const groupEntries = STATUS_GROUPS.map(
+    group => [group, (groups as Record<string, unknown>)[group]] as const
+  );
+
+  const shapeIssues: ValidationIssue[] = groupEntries
+    .filter(([, members]) => !Array.isArray(members))
+    .map(([group]) => ({
+      path: ['groups', group],
+      code: 'invalid_status_groups',
+      message: `Status group '${group}' must be an array`,
+    }));
+  if (shapeIssues.length > 0) {
+    return shapeIssues;
+  }
+
+  const issues: ValidationIssue[] = [];
+  const grouped = groupEntries.flatMap(([, members]) => members as unknown[]);
+
+  const undeclared = grouped.filter(member => !options.includes(member));
+  if (undeclared.length > 0) {
+    issues.push({
+      path: ['groups'],
+      code: 'undeclared_status_option',
+      message: `Status groups reference undeclared options [${undeclared.join(', ')}]`,
+    });
+  }
+
+  const misassigned = options.filter(
+    option => grouped.filter(member => member === option).length !== 1
+  );
+  if (misassigned.length > 0) {
+    issues.push({
+      path: ['groups'],
+      code: 'ungrouped_status_option',
+      message: `Status options must belong to exactly one group [${misassigned.join(', ')}]`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Check a property value against its definition
+ * Null and undefined are accepted unless the property is required; required list properties
+ * (multi_select, people, relation, files) also reject empty lists
+ *
+ * @param value - Value to check
+ * @param definition - Property definition to check against
+ * @returns Why the value was rejected, or null when it is valid
+ */
+export function checkPropertyValue(
+  value: unknown,
+  definition: PropertyDefinition
+): ValueIssue | null {
+  if (definition.required === true && isEmptyValue(value)) {
+    return { kind: 'required' };
+  }
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  const rule = propertyRules[definition.type] as PropertyRule<PropertyDefinition>;
+  return rule.checkValue(value, definition) ?? checkRefinement(value, definition);
+}
+
+/**
+ * Check that every required property of a record has a value, without checking the values
+ *
+ * @param record - Record of property values
+ * @param properties - Property definitions of the schema
+ * @returns Issue for every empty required property
+ */
+export function checkRequiredValues(
+  record: Readonly<Record<string, unknown>>,
+  properties: Readonly<Record<string, PropertyDefinition>>
+): ValidationIssue[] {
+  return Object.entries(properties)
+    .filter(([name, definition]) => definition.required === true && isEmptyValue(record[name]))
+    .map(([name]) => ({
+      path: [name],
+      code: 'missing_required',
+      message: toPropertyError(name, record[name], { kind: 'required' }).message,
+    }));
+}
+
+/**
+ * Check whether a value leaves a property empty
+ * Notion stores an empty list the same way as no value, so empty lists count as empty
+ */
+function isEmptyValue(value: unknown): boolean {
+  return value === null || value === undefined || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Record issue code for each kind of rejected value
+ */
+const VALUE_ISSUE_CODES = {
+  required: 'missing_required',
+  type: 'invalid_value',
+  selection: 'invalid_selection',
+  constraint: 'constraint_violation',
+  refinement: 'refinement_failed',
+} as const satisfies Record<ValueIssue['kind'], ValidationIssueCode>;
+
+/**
+ * Check a record of property values against the properties of a schema
+ * Unknown keys are rejected; missing keys are treated as null
+ * Cross-field refinements run once every property value is valid
+ *
+ * @param input - Record to check
+ * @param properties - Property definitions of the schema
+ * @param refinements - Cross-field refinements of the schema
+ * @returns Issues keyed by property name (empty when valid)
+ */
+export function checkRecord(
+  input: unknown,
+  properties: Readonly<Record<string, PropertyDefinition>>,
+  refinements: readonly RecordRefinement[] = []
+): ValidationIssue[] {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return [{ path: [], code: 'invalid_record', message: 'Record must be a non-null object' }];
+  }
+
+  const record = input as Record<string, unknown>;
+  const issues: ValidationIssue[] = Object.keys(record)
+    .filter(key => !Object.hasOwn(properties, key))
+    .map(key => ({
+      path: [key],
+      code: 'unknown_property',
+      message: `Property '${key}' not defined in schema`,
+    }));
+
+  for (const [name, definition] of Object.entries(properties)) {
+    const value = record[name];
+    const issue = checkPropertyValue(value, definition);
+    if (issue) {
+      issues.push({
+        path: [name],
+        code: VALUE_ISSUE_CODES[issue.kind],
+        message: toPropertyError(name, value, issue).message,
+      });
+    }
+  }
+
+  if (issues.length > 0 || refinements.length === 0) {
+    return issues;
+  }
+  const complete = Object.fromEntries(
+    Object.keys(properties).map(name => [name, record[name] ?? null])
+  );
+  return checkRecordRefinements(complete, refinements);
+}
+
+/**
+ * Check a record against cross-field refinements
+ *
+ * @param record - Record with a value (or null) for every property
+ * @param refinements - Cross-field refinements of the schema
+ * @returns Issue for every failed refinement, at its path
+ */
+export function checkRecordRefinements(
+  record: Readonly<Record<string, unknown>>,
+  refinements: readonly RecordRefinement[]
+): ValidationIssue[] {
+  return refinements
+    .filter(refinement => !refinement.check(record))
+    .map(refinement => ({
+      path: refinement.path === undefined ? [] : [refinement.path],
+      code: 'refinement_failed',
+      message: refinement.message,
+    }));
+}
+
+/**
+ * Build the error describing why a property value was rejected
+ *
+ * @param name - Property name
+ * @param value - Rejected value
+ * @param issue - Reason the value was rejected
+ * @returns Error to throw for the rejected value
+ */
+export function toPropertyError(
+  name: string,
+  value: unknown,
+  issue: ValueIssue
+): PropertyValidationError | SelectionValidationError {
+  switch (issue.kind) {
+    case 'required':
+      return new PropertyValidationError(name, value, 'value for required property');
+    case 'selection':
+      return new SelectionValidationError(name, issue.value, issue.options);
+    case 'type':
+      return new PropertyValidationError(name, value, issue.expected);
+    case 'constraint':
+      return new PropertyValidationError(name, value, issue.expected, {
+        name: issue.constraint,
+        limit: issue.limit,
+        received: issue.received,
+      });
+    case 'refinement':
+      return new PropertyValidationError(name, value, issue.expected, {
+        name: 'refine',
+        received: typeof value === 'string' ? `'${value}'` : undefined,
+      });
+  }
+}
+
+/**
+ * Convert a validation issue into the issue reported by SchemaValidationError
+ *
+ * @param issue - Validation issue
+ * @returns Issue with its path formatted like `properties.Status.options[2]`
+ */
+export function toSchemaIssue(issue: ValidationIssue): SchemaIssue {
+  return { path: formatIssuePath(issue.path), code: issue.code, message: issue.message };
+}
+
+/**
+ * Format an issue path using property access notation
+ * Keys that aren't identifiers are quoted, e.g. `properties["Due date"]`
+ *
+ * @param path - Path segments
+ * @returns Formatted path (empty for the root)
+ */
+export function formatIssuePath(path: readonly (string | number)[]): string {
+  return path.reduce<string>((formatted, key) => {
+    if (typeof key === 'number') {
+      return `${formatted}[${key}]`;
+    }
+    if (/^[A-Za-z_$][\w$]*$/.test(key)) {
+      return formatted ? `${formatted}.${key}` : key;
+    }
+    return `${formatted}[${JSON.stringify(key)}]`;
+  }, '');
+}
+
+/**
+ * Type guard to check if a value has the shape of a property definition
+ * Only the property type is checked; use checkPropertyDefinition for the configuration
+ */
+export function isPropertyDefinition(value: unknown): value is PropertyDefinition {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const type = (value as Record<string, unknown>).type;
+  return typeof type === 'string' && (PROPERTY_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Get the values that occur more than once, in first-occurrence order
+ */
+function findDuplicates(values: readonly string[]): string[] {
+  return [...new Set(values.filter((value, index) => values.indexOf(value) !== index))];
+}
+
+/**
+ * Check the range, includeTime and timeZone options of a date definition
+ */
+function checkDateOptions(definition: DateOptions): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  for (const option of ['range', 'includeTime'] as const) {
+    if (definition[option] !== undefined && typeof definition[option] !== 'boolean') {
+      issues.push({
+        path: [option],
+        code: 'invalid_date_options',
+        message: `Date option '${option}' must be a boolean`,
+      });
+    }
+  }
+
+  const { timeZone } = definition;
+  if (timeZone !== undefined && (typeof timeZone !== 'string' || !isValidTimeZone(timeZone))) {
+    issues.push({
+      path: ['timeZone'],
+      code: 'invalid_date_options',
+      message: "Date option 'timeZone' must be an IANA time zone",
+    });
+  } else if (timeZone !== undefined && definition.includeTime === false) {
+    issues.push({
+      path: ['timeZone'],
+      code: 'invalid_date_options',
+      message: "Date option 'timeZone' requires date-times, but includeTime is false",
+    });
+  }
+  return issues;
+}
+
+/**
+ * Check a date value against the shape declared by the date options
+ * Ranges must not end before they start
+ */
+function checkDateValue(value: unknown, definition: DateOptions): ValueIssue | null {
+  const dateOnly = definition.includeTime === false;
+  const checkPoint = dateOnly ? dateOnlyValue : dateValue;
+  if (!definition.range) {
+    return checkPoint(value);
+  }
+
+  const point = dateOnly ? 'DateOnly' : 'Date';
+  const expected = `{ start: ${point}; end: ${point} | null }`;
+  if (!value || typeof value !== 'object' || !('start' in value) || !('end' in value)) {
+    return { kind: 'type', expected };
+  }
+  const { start, end } = value as { start: unknown; end: unknown };
+  if (checkPoint(start) !== null || (end !== null && checkPoint(end) !== null)) {
+    return { kind: 'type', expected };
+  }
+  const toTime = (date: unknown): number =>
+    date instanceof Date ? date.getTime() : Date.parse(date as string);
+  return end !== null && toTime(end) < toTime(start)
+    ? { kind: 'type', expected: 'date range ending on or after its start' }
+    : null;
+}
+
+/**
+ * Run the refine function of a definition against a value that passed the built-in rules
+ */
+function checkRefinement(value: unknown, definition: PropertyDefinition): ValueIssue | null {
+  const { refine } = definition as { refine?: (value: unknown) => boolean | string };
+  if (refine === undefined) {
+    return null;
+  }
+  const result = refine(value);
+  if (result === true) {
+    return null;
+  }
+  return {
+    kind: 'refinement',
+    expected: typeof result === 'string' && result.length > 0 ? result : 'value accepted by refine',
+  };
+}
+
+/**
+ * Check the shape of schema-level refinements
+ * Issue paths name a refinement by index, e.g. `['refinements', 1, 'path']`
+ */
+function checkRecordRefinementDefinitions(
+  refinements: unknown,
+  properties: object
+): ValidationIssue[] {
+  if (!Array.isArray(refinements)) {
+    return [
+      {
+        path: ['refinements'],
+        code: 'invalid_refinement',
+        message: 'Refinements must be an array',
+      },
+    ];
+  }
+
+  return refinements.flatMap((refinement: unknown, index): ValidationIssue[] => {
+    if (!refinement || typeof refinement !== 'object') {
+      return [
+        {
+          path: ['refinements', index],
+          code: 'invalid_refinement',
+          message: 'Refinement must be an object with check and message',
+        },
+      ];
+    }
+    const { check, message, path } = refinement as Record<string, unknown>;
+    const problems: [string, string][] = [];
+    if (typeof check !== 'function') {
+      problems.push(['check', 'Refinement check must be a function']);
+    }
+    if (typeof message !== 'string' || message.length === 0) {
+      problems.push(['message', 'Refinement message must be a non-empty string']);
+    }
+    if (path !== undefined && (typeof path !== 'string' || !Object.hasOwn(properties, path))) {
+      problems.push(['path', 'Refinement path must name a schema property']);
+    }
+    return problems.map(([key, problem]) => ({
+      path: ['refinements', index, key],
+      code: 'invalid_refinement',
+      message: problem,
+    }));
+  });
+}
+
+/**
+ * Build the issue for a value outside a definition constraint
+ */
+function constraintIssue(
+  constraint: string,
+  limit: unknown,
+  expected: string,
+  received: string
+): ValueIssue {
+  return { kind: 'constraint', constraint, limit, expected, received };
+}
+
+/**
+ * Check a number against the min, max and integer constraints
+ */
+function checkNumberConstraints(value: number, definition: NumberConstraints): ValueIssue | null {
+  const { min, max, integer } = definition;
+  if (integer === true && !Number.isInteger(value)) {
+    return constraintIssue('integer', true, 'integer', String(value));
+  }
+  if (min !== undefined && value < min) {
+    return constraintIssue('min', min, `number >= ${min}`, String(value));
+  }
+  if (max !== undefined && value > max) {
+    return constraintIssue('max', max, `number <= ${max}`, String(value));
+  }
+  return null;
+}
+
+/**
+ * Check a text against the length and pattern constraints
+ * Lengths count code points so emoji count as one character
+ */
+function checkTextConstraints(value: string, definition: TextConstraints): ValueIssue | null {
+  const { minLength, maxLength, pattern } = definition;
+  const length = [...value].length;
+  if (minLength !== undefined && length < minLength) {
+    return constraintIssue(
+      'minLength',
+      minLength,
+      `at least ${minLength} characters`,
+      `${length} characters`
+    );
+  }
+  if (maxLength !== undefined && length > maxLength) {
+    return constraintIssue(
+      'maxLength',
+      maxLength,
+      `at most ${maxLength} characters`,
+      `${length} characters`
+    );
+  }
+  // search ignores lastIndex, so global patterns match the same way on every call
+  if (pattern !== undefined && value.search(pattern) === -1) {
+    return constraintIssue('pattern', pattern, `string matching ${pattern}`, `'${value}'`);
+  }
+  return null;
+}
+
+/**
+ * Check the host of an email address or URL against the allowed domains
+ * Subdomains of an allowed domain are accepted
+ */
+function checkDomain(
+  value: string,
+  host: string,
+  definition: DomainConstraints,
+  label: string
+): ValueIssue | null {
+  const { domains } = definition;
+  if (domains === undefined) {
+    return null;
+  }
+  const normalizedHost = host.toLowerCase();
+  const allowed = domains.some(domain => {
+    const normalized = domain.toLowerCase();
+    return normalizedHost === normalized || normalizedHost.endsWith(`.${normalized}`);
+  });
+  return allowed
+    ? null
+    : constraintIssue('domains', domains, `${label} in [${domains.join(', ')}]`, `'${value}'`);
+}
+
+/**
+ * Check the number of selected options or people against the item constraints
+ */
+function checkItemConstraints(count: number, definition: ItemConstraints): ValueIssue | null {
+  const { minItems, maxItems } = definition;
+  if (minItems !== undefined && count < minItems) {
+    return constraintIssue('minItems', minItems, `at least ${minItems} items`, `${count} items`);
+  }
+  if (maxItems !== undefined && count > maxItems) {
+    return constraintIssue('maxItems', maxItems, `at most ${maxItems} items`, `${count} items`);
+  }
+  return null;
+}
+
+/**
+ * Check a pair of optional lower and upper bound options of a definition
+ * Numbers must be finite and counts non-negative integers
+ */
+function checkBounds(
+  definition: object,
+  lower: string,
+  upper: string,
+  kind: 'number' | 'count'
+): ValidationIssue[] {
+  const options = definition as Readonly<Record<string, unknown>>;
+  const issues = [lower, upper]
+    .filter(key => options[key] !== undefined && !isValidBound(options[key], kind))
+    .map(key =>
+      constraintDefinitionIssue(
+        key,
+        kind === 'number' ? 'must be a finite number' : 'must be a non-negative integer'
+      )
+    );
+  const min = options[lower];
+  const max = options[upper];
+  if (issues.length === 0 && typeof min === 'number' && typeof max === 'number' && min > max) {
+    issues.push(constraintDefinitionIssue(lower, `cannot be greater than '${upper}'`));
+  }
+  return issues;
+}
+
+/**
+ * Check whether a bound option is a finite number or a non-negative integer count
+ */
+function isValidBound(bound: unknown, kind: 'number' | 'count'): boolean {
+  return kind === 'number'
+    ? typeof bound === 'number' && Number.isFinite(bound)
+    : Number.isInteger(bound) && (bound as number) >= 0;
+}
+
+/**
+ * Build the issue for an invalid constraint option of a definition
+ */
+function constraintDefinitionIssue(option: string, problem: string): ValidationIssue {
+  return {
+    path: [option],
+    code: 'invalid_constraint',
+    message: `Constraint '${option}' ${problem}`,
+  };
+}
+
+/**
+ * Check a computed value against the declared formula/rollup result type
+ */
+function computedValue(value: unknown, result: string): ValueIssue | null {
+  return isValidComputedResult(value, result)
+    ? null
+    : { kind: 'type', expected: `${result} result` };
+}
+
+/**
+ * Validates email format
+ */
+function isValidEmail(email: string): boolean {
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  return emailRegex.test(email) && email.length <= 254;
+}
+
+/**
+ * Validates URL format
+ */
+function isValidURL(url: string): boolean {
+  try {
+    const parsedUrl = new URL(url);
+    return parsedUrl.protocol === 'http:' || parsedUrl.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validates phone number format
+ * Accepts E.164 numbers with optional spaces, dots, dashes and parentheses
+ */
+function isValidPhoneNumber(phoneNumber: string): boolean {
+  return /^\+?[1-9]\d{6,14}$/.test(phoneNumber.replace(/[\s().-]/g, ''));
+}
+
+/**
+ * Validates NotionFile object structure
+ */
+function isValidNotionFile(file: unknown): boolean {
+  if (!file || typeof file !== 'object') {
+    return false;
+  }
+
+  const fileObj = file as Record<string, unknown>;
+  return (
+    typeof fileObj.name === 'string' &&
+    fileObj.name.length > 0 &&
+    typeof fileObj.url === 'string' &&
+    isValidURL(fileObj.url) &&
+    (fileObj.expiry_time === null ||
+      fileObj.expiry_time === undefined ||
+      fileObj.expiry_time instanceof Date)
+  );
+}
+
+/**
+ * Validates UniqueId object structure
+ */
+function isValidUniqueId(id: unknown): boolean {
+  if (!id || typeof id !== 'object') {
+    return false;
+  }
+
+  const idObj = id as Record<string, unknown>;
+  return (
+    (idObj.prefix === null || typeof idObj.prefix === 'string') &&
+    typeof idObj.number === 'number' &&
+    Number.isInteger(idObj.number)
+  );
+}
+
+/**
+ * Validates NotionUser object structure
+ */
+function isValidNotionUser(user: unknown): boolean {
+  if (!user || typeof user !== 'object') {
+    return false;
+  }
+
+  const userObj = user as Record<string, unknown>;
+  return (
+    typeof userObj.id === 'string' &&
+    userObj.id.length > 0 &&
+    (userObj.name === null || userObj.name === undefined || typeof userObj.name === 'string') &&
+    (userObj.type === 'person' || userObj.type === 'bot')
+  );
+}
+
+/**
+ * Validates relation target is a database ID or a schema exposing one
+ */
+function isValidRelationTarget(target: unknown): boolean {
+  if (typeof target === 'string') {
+    return DATABASE_ID_PATTERN.test(target);
+  }
+  if (!target || typeof target !== 'object') {
+    return false;
+  }
+  const { databaseId, definition } = target as Record<string, unknown>;
+  return (
+    typeof databaseId === 'string' &&
+    DATABASE_ID_PATTERN.test(databaseId) &&
+    !!definition &&
+    typeof definition === 'object'
+  );
+}
+
+/**
+ * Validates relation page reference structure
+ */
+function isValidRelationReference(reference: unknown): boolean {
+  if (!reference || typeof reference !== 'object') {
+    return false;
+  }
+  const id = (reference as Record<string, unknown>).id;
+  return typeof id === 'string' && id.length > 0;
+}
+
+/**
+ * Validates a computed value matches the declared formula/rollup result type
+ */
+function isValidComputedResult(value: unknown, result: string): boolean {
+  switch (result) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && !isNaN(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'date':
+      return value instanceof Date;
+    case 'array':
+      return Array.isArray(value);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Validates number format options
+ */
+export function isValidNumberFormat(format: unknown): format is NumberFormat {
+  return typeof format === 'string' && (NUMBER_FORMATS as readonly string[]).includes(format);
+}
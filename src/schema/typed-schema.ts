@@ -5,10 +5,58 @@
  * Provides type-safe schema creation with compile-time and runtime validation
  */
 
-import type { SchemaDefinition, PropertyDefinition, PerformanceMetrics } from '../types/core.js';
-import type { InferSchemaProperties } from '../types/inference.js';
-import { validateSchemaDefinition, validatePropertyName } from './validation.js';
-import { SchemaValidationError, PropertyAccessError } from '../errors/index.js';
+import type {
+  SchemaDefinition,
+  PropertyDefinition,
+  PerformanceMetrics,
+  StatusGroup,
+} from '../types/core.js';
+import type {
+  InferSchemaProperties,
+  InferRecordProperties,
+  ExtractStatusGroupOptions,
+} from '../types/inference.js';
+import { getStatusGroup, isStatusProperty, type StatusProperty } from '../types/properties.js';
+import type {
+  QueryOptions,
+  QueryPage,
+  QueryResult,
+  RequiredPropertyPolicy,
+} from '../types/query.js';
+import type { NotionClient } from '../clients/notion-client.js';
+import { validateSchemaDefinition, validatePropertyName, toSchemaIssues } from './validation.js';
+import {
+  checkPropertyValue,
+  checkRecord,
+  toSchemaIssue,
+  DEFAULT_VALIDATION_CONFIG,
+  type ValidationConfig,
+} from './rules.js';
+import {
+  SchemaValidationError,
+  PropertyAccessError,
+  RecordValidationError,
+  type SchemaIssue,
+} from '../errors/index.js';
+import { queryAll, queryPages } from '../services/pagination.js';
+import { checkSchemaDrift, type DriftCheckOptions, type SchemaDrift } from '../services/drift.js';
+import { resolvePropertyIds } from '../services/property-ids.js';
+
+/**
+ * Options for creating a TypedSchema
+ */
+export interface TypedSchemaOptions {
+  /** Overrides of the default validation configuration (property limits, title and naming rules) */
+  readonly validation?: Partial<ValidationConfig>;
+}
+
+/**
+ * Result of validating a record against a schema
+ * Holds the typed record on success, or every issue found on failure
+ */
+export type RecordValidationResult<S extends SchemaDefinition> =
+  | { readonly success: true; readonly data: InferRecordProperties<S> }
+  | { readonly success: false; readonly issues: readonly SchemaIssue[] };
 
 /**
  * TypedSchema class provides type-safe schema management
@@ -20,6 +68,7 @@ import { SchemaValidationError, PropertyAccessError } from '../errors/index.js';
  */
 export class TypedSchema<S extends SchemaDefinition> {
   private readonly _definition: S;
+  private readonly _validationConfig: ValidationConfig;
   private readonly _createdAt: Date;
   private _lastQueryDuration: number = 0;
 
@@ -27,20 +76,31 @@ export class TypedSchema<S extends SchemaDefinition> {
    * Create a new TypedSchema instance
    *
    * @param definition - Schema definition object
+   * @param options - Schema options such as validation configuration overrides
    * @throws {SchemaValidationError} When schema validation fails
    */
-  constructor(definition: S) {
+  constructor(definition: S, options: TypedSchemaOptions = {}) {
+    const validationConfig = options.validation
+      ? { ...DEFAULT_VALIDATION_CONFIG, ...options.validation }
+      : DEFAULT_VALIDATION_CONFIG;
+
     // Validate schema at creation time (FR-008)
     try {
-      validateSchemaDefinition(definition);
+      validateSchemaDefinition(definition, validationConfig);
     } catch (error) {
       if (error instanceof Error) {
-        throw new SchemaValidationError('schema', 'valid schema definition', definition);
+        throw new SchemaValidationError(
+          'schema',
+          'valid schema definition',
+          definition,
+          toSchemaIssues(error)
+        );
       }
       throw error;
     }
 
     this._definition = definition;
+    this._validationConfig = validationConfig;
     this._createdAt = new Date();
   }
 
@@ -58,6 +118,13 @@ export class TypedSchema<S extends SchemaDefinition> {
     return this._definition;
   }
 
+  /**
+   * Get the validation configuration this schema was created with
+   */
+  get validationConfig(): ValidationConfig {
+    return this._validationConfig;
+  }
+
   /**
    * Get all property names defined in this schema
    */
@@ -113,10 +180,15 @@ export class TypedSchema<S extends SchemaDefinition> {
    */
   validatePropertyName(name: string): void {
     try {
-      validatePropertyName(name);
+      validatePropertyName(name, this._validationConfig);
     } catch (error) {
       if (error instanceof Error) {
-        throw new SchemaValidationError('propertyName', 'valid property name', name);
+        throw new SchemaValidationError(
+          'propertyName',
+          'valid property name',
+          name,
+          toSchemaIssues(error)
+        );
       }
       throw error;
     }
@@ -174,6 +246,51 @@ export class TypedSchema<S extends SchemaDefinition> {
       }));
   }
 
+  /**
+   * Get the status group of a status property value
+   *
+   * @param propertyName - Name of a status property
+   * @param value - Status option name
+   * @returns The group containing the option, or null for null or undeclared values
+   * @throws {SchemaValidationError} When the property is not a status property
+   */
+  getStatusGroup<K extends keyof S['properties']>(
+    propertyName: K,
+    value: string | null
+  ): StatusGroup | null {
+    const definition = this.getStatusProperty(propertyName);
+    return value === null ? null : getStatusGroup(definition, value);
+  }
+
+  /**
+   * Check whether a status property value belongs to a status group
+   * Narrows the value to the options declared in that group
+   *
+   * @param propertyName - Name of a status property
+   * @param value - Status option name
+   * @param group - Status group to check
+   * @returns True if the value is assigned to the group
+   * @throws {SchemaValidationError} When the property is not a status property
+   */
+  isStatusInGroup<K extends keyof S['properties'], G extends StatusGroup>(
+    propertyName: K,
+    value: string | null,
+    group: G
+  ): value is ExtractStatusGroupOptions<S['properties'][K], G> {
+    return this.getStatusGroup(propertyName, value) === group;
+  }
+
+  /**
+   * Get a property definition that must be a status property
+   */
+  private getStatusProperty(propertyName: keyof S['properties']): StatusProperty {
+    const definition: PropertyDefinition = this.getProperty(propertyName);
+    if (!isStatusProperty(definition)) {
+      throw new SchemaValidationError(String(propertyName), 'status property', definition.type);
+    }
+    return definition;
+  }
+
   /**
    * Update last query duration for performance tracking
    * Internal method used by query operations
@@ -197,99 +314,109 @@ export class TypedSchema<S extends SchemaDefinition> {
   }
 
   /**
-   * Validates email format
+   * Create a type-safe property value validator
+   * Returns a function that validates property values match schema types
    */
-  private isValidEmail(email: string): boolean {
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    return emailRegex.test(email) && email.length <= 254;
+  createPropertyValidator() {
+    return <K extends keyof InferSchemaProperties<S>>(
+      propertyName: K,
+      value: unknown
+    ): value is InferSchemaProperties<S>[K] =>
+      checkPropertyValue(value, this.getProperty(propertyName)) === null;
   }
 
   /**
-   * Validates URL format
+   * Validate a whole record of property values, e.g. webhook or form input
+   * Every property is checked, unknown keys are rejected and missing keys become null,
+   * including timestamps and audit users that Notion sets on saved pages
+   *
+   * @param input - Record to validate
+   * @returns The typed record, or every issue found
    */
-  private isValidURL(url: string): boolean {
-    try {
-      const parsedUrl = new URL(url);
-      return parsedUrl.protocol === 'http:' || parsedUrl.protocol === 'https:';
-    } catch {
-      return false;
+  validateRecord(input: unknown): RecordValidationResult<S> {
+    const issues = checkRecord(input, this._definition.properties, this._definition.refinements);
+    if (issues.length > 0) {
+      return { success: false, issues: issues.map(toSchemaIssue) };
     }
+
+    const record = input as Record<string, unknown>;
+    const data = Object.fromEntries(
+      this.propertyNames.map(name => [name, record[name] ?? null])
+    ) as InferRecordProperties<S>;
+    return { success: true, data };
   }
 
   /**
-   * Validates NotionUser object structure
+   * Validate a whole record of property values and return it typed
+   *
+   * @param input - Record to validate
+   * @returns The typed record with missing properties set to null
+   * @throws {RecordValidationError} When the record doesn't match the schema
    */
-  private isValidNotionUser(user: unknown): boolean {
-    if (!user || typeof user !== 'object') {
-      return false;
+  parse(input: unknown): InferRecordProperties<S> {
+    const result = this.validateRecord(input);
+    if (!result.success) {
+      throw new RecordValidationError(this._definition.databaseId, result.issues);
     }
-
-    const userObj = user as Record<string, unknown>;
-    return (
-      typeof userObj.id === 'string' &&
-      userObj.id.length > 0 &&
-      (userObj.name === null || userObj.name === undefined || typeof userObj.name === 'string') &&
-      (userObj.type === 'person' || userObj.type === 'bot')
-    );
+    return result.data;
   }
 
   /**
-   * Create a type-safe property value validator
-   * Returns a function that validates property values match schema types
+   * Iterate over every query result in this schema's database
+   * Follows pagination cursors automatically
+   *
+   * @param client - Notion client instance
+   * @param options - Query options applied to every page request
+   * @returns Async iterable of decoded results
    */
-  createPropertyValidator() {
-    return <K extends keyof InferSchemaProperties<S>>(
-      propertyName: K,
-      value: unknown
-    ): value is InferSchemaProperties<S>[K] => {
-      // Get property definition
-      const propDef = this.getProperty(propertyName);
-
-      // Handle null values (all properties are nullable)
-      if (value === null || value === undefined) {
-        return true;
-      }
-
-      // Type-specific validation
-      switch (propDef.type) {
-        case 'title':
-        case 'rich_text':
-          return typeof value === 'string';
-
-        case 'email':
-          return typeof value === 'string' && this.isValidEmail(value);
-
-        case 'url':
-          return typeof value === 'string' && this.isValidURL(value);
-
-        case 'number':
-          return typeof value === 'number' && !isNaN(value);
-
-        case 'checkbox':
-          return typeof value === 'boolean';
-
-        case 'date':
-          return value instanceof Date;
-
-        case 'select':
-          if ('options' in propDef && typeof value === 'string') {
-            return propDef.options.includes(value);
-          }
-          return false;
+  queryAll<P extends RequiredPropertyPolicy = 'throw'>(
+    client: NotionClient,
+    options: QueryOptions<S, P> = {}
+  ): AsyncGenerator<QueryResult<S, P>, void, undefined> {
+    return queryAll(client, this, options);
+  }
 
-        case 'multi_select':
-          if ('options' in propDef && Array.isArray(value)) {
-            return value.every(v => typeof v === 'string' && propDef.options.includes(v));
-          }
-          return false;
+  /**
+   * Iterate over every page of query results in this schema's database
+   *
+   * @param client - Notion client instance
+   * @param options - Query options applied to every page request
+   * @returns Async iterable of result pages
+   */
+  queryPages<P extends RequiredPropertyPolicy = 'throw'>(
+    client: NotionClient,
+    options: QueryOptions<S, P> = {}
+  ): AsyncGenerator<QueryPage<S, P>, void, undefined> {
+    return queryPages(client, this, options);
+  }
 
-        case 'people':
-          return Array.isArray(value) && value.every(user => this.isValidNotionUser(user));
+  /**
+   * Compare this schema against the live database
+   * Reports missing properties, type changes, option changes and number format changes
+   *
+   * @param client - Notion client instance
+   * @param options - Set `strict` to throw when drift is found
+   * @returns Structured diff between the schema and the live database
+   * @throws {SchemaValidationError} In strict mode when drift is found (the diff is in `context.received`)
+   * @throws {NotionAPIError} When Notion API calls fail
+   */
+  checkDrift(client: NotionClient, options: DriftCheckOptions = {}): Promise<SchemaDrift> {
+    return checkSchemaDrift(client, this, options);
+  }
 
-        default:
-          return false;
-      }
-    };
+  /**
+   * Create a copy of this schema with the Notion property IDs pinned from the live database
+   * The copy addresses properties by ID, so it keeps working when columns are renamed
+   *
+   * @param client - Notion client instance
+   * @returns Schema with the `id` of every property pinned
+   * @throws {SchemaValidationError} When a schema property has no matching database property
+   * @throws {NotionAPIError} When Notion API calls fail
+   */
+  async resolvePropertyIds(client: NotionClient): Promise<TypedSchema<S>> {
+    return new TypedSchema(await resolvePropertyIds(client, this), {
+      validation: this._validationConfig,
+    });
   }
 
   /**
@@ -309,8 +436,13 @@ export class TypedSchema<S extends SchemaDefinition> {
  * Factory function to create a TypedSchema with type inference
  *
  * @param definition - Schema definition
+ * @param options - Schema options such as validation configuration overrides
  * @returns TypedSchema instance with inferred types
+ * @throws {SchemaValidationError} When schema validation fails
  */
-export function createTypedSchema<S extends SchemaDefinition>(definition: S): TypedSchema<S> {
-  return new TypedSchema(definition);
+export function createTypedSchema<S extends SchemaDefinition>(
+  definition: S,
+  options: TypedSchemaOptions = {}
+): TypedSchema<S> {
+  return new TypedSchema(definition, options);
 }
@@ -3,106 +3,108 @@
  *
  * Based on research decisions (Valibot chosen for performance and bundle size)
  * Implements creation-time validation as per clarifications
+ * Wraps the shared validation rules so both validators report the same issues
  */
 
 import * as v from 'valibot';
 import type { PropertyDefinition, SchemaDefinition, PropertyType } from '../types/core.js';
+import type { SchemaIssue } from '../errors/index.js';
+import {
+  checkPropertyDefinition,
+  checkPropertyName,
+  checkSchemaDefinition,
+  checkSelectionOptions,
+  DATABASE_ID_PATTERN,
+  DEFAULT_VALIDATION_CONFIG,
+  formatIssuePath,
+  PROPERTY_TYPES,
+  type ValidationConfig,
+  type ValidationIssue,
+} from './rules.js';
+
+/**
+ * Build a validation schema that reports the issues found by a validation rule
+ * Each valibot issue keeps the rule's path and carries its code as `expected`
+ */
+function createRuleSchema<T>(check: (input: unknown) => ValidationIssue[]) {
+  return v.pipe(
+    v.unknown(),
+    v.rawCheck(({ dataset, addIssue }) => {
+      if (dataset.typed) {
+        for (const issue of check(dataset.value)) {
+          const [first, ...rest] = toPathItems(dataset.value, issue.path);
+          addIssue({
+            message: issue.message,
+            expected: issue.code,
+            path: first ? [first, ...rest] : undefined,
+          });
+        }
+      }
+    }),
+    v.transform(input => input as T)
+  );
+}
+
+/**
+ * Build valibot path items for a rule issue path, resolving the values along the way
+ */
+function toPathItems(input: unknown, path: ValidationIssue['path']): v.UnknownPathItem[] {
+  const items: v.UnknownPathItem[] = [];
+  let current = input;
+
+  for (const key of path) {
+    const value =
+      current && typeof current === 'object'
+        ? (current as Record<string, unknown>)[key]
+        : undefined;
+    items.push({ type: 'unknown', origin: 'value', input: current, key, value });
+    current = value;
+  }
+
+  return items;
+}
+
+/**
+ * Convert a validation failure into schema issues
+ * Valibot issues keep their path and use the rule code, or the valibot issue type
+ *
+ * @param error - Error thrown by one of the validation functions
+ * @returns Issues with paths formatted like `properties.Status.options[2]`
+ */
+export function toSchemaIssues(error: Error): SchemaIssue[] {
+  if (!v.isValiError(error)) {
+    return [{ path: '', code: 'invalid_schema', message: error.message }];
+  }
+
+  return error.issues.map(issue => ({
+    path: formatIssuePath(issue.path?.map(item => item.key as string | number) ?? []),
+    code: issue.type === 'raw_check' && issue.expected ? issue.expected : issue.type,
+    message: issue.message,
+  }));
+}
 
 /**
  * Validation schema for property types
  */
-const propertyTypeSchema = v.picklist([
-  'title',
-  'rich_text',
-  'number',
-  'checkbox',
-  'date',
-  'url',
-  'email',
-  'select',
-  'multi_select',
-  'people',
-] as const);
+const propertyTypeSchema = v.picklist(PROPERTY_TYPES);
 
 /**
  * Validation schema for property definitions
- * Uses discriminated union based on property type
- */
-const propertyDefinitionSchema = v.variant('type', [
-  v.object({
-    type: v.literal('title'),
-  }),
-  v.object({
-    type: v.literal('rich_text'),
-  }),
-  v.object({
-    type: v.literal('number'),
-    format: v.optional(v.picklist(['number', 'percent', 'dollar'])),
-  }),
-  v.object({
-    type: v.literal('checkbox'),
-  }),
-  v.object({
-    type: v.literal('date'),
-  }),
-  v.object({
-    type: v.literal('url'),
-  }),
-  v.object({
-    type: v.literal('email'),
-  }),
-  v.object({
-    type: v.literal('select'),
-    options: v.pipe(
-      v.array(v.string()),
-      v.check(options => options.length > 0, 'Select options cannot be empty'),
-      v.check(options => new Set(options).size === options.length, 'Select options must be unique')
-    ),
-  }),
-  v.object({
-    type: v.literal('multi_select'),
-    options: v.pipe(
-      v.array(v.string()),
-      v.check(options => options.length > 0, 'Multi-select options cannot be empty'),
-      v.check(
-        options => new Set(options).size === options.length,
-        'Multi-select options must be unique'
-      )
-    ),
-  }),
-  v.object({
-    type: v.literal('people'),
-  }),
-]);
-
-/**
- * Validation schema for schema definitions
- * Enforces structural rules and business constraints
- */
-const schemaDefinitionSchema = v.pipe(
-  v.object({
-    databaseId: v.pipe(
-      v.string(),
-      v.minLength(1, 'Database ID cannot be empty'),
-      v.regex(/^[a-f0-9-]{36}$/, 'Database ID must be a valid UUID format')
-    ),
-    properties: v.pipe(
-      v.record(v.string(), propertyDefinitionSchema),
-      v.check(
-        properties => Object.keys(properties).length > 0,
-        'Schema must have at least one property'
-      ),
-      v.check(
-        properties => Object.keys(properties).length <= 20,
-        'Schema cannot have more than 20 properties'
-      ),
-      v.check(properties => {
-        const titleProperties = Object.values(properties).filter(prop => prop.type === 'title');
-        return titleProperties.length === 1;
-      }, 'Schema must have exactly one title property')
-    ),
-  })
-);
+ */
+const propertyDefinitionSchema = createRuleSchema<PropertyDefinition>(checkPropertyDefinition);
+
+/**
+ * Build the validation schema for schema definitions
+ * Enforces structural rules and the business constraints of the validation configuration
+ */
+function createSchemaDefinitionSchema(config: ValidationConfig) {
+  return createRuleSchema<SchemaDefinition>(schema => checkSchemaDefinition(schema, config));
+}
+
+/**
+ * Validation schema for schema definitions under the default configuration
+ */
+const schemaDefinitionSchema = createSchemaDefinitionSchema(DEFAULT_VALIDATION_CONFIG);
 
 /**
  * Validation schema for Notion database IDs
@@ -110,21 +112,26 @@ const schemaDefinitionSchema = v.pipe(
 const databaseIdSchema = v.pipe(
   v.string(),
   v.minLength(1),
-  v.regex(/^[a-f0-9-]{36}$/, 'Invalid database ID format')
+  v.regex(DATABASE_ID_PATTERN, 'Invalid database ID format')
 );
 
 /**
- * Validation schema for property names
+ * Build the validation schema for property names
+ * A null pattern accepts any non-empty name
  */
-const propertyNameSchema = v.pipe(
-  v.string(),
-  v.minLength(1, 'Property name cannot be empty'),
-  v.maxLength(100, 'Property name too long'),
-  v.regex(
-    /^[a-zA-Z][a-zA-Z0-9_\s]*$/,
-    'Property name must start with letter and contain only letters, numbers, underscores, and spaces'
-  )
-);
+function createPropertyNameSchema(pattern: RegExp | null | undefined) {
+  return createRuleSchema<string>(name => checkPropertyName(name, pattern));
+}
+
+/**
+ * Validation schema for property names under the default naming rule
+ */
+const propertyNameSchema = createPropertyNameSchema(undefined);
+
+/**
+ * Validation schema for selection options
+ */
+const selectionOptionsSchema = createRuleSchema<string[]>(checkSelectionOptions);
 
 /**
  * Validate a property type string
@@ -144,8 +151,15 @@ export function validatePropertyDefinition(definition: unknown): PropertyDefinit
  * Validate a complete schema definition
  * This is the main validation function used during schema creation
  */
-export function validateSchemaDefinition(schema: unknown): SchemaDefinition {
-  return v.parse(schemaDefinitionSchema, schema);
+export function validateSchemaDefinition(
+  schema: unknown,
+  config: ValidationConfig = DEFAULT_VALIDATION_CONFIG
+): SchemaDefinition {
+  const definitionSchema =
+    config === DEFAULT_VALIDATION_CONFIG
+      ? schemaDefinitionSchema
+      : createSchemaDefinitionSchema(config);
+  return v.parse(definitionSchema, schema);
 }
 
 /**
@@ -158,25 +172,22 @@ export function validateDatabaseId(id: string): string {
 /**
  * Validate a property name
  */
-export function validatePropertyName(name: string): string {
-  return v.parse(propertyNameSchema, name);
+export function validatePropertyName(
+  name: string,
+  config: ValidationConfig = DEFAULT_VALIDATION_CONFIG
+): string {
+  const nameSchema =
+    config === DEFAULT_VALIDATION_CONFIG
+      ? propertyNameSchema
+      : createPropertyNameSchema(config.propertyNamePattern);
+  return v.parse(nameSchema, name);
 }
 
 /**
  * Validate selection options array
  */
 export function validateSelectionOptions(options: unknown): string[] {
-  const optionsSchema = v.pipe(
-    v.array(v.string()),
-    v.check(opts => opts.length > 0, 'Selection options cannot be empty'),
-    v.check(opts => new Set(opts).size === opts.length, 'Selection options must be unique'),
-    v.check(
-      opts => opts.every(opt => opt.trim().length > 0),
-      'Selection options cannot be empty strings'
-    )
-  );
-
-  return v.parse(optionsSchema, options);
+  return v.parse(selectionOptionsSchema, options);
 }
 
 /**
@@ -0,0 +1,466 @@
+/**
+ * Property value codec for Notion pages
+ *
+ * Converts raw Notion property values into the plain values described by
+ * InferSchemaProperties, and plain values back into Notion request bodies
+ */
+
+import type {
+  SchemaDefinition,
+  PropertyDefinition,
+  PropertyType,
+  ReadOnlyPropertyType,
+  NotionUser,
+  NotionFile,
+  DateOptions,
+  DatePropertyValue,
+  DateOnly,
+} from '../types/core.js';
+import type {
+  InferPropertyType,
+  InferSchemaProperties,
+  InferWritableProperties,
+} from '../types/inference.js';
+import type {
+  NotionDate,
+  NotionPage,
+  NotionPropertyValue,
+  NotionPropertyRequest,
+  NotionRawUser,
+  NotionRawFile,
+  NotionRichText,
+  NotionRichTextRequest,
+} from '../types/notion.js';
+import {
+  findNotionProperty,
+  getNotionPropertyReference,
+  isReadOnlyProperty,
+} from '../types/properties.js';
+import {
+  SchemaValidationError,
+  PropertyAccessError,
+  PropertyValidationError,
+} from '../errors/index.js';
+import { formatLocalDateTime, parseNotionDate } from '../utils/dates.js';
+
+/**
+ * Maximum length of a single rich text segment accepted by the Notion API
+ */
+const MAX_RICH_TEXT_LENGTH = 2000;
+
+/**
+ * Raw property value for a specific property type
+ */
+type RawPropertyValue<T extends PropertyType> = Extract<NotionPropertyValue, { type: T }>;
+
+/**
+ * Decoder for a single read-only property definition type
+ */
+export interface PropertyDecoder<D extends PropertyDefinition> {
+  /** Convert a raw Notion property value into its plain value */
+  decode(raw: RawPropertyValue<D['type']>, definition: D): InferPropertyType<D>;
+}
+
+/**
+ * Decoder/encoder pair for a single property definition type
+ */
+export interface PropertyCodec<D extends PropertyDefinition> extends PropertyDecoder<D> {
+  /** Convert a plain value into a Notion property request body */
+  encode(value: InferPropertyType<D>, definition: D): NotionPropertyRequest;
+}
+
+/**
+ * Codec registry keyed by property type
+ * Read-only property types only register a decoder
+ */
+type PropertyCodecRegistry = {
+  readonly [K in PropertyType]: K extends ReadOnlyPropertyType
+    ? PropertyDecoder<Extract<PropertyDefinition, { type: K }>>
+    : PropertyCodec<Extract<PropertyDefinition, { type: K }>>;
+};
+
+/**
+ * Codec registry for every supported property type
+ */
+const propertyCodecs: PropertyCodecRegistry = {
+  title: {
+    decode: raw => decodeRichText(raw.title),
+    encode: value => ({ title: encodeRichText(value) }),
+  },
+  rich_text: {
+    decode: raw => decodeRichText(raw.rich_text),
+    encode: value => ({ rich_text: encodeRichText(value) }),
+  },
+  number: {
+    decode: raw => raw.number,
+    encode: value => ({ number: value }),
+  },
+  checkbox: {
+    decode: raw => raw.checkbox,
+    encode: value => ({ checkbox: value ?? false }),
+  },
+  date: {
+    decode: (raw, definition) => decodeDateValue(raw.date, definition),
+    encode: (value, definition) => ({ date: encodeDateValue(value, definition) }),
+  },
+  url: {
+    decode: raw => raw.url,
+    encode: value => ({ url: value }),
+  },
+  email: {
+    decode: raw => raw.email,
+    encode: value => ({ email: value }),
+  },
+  select: {
+    decode: raw => (raw.select ? raw.select.name : null),
+    encode: value => ({ select: value === null ? null : { name: value } }),
+  },
+  multi_select: {
+    decode: raw => raw.multi_select.map(option => option.name),
+    encode: value => ({ multi_select: (value ?? []).map(name => ({ name })) }),
+  },
+  people: {
+    decode: raw => raw.people.map(decodeUser),
+    encode: value => ({ people: (value ?? []).map(user => ({ id: user.id })) }),
+  },
+  relation: {
+    // Page objects hold at most 25 references; toQueryResult flags longer relations as truncated
+    decode: raw => raw.relation.map(reference => ({ id: reference.id })),
+    encode: value => ({ relation: (value ?? []).map(reference => ({ id: reference.id })) }),
+  },
+  status: {
+    decode: raw => (raw.status ? raw.status.name : null),
+    encode: value => ({ status: value === null ? null : { name: value } }),
+  },
+  formula: {
+    decode: ({ formula }) => {
+      switch (formula.type) {
+        case 'string':
+          return formula.string;
+        case 'number':
+          return formula.number;
+        case 'boolean':
+          return formula.boolean;
+        case 'date':
+          return decodeDate(formula.date);
+      }
+    },
+  },
+  rollup: {
+    decode: ({ rollup }) => {
+      switch (rollup.type) {
+        case 'number':
+          return rollup.number;
+        case 'date':
+          return decodeDate(rollup.date);
+        case 'array':
+          return [...rollup.array];
+      }
+    },
+  },
+  created_time: {
+    decode: raw => new Date(raw.created_time),
+  },
+  last_edited_time: {
+    decode: raw => new Date(raw.last_edited_time),
+  },
+  created_by: {
+    decode: raw => decodeUser(raw.created_by),
+  },
+  last_edited_by: {
+    decode: raw => decodeUser(raw.last_edited_by),
+  },
+  files: {
+    decode: raw => raw.files.map(decodeFile),
+    // Only external files can be written; encodePageProperties rejects Notion-hosted files
+    encode: value => ({
+      files: (value ?? []).map(file => ({
+        name: file.name,
+        type: 'external',
+        external: { url: file.url },
+      })),
+    }),
+  },
+  phone_number: {
+    decode: raw => raw.phone_number,
+    encode: value => ({ phone_number: value }),
+  },
+  unique_id: {
+    decode: ({ unique_id }) =>
+      unique_id.number === null ? null : { prefix: unique_id.prefix, number: unique_id.number },
+  },
+};
+
+/**
+ * Get the codec registered for a property type
+ *
+ * @param type - Property type
+ * @returns Codec handling values of that type
+ */
+export function getPropertyCodec<T extends PropertyType>(type: T): PropertyCodecRegistry[T] {
+  return propertyCodecs[type];
+}
+
+/**
+ * Decode a single raw property value according to its definition
+ *
+ * @param name - Property name for error context
+ * @param definition - Property definition from the schema
+ * @param raw - Raw property value from the Notion page
+ * @returns Plain property value (null when empty)
+ * @throws {SchemaValidationError} When the raw value type doesn't match the definition
+ */
+export function decodePropertyValue<D extends PropertyDefinition>(
+  name: string,
+  definition: D,
+  raw: NotionPropertyValue | undefined
+): InferPropertyType<D> {
+  if (!raw || raw.type !== definition.type) {
+    throw new SchemaValidationError(name, `'${definition.type}' property value`, raw);
+  }
+
+  const result = getComputedResultType(raw);
+  if ('result' in definition && result !== definition.result) {
+    throw new SchemaValidationError(name, `'${definition.result}' ${definition.type} result`, raw);
+  }
+
+  const codec = propertyCodecs[definition.type] as unknown as PropertyDecoder<D>;
+  return codec.decode(raw as RawPropertyValue<D['type']>, definition);
+}
+
+/**
+ * Encode a single plain value into a Notion property request body
+ *
+ * @param definition - Property definition from the schema
+ * @param value - Plain property value (null clears the property)
+ * @returns Notion property request body
+ * @throws {SchemaValidationError} When the property type is read-only
+ */
+export function encodePropertyValue<D extends PropertyDefinition>(
+  definition: D,
+  value: InferPropertyType<D>
+): NotionPropertyRequest {
+  const codec = propertyCodecs[definition.type] as unknown as PropertyDecoder<D>;
+  if (!('encode' in codec)) {
+    throw new SchemaValidationError(
+      definition.type,
+      'writable property type',
+      `read-only '${definition.type}' property`
+    );
+  }
+  return (codec as PropertyCodec<D>).encode(value, definition);
+}
+
+/**
+ * Decode all schema properties of a raw Notion page
+ * Properties are matched by pinned property ID, else by Notion-side name
+ *
+ * @param definition - Schema definition describing the page properties
+ * @param page - Raw page returned by the Notion API
+ * @returns Typed property object
+ * @throws {SchemaValidationError} When a property is missing or has an unexpected type
+ */
+export function decodePageProperties<S extends SchemaDefinition>(
+  definition: S,
+  page: NotionPage
+): InferSchemaProperties<S> {
+  const props: Record<string, unknown> = {};
+
+  for (const [name, propertyDefinition] of Object.entries(definition.properties)) {
+    props[name] = decodePropertyValue(
+      name,
+      propertyDefinition,
+      findNotionProperty(page.properties, name, propertyDefinition)
+    );
+  }
+
+  return props as InferSchemaProperties<S>;
+}
+
+/**
+ * Encode typed property values into a Notion `properties` request body
+ * Properties whose value is undefined are omitted
+ * Properties are keyed by pinned property ID, else by Notion-side name
+ *
+ * @param definition - Schema definition describing the page properties
+ * @param values - Typed property values to encode
+ * @returns Notion properties request body
+ * @throws {PropertyAccessError} When a value is given for a property not in the schema
+ * @throws {SchemaValidationError} When a value is given for a read-only property
+ * @throws {PropertyValidationError} When a files value holds a Notion-hosted file
+ */
+export function encodePageProperties<S extends SchemaDefinition>(
+  definition: S,
+  values: Partial<InferWritableProperties<S>>
+): Record<string, NotionPropertyRequest> {
+  const properties: Record<string, NotionPropertyRequest> = {};
+
+  for (const [name, value] of Object.entries(values)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    const propertyDefinition = definition.properties[name];
+    if (!propertyDefinition) {
+      throw new PropertyAccessError(name, definition.databaseId);
+    }
+    if (isReadOnlyProperty(propertyDefinition)) {
+      throw new SchemaValidationError(
+        name,
+        'writable property',
+        `read-only '${propertyDefinition.type}' property`
+      );
+    }
+    if (propertyDefinition.type === 'files') {
+      assertExternalFiles(name, value as readonly NotionFile[] | null);
+    }
+
+    properties[getNotionPropertyReference(name, propertyDefinition)] = encodePropertyValue(
+      propertyDefinition,
+      value as InferPropertyType<PropertyDefinition>
+    );
+  }
+
+  return properties;
+}
+
+/**
+ * Reject Notion-hosted files, whose temporary URLs would be written back as external files
+ * Hosted files are the decoded files with an expiry time
+ */
+function assertExternalFiles(name: string, files: readonly NotionFile[] | null): void {
+  const hosted = files?.find(file => file.expiry_time);
+  if (hosted) {
+    throw new PropertyValidationError(name, hosted, 'external file', {
+      name: 'expiry_time',
+      received: `Notion-hosted file '${hosted.name}'`,
+    });
+  }
+}
+
+/**
+ * Get the result type of a raw formula or rollup value
+ */
+function getComputedResultType(raw: NotionPropertyValue): string | undefined {
+  if (raw.type === 'formula') {
+    return raw.formula.type;
+  }
+  if (raw.type === 'rollup') {
+    return raw.rollup.type;
+  }
+  return undefined;
+}
+
+/**
+ * Convert a raw date value into a Date (start of the range)
+ */
+function decodeDate(date: NotionDate | null): Date | null {
+  return date ? parseNotionDate(date.start, date.time_zone) : null;
+}
+
+/**
+ * Convert a raw date value into the shape declared by the date property options
+ * Calendar dates are read from the string as written, so they never shift by a day
+ */
+function decodeDateValue(date: NotionDate | null, options: DateOptions): DatePropertyValue | null {
+  if (!date) {
+    return null;
+  }
+
+  const decodePoint = (value: string): Date | DateOnly =>
+    options.includeTime === false
+      ? (value.slice(0, 10) as DateOnly)
+      : parseNotionDate(value, date.time_zone ?? options.timeZone);
+
+  const start = decodePoint(date.start);
+  if (!options.range) {
+    return start;
+  }
+  return { start, end: date.end ? decodePoint(date.end) : null };
+}
+
+/**
+ * Convert a date property value into a Notion date request
+ * Date-times are written as UTC instants, or as local times in the declared time zone;
+ * calendar dates are written as-is, without a time zone
+ */
+function encodeDateValue(value: DatePropertyValue | null, options: DateOptions): NotionDate | null {
+  if (value === null) {
+    return null;
+  }
+
+  const { timeZone } = options;
+  const encodePoint = (point: Date | DateOnly): string => {
+    if (typeof point === 'string') {
+      return point;
+    }
+    return timeZone ? formatLocalDateTime(point, timeZone) : point.toISOString();
+  };
+  const zoneOf = (start: Date | DateOnly) =>
+    timeZone && start instanceof Date ? { time_zone: timeZone } : {};
+
+  if (typeof value === 'string' || value instanceof Date) {
+    return { start: encodePoint(value), ...zoneOf(value) };
+  }
+  return {
+    start: encodePoint(value.start),
+    end: value.end === null ? null : encodePoint(value.end),
+    ...zoneOf(value.start),
+  };
+}
+
+/**
+ * Join rich text segments into a plain string
+ */
+function decodeRichText(segments: readonly NotionRichText[]): string | null {
+  if (segments.length === 0) {
+    return null;
+  }
+  return segments.map(segment => segment.plain_text).join('');
+}
+
+/**
+ * Split a plain string into rich text request segments
+ * Long strings are chunked to respect the Notion segment length limit, between code points so
+ * surrogate pairs such as emoji are never split
+ */
+function encodeRichText(value: string | null): NotionRichTextRequest[] {
+  if (value === null || value.length === 0) {
+    return [];
+  }
+
+  const chunks: string[] = [''];
+  for (const character of value) {
+    if (chunks[chunks.length - 1]!.length + character.length > MAX_RICH_TEXT_LENGTH) {
+      chunks.push('');
+    }
+    chunks[chunks.length - 1] += character;
+  }
+  return chunks.map(content => ({ type: 'text', text: { content } }));
+}
+
+/**
+ * Convert a raw file into a NotionFile
+ * Only Notion-hosted files carry an expiry time
+ */
+function decodeFile(file: NotionRawFile): NotionFile {
+  if (file.type === 'external') {
+    return { name: file.name, url: file.external.url };
+  }
+  return { name: file.name, url: file.file.url, expiry_time: new Date(file.file.expiry_time) };
+}
+
+/**
+ * Convert a raw user reference into a NotionUser
+ * Partial user references are treated as people
+ */
+function decodeUser(user: NotionRawUser): NotionUser {
+  return {
+    id: user.id,
+    type: user.type ?? 'person',
+    ...(user.name !== undefined && { name: user.name }),
+    ...(user.avatar_url !== undefined && { avatar_url: user.avatar_url }),
+    ...(user.person !== undefined && { person: user.person }),
+    ...(user.bot !== undefined && { bot: user.bot }),
+  };
+}
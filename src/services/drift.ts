@@ -0,0 +1,211 @@
+/**
+ * Schema drift detection
+ *
+ * Compares a schema definition against the live database schema so renamed
+ * columns and edited options are caught before queries fail at runtime
+ */
+
+import type { PropertyType, SchemaDefinition } from '../types/core.js';
+import type { NotionDatabase, NotionSelectOption } from '../types/notion.js';
+import type { TypedSchema } from '../schema/typed-schema.js';
+import { findNotionProperty } from '../types/properties.js';
+import { sendRequest, type NotionClient } from '../clients/notion-client.js';
+import { formatIssuePath, isValidNumberFormat } from '../schema/rules.js';
+import { SchemaValidationError, type SchemaIssue } from '../errors/index.js';
+
+/**
+ * Property whose Notion type differs from its definition
+ */
+export interface PropertyTypeChange {
+  readonly property: string;
+  readonly expected: PropertyType;
+  readonly actual: string;
+}
+
+/**
+ * Selection options added in or removed from Notion for one property
+ */
+export interface PropertyOptionChange {
+  readonly property: string;
+  /** Options present in Notion but not declared in the schema */
+  readonly added: readonly string[];
+  /** Options declared in the schema but no longer present in Notion */
+  readonly removed: readonly string[];
+}
+
+/**
+ * Number property whose Notion format differs from its definition
+ */
+export interface PropertyFormatChange {
+  readonly property: string;
+  readonly expected: string;
+  readonly actual: string;
+}
+
+/**
+ * Structured diff between a schema definition and the live database
+ */
+export interface SchemaDrift {
+  readonly databaseId: string;
+  /** True when any of the change lists is non-empty */
+  readonly hasDrift: boolean;
+  /** Schema properties that no longer exist in Notion (deleted or renamed) */
+  readonly missingProperties: readonly string[];
+  readonly typeChanges: readonly PropertyTypeChange[];
+  readonly optionChanges: readonly PropertyOptionChange[];
+  readonly formatChanges: readonly PropertyFormatChange[];
+}
+
+/**
+ * Options for drift checks
+ */
+export interface DriftCheckOptions {
+  /** Throw instead of returning when drift is found */
+  readonly strict?: boolean;
+}
+
+/**
+ * Number format Notion reports for number properties without an explicit format
+ */
+const DEFAULT_NUMBER_FORMAT = 'number';
+
+/**
+ * Compare a schema against its live database
+ *
+ * @param client - Notion client instance
+ * @param schema - Typed schema describing the database
+ * @param options - Drift check options
+ * @returns Structured diff between the schema and the live database
+ * @throws {SchemaValidationError} In strict mode when drift is found, with one issue per
+ *   difference and the diff in `context.received`
+ * @throws {NotionAPIError} When Notion API calls fail
+ */
+export async function checkSchemaDrift<S extends SchemaDefinition>(
+  client: NotionClient,
+  schema: TypedSchema<S>,
+  options: DriftCheckOptions = {}
+): Promise<SchemaDrift> {
+  const database = await sendRequest<NotionDatabase>(client, {
+    path: `databases/${schema.databaseId}`,
+    method: 'get',
+  });
+  const drift = diffDatabaseSchema(schema.definition, database);
+
+  if (options.strict && drift.hasDrift) {
+    throw new SchemaValidationError(
+      'schema',
+      'definition matching the live database',
+      drift,
+      toDriftIssues(drift)
+    );
+  }
+
+  return drift;
+}
+
+/**
+ * Describe every difference of a drift as a schema issue, e.g. at `properties.Status.options`
+ */
+function toDriftIssues(drift: SchemaDrift): SchemaIssue[] {
+  const issue = (path: readonly string[], code: string, message: string): SchemaIssue => ({
+    path: formatIssuePath(['properties', ...path]),
+    code,
+    message,
+  });
+
+  return [
+    ...drift.missingProperties.map(property =>
+      issue([property], 'missing_property', `Property '${property}' not found in the database`)
+    ),
+    ...drift.typeChanges.map(({ property, expected, actual }) =>
+      issue(
+        [property, 'type'],
+        'type_changed',
+        `Property '${property}' is ${actual} in the database, expected ${expected}`
+      )
+    ),
+    ...drift.optionChanges.map(({ property, added, removed }) =>
+      issue(
+        [property, 'options'],
+        'options_changed',
+        `Property '${property}' options differ from the database: ${[
+          ...(added.length > 0 ? [`added [${added.join(', ')}]`] : []),
+          ...(removed.length > 0 ? [`removed [${removed.join(', ')}]`] : []),
+        ].join(', ')}`
+      )
+    ),
+    ...drift.formatChanges.map(({ property, expected, actual }) =>
+      issue(
+        [property, 'format'],
+        'format_changed',
+        `Property '${property}' has format ${actual} in the database, expected ${expected}`
+      )
+    ),
+  ];
+}
+
+/**
+ * Compute the drift between a schema definition and a retrieved database
+ * Properties are matched by pinned property ID, else by Notion-side name
+ *
+ * @param definition - Schema definition to check
+ * @param database - Database object returned by the Notion API
+ * @returns Structured diff between the definition and the database
+ */
+export function diffDatabaseSchema(
+  definition: SchemaDefinition,
+  database: NotionDatabase
+): SchemaDrift {
+  const missingProperties: string[] = [];
+  const typeChanges: PropertyTypeChange[] = [];
+  const optionChanges: PropertyOptionChange[] = [];
+  const formatChanges: PropertyFormatChange[] = [];
+
+  for (const [name, propertyDefinition] of Object.entries(definition.properties)) {
+    const live = findNotionProperty(database.properties, name, propertyDefinition);
+    if (!live) {
+      missingProperties.push(name);
+      continue;
+    }
+    if (live.type !== propertyDefinition.type) {
+      typeChanges.push({ property: name, expected: propertyDefinition.type, actual: live.type });
+      continue;
+    }
+
+    const configuration = (live[live.type] ?? {}) as Record<string, unknown>;
+
+    if ('options' in propertyDefinition) {
+      const liveOptions = ((configuration.options ?? []) as readonly NotionSelectOption[]).map(
+        option => option.name
+      );
+      const added = liveOptions.filter(option => !propertyDefinition.options.includes(option));
+      const removed = propertyDefinition.options.filter(option => !liveOptions.includes(option));
+      if (added.length > 0 || removed.length > 0) {
+        optionChanges.push({ property: name, added, removed });
+      }
+    }
+
+    if (propertyDefinition.type === 'number') {
+      const expected = propertyDefinition.format ?? DEFAULT_NUMBER_FORMAT;
+      const actual =
+        typeof configuration.format === 'string' ? configuration.format : DEFAULT_NUMBER_FORMAT;
+      // Formats newer than NumberFormat can't be declared, so they aren't reported as drift
+      if (expected !== actual && isValidNumberFormat(actual)) {
+        formatChanges.push({ property: name, expected, actual });
+      }
+    }
+  }
+
+  return {
+    databaseId: definition.databaseId,
+    hasDrift:
+      missingProperties.length > 0 ||
+      typeChanges.length > 0 ||
+      optionChanges.length > 0 ||
+      formatChanges.length > 0,
+    missingProperties,
+    typeChanges,
+    optionChanges,
+    formatChanges,
+  };
+}
@@ -0,0 +1,260 @@
+/**
+ * Query filter compilation
+ *
+ * Compiles the schema-aware filter DSL into Notion filter JSON,
+ * re-checking property names, operators and operands at runtime
+ */
+
+import type {
+  FormulaResultType,
+  PropertyDefinition,
+  PropertyType,
+  RollupResultType,
+  SchemaDefinition,
+} from '../types/core.js';
+import type { QueryFilter } from '../types/filter.js';
+import type { NotionFilter } from '../types/notion.js';
+import type { TypedSchema } from '../schema/typed-schema.js';
+import { getNotionPropertyReference } from '../types/properties.js';
+import { formatZonedDateTime, isDateOnly } from '../utils/dates.js';
+import {
+  PropertyAccessError,
+  PropertyValidationError,
+  SchemaValidationError,
+  SelectionValidationError,
+} from '../errors/index.js';
+
+/**
+ * Operand accepted by a filter operator
+ * - `flag` operators only accept `true` and compile to `true`
+ * - `relative` operators only accept `true` and compile to `{}`
+ */
+type OperandKind = 'string' | 'number' | 'boolean' | 'date' | 'option' | 'flag' | 'relative';
+
+type OperatorTable = Readonly<Record<string, OperandKind>>;
+
+const EMPTINESS_OPERATORS: OperatorTable = { is_empty: 'flag', is_not_empty: 'flag' };
+
+const TEXT_OPERATORS: OperatorTable = {
+  equals: 'string',
+  does_not_equal: 'string',
+  contains: 'string',
+  does_not_contain: 'string',
+  starts_with: 'string',
+  ends_with: 'string',
+  ...EMPTINESS_OPERATORS,
+};
+
+const NUMBER_OPERATORS: OperatorTable = {
+  equals: 'number',
+  does_not_equal: 'number',
+  greater_than: 'number',
+  less_than: 'number',
+  greater_than_or_equal_to: 'number',
+  less_than_or_equal_to: 'number',
+  ...EMPTINESS_OPERATORS,
+};
+
+const CHECKBOX_OPERATORS: OperatorTable = { equals: 'boolean', does_not_equal: 'boolean' };
+
+const DATE_OPERATORS: OperatorTable = {
+  equals: 'date',
+  before: 'date',
+  after: 'date',
+  on_or_before: 'date',
+  on_or_after: 'date',
+  past_week: 'relative',
+  past_month: 'relative',
+  past_year: 'relative',
+  this_week: 'relative',
+  next_week: 'relative',
+  next_month: 'relative',
+  next_year: 'relative',
+  ...EMPTINESS_OPERATORS,
+};
+
+const PEOPLE_OPERATORS: OperatorTable = {
+  contains: 'string',
+  does_not_contain: 'string',
+  ...EMPTINESS_OPERATORS,
+};
+
+/**
+ * Operators supported by each property type
+ * Formula and rollup operators depend on the declared result type
+ */
+const FILTER_OPERATORS: {
+  readonly [K in Exclude<PropertyType, 'formula' | 'rollup'>]: OperatorTable;
+} = {
+  title: TEXT_OPERATORS,
+  rich_text: TEXT_OPERATORS,
+  url: TEXT_OPERATORS,
+  email: TEXT_OPERATORS,
+  phone_number: TEXT_OPERATORS,
+  number: NUMBER_OPERATORS,
+  checkbox: CHECKBOX_OPERATORS,
+  date: DATE_OPERATORS,
+  select: { equals: 'option', does_not_equal: 'option', ...EMPTINESS_OPERATORS },
+  multi_select: { contains: 'option', does_not_contain: 'option', ...EMPTINESS_OPERATORS },
+  people: PEOPLE_OPERATORS,
+  relation: { contains: 'string', does_not_contain: 'string', ...EMPTINESS_OPERATORS },
+  status: { equals: 'option', does_not_equal: 'option', ...EMPTINESS_OPERATORS },
+  created_time: DATE_OPERATORS,
+  last_edited_time: DATE_OPERATORS,
+  created_by: PEOPLE_OPERATORS,
+  last_edited_by: PEOPLE_OPERATORS,
+  files: EMPTINESS_OPERATORS,
+  unique_id: {
+    equals: 'number',
+    does_not_equal: 'number',
+    greater_than: 'number',
+    less_than: 'number',
+    greater_than_or_equal_to: 'number',
+    less_than_or_equal_to: 'number',
+  },
+};
+
+/**
+ * Nested Notion filter key and operators for each formula/rollup result type
+ * Array rollups are not filterable
+ */
+const RESULT_FILTER_OPERATORS: {
+  readonly [R in FormulaResultType | RollupResultType]: readonly [string, OperatorTable];
+} = {
+  string: ['string', TEXT_OPERATORS],
+  number: ['number', NUMBER_OPERATORS],
+  boolean: ['checkbox', CHECKBOX_OPERATORS],
+  date: ['date', DATE_OPERATORS],
+  array: ['array', {}],
+};
+
+/**
+ * Compile a schema-aware filter into Notion filter JSON
+ *
+ * @param schema - Typed schema describing the database
+ * @param filter - Filter expressed in the schema-aware DSL
+ * @returns Notion API filter object
+ * @throws {PropertyAccessError} When filtering on a property not in the schema
+ * @throws {SchemaValidationError} When an operator is not supported by the property type
+ * @throws {PropertyValidationError} When an operand has the wrong type
+ * @throws {SelectionValidationError} When a selection operand is not a declared option
+ */
+export function compileFilter<S extends SchemaDefinition>(
+  schema: TypedSchema<S>,
+  filter: QueryFilter<S>
+): NotionFilter {
+  if ('and' in filter && Array.isArray(filter.and)) {
+    return { and: filter.and.map(group => compileFilter(schema, group)) };
+  }
+
+  if ('or' in filter && Array.isArray(filter.or)) {
+    return { or: filter.or.map(group => compileFilter(schema, group)) };
+  }
+
+  const conditions: NotionFilter[] = [];
+  for (const [name, condition] of Object.entries(filter as Record<string, unknown>)) {
+    if (condition === undefined) {
+      continue;
+    }
+    if (!schema.hasProperty(name)) {
+      throw new PropertyAccessError(name, schema.databaseId);
+    }
+    conditions.push(...compileCondition(name, schema.getProperty(name), condition));
+  }
+
+  return conditions.length === 1 ? conditions[0]! : { and: conditions };
+}
+
+/**
+ * Compile the operators of one property condition into Notion property filters
+ */
+function compileCondition(
+  name: string,
+  definition: PropertyDefinition,
+  condition: unknown
+): NotionFilter[] {
+  if (!condition || typeof condition !== 'object') {
+    throw new PropertyValidationError(name, condition, 'filter condition object');
+  }
+
+  const [resultKey, operators] =
+    definition.type === 'formula' || definition.type === 'rollup'
+      ? RESULT_FILTER_OPERATORS[definition.result]
+      : [undefined, FILTER_OPERATORS[definition.type]];
+
+  return Object.entries(condition).map(([operator, operand]) => {
+    const kind = operators[operator];
+    if (!kind) {
+      throw new SchemaValidationError(
+        `${name}.${operator}`,
+        `one of [${Object.keys(operators).join(', ')}]`,
+        operator
+      );
+    }
+
+    // Formula and rollup conditions are nested under their result type
+    const compiled = { [operator]: compileOperand(name, definition, kind, operand) };
+    return {
+      property: getNotionPropertyReference(name, definition),
+      [definition.type]: resultKey ? { [resultKey]: compiled } : compiled,
+    };
+  });
+}
+
+/**
+ * Check an operand against its expected kind and convert it to Notion JSON
+ */
+function compileOperand(
+  name: string,
+  definition: PropertyDefinition,
+  kind: OperandKind,
+  operand: unknown
+): unknown {
+  switch (kind) {
+    case 'string':
+      if (typeof operand !== 'string') {
+        throw new PropertyValidationError(name, operand, 'string');
+      }
+      return operand;
+
+    case 'number':
+      if (typeof operand !== 'number' || isNaN(operand)) {
+        throw new PropertyValidationError(name, operand, 'number');
+      }
+      return operand;
+
+    case 'boolean':
+      if (typeof operand !== 'boolean') {
+        throw new PropertyValidationError(name, operand, 'boolean');
+      }
+      return operand;
+
+    case 'date':
+      // Calendar dates are sent as written so they don't shift by a day across time zones
+      if (isDateOnly(operand)) {
+        return operand;
+      }
+      if (!(operand instanceof Date) || isNaN(operand.getTime())) {
+        throw new PropertyValidationError(name, operand, 'Date or date string (YYYY-MM-DD)');
+      }
+      return definition.type === 'date' && definition.timeZone
+        ? formatZonedDateTime(operand, definition.timeZone)
+        : operand.toISOString();
+
+    case 'option':
+      if (typeof operand !== 'string') {
+        throw new PropertyValidationError(name, operand, 'string');
+      }
+      if ('options' in definition && !definition.options.includes(operand)) {
+        throw new SelectionValidationError(name, operand, definition.options);
+      }
+      return operand;
+
+    case 'flag':
+    case 'relative':
+      if (operand !== true) {
+        throw new PropertyValidationError(name, operand, 'true');
+      }
+      return kind === 'flag' ? true : {};
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Service exports for Notion database operations
+ *
+ * Re-exports query, page write and codec functionality
+ */
+
+export { query, queryPage, buildQueryBody, toQueryResult, toQueryResults } from './query.js';
+
+export { queryAll, queryPages, collect } from './pagination.js';
+
+export type { CollectOptions } from './pagination.js';
+
+export { compileFilter } from './filter.js';
+
+export { compileSorts } from './sort.js';
+
+export { createPage, updatePage, archivePage } from './pages.js';
+
+export { expandRelation } from './relations.js';
+
+export { introspectSchema, toIntrospectionResult } from './introspection.js';
+
+export type { IntrospectionResult, UnsupportedProperty } from './introspection.js';
+
+export { checkSchemaDrift, diffDatabaseSchema } from './drift.js';
+
+export { diffSchemas, planMigration, applyMigration } from './migration.js';
+
+export { resolvePropertyIds, pinPropertyIds } from './property-ids.js';
+
+export type {
+  SchemaChange,
+  SchemaDiff,
+  DiffSchemasOptions,
+  MigrationStep,
+  ManualMigrationStep,
+  MigrationPlan,
+} from './migration.js';
+
+export type {
+  SchemaDrift,
+  PropertyTypeChange,
+  PropertyOptionChange,
+  PropertyFormatChange,
+  DriftCheckOptions,
+} from './drift.js';
+
+export type { ExpandableRelationNames, ExpandRelationOptions } from './relations.js';
+
+export {
+  decodePropertyValue,
+  encodePropertyValue,
+  decodePageProperties,
+  encodePageProperties,
+  getPropertyCodec,
+} from './codec.js';
+
+export type { PropertyCodec, PropertyDecoder } from './codec.js';
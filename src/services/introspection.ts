@@ -0,0 +1,289 @@
+/**
+ * Schema introspection of live databases
+ *
+ * Retrieves a database and maps its Notion property schema to a
+ * SchemaDefinition usable with createTypedSchema
+ */
+
+import type {
+  PropertyDefinition,
+  RollupResultType,
+  SchemaDefinition,
+  StatusGroup,
+  StatusGroups,
+} from '../types/core.js';
+import type {
+  NotionDatabase,
+  NotionDatabaseProperty,
+  NotionSelectOption,
+  NotionStatusGroup,
+} from '../types/notion.js';
+import { validatePropertyName } from '../schema/validator.js';
+import { isValidNumberFormat } from '../schema/rules.js';
+import { sendRequest, type NotionClient } from '../clients/notion-client.js';
+
+/**
+ * Database property that could not be mapped, or only partly, to a property definition
+ */
+export interface UnsupportedProperty {
+  readonly name: string;
+  readonly type: string;
+  readonly reason: string;
+}
+
+/**
+ * Schema definition generated from a live database
+ */
+export interface IntrospectionResult {
+  /** Plain text title of the database */
+  readonly title: string;
+  /** Definition of every representable property, usable with createTypedSchema */
+  readonly definition: SchemaDefinition;
+  /** Properties left out of the definition or kept without part of their configuration, and why */
+  readonly unsupported: readonly UnsupportedProperty[];
+}
+
+/**
+ * Outcome of mapping one database property
+ * A definition with a reason is kept without part of its configuration
+ */
+type PropertyMapping =
+  | { readonly definition: PropertyDefinition; readonly reason?: string }
+  | { readonly reason: string };
+
+/**
+ * Property types whose definitions carry no configuration
+ */
+const PLAIN_PROPERTY_TYPES = new Set<string>([
+  'title',
+  'rich_text',
+  'checkbox',
+  'date',
+  'url',
+  'email',
+  'people',
+  'files',
+  'phone_number',
+  'created_time',
+  'last_edited_time',
+  'created_by',
+  'last_edited_by',
+]);
+
+/**
+ * Rollup functions aggregating to dates or returning the original values
+ * Every other rollup function aggregates to a number
+ */
+const DATE_ROLLUP_FUNCTIONS = new Set<string>(['earliest_date', 'latest_date', 'date_range']);
+const ARRAY_ROLLUP_FUNCTIONS = new Set<string>(['show_original', 'show_unique']);
+
+/**
+ * Notion status groups every status property must declare
+ */
+const STATUS_GROUPS: readonly StatusGroup[] = ['To-do', 'In progress', 'Complete'];
+
+/**
+ * Generate a schema definition from a live database
+ *
+ * @param client - Notion client instance
+ * @param databaseId - ID of the database to introspect
+ * @returns Generated definition and the properties it could not represent
+ * @throws {NotionAPIError} When Notion API calls fail
+ */
+export async function introspectSchema(
+  client: NotionClient,
+  databaseId: string
+): Promise<IntrospectionResult> {
+  const database = await sendRequest<NotionDatabase>(client, {
+    path: `databases/${databaseId}`,
+    method: 'get',
+  });
+
+  return toIntrospectionResult(database);
+}
+
+/**
+ * Map a retrieved database object to a schema definition
+ * Properties whose Notion names aren't valid schema keys are aliased under a camelCase key
+ *
+ * @param database - Database object returned by the Notion API
+ * @returns Generated definition and the properties it could not represent
+ */
+export function toIntrospectionResult(database: NotionDatabase): IntrospectionResult {
+  const properties: Record<string, PropertyDefinition> = {};
+  const unsupported: UnsupportedProperty[] = [];
+  const keys = toPropertyKeys(Object.keys(database.properties));
+
+  for (const [name, property] of Object.entries(database.properties)) {
+    const mapping = toPropertyMapping(property);
+
+    if ('definition' in mapping) {
+      const key = keys.get(name) ?? name;
+      properties[key] = key === name ? mapping.definition : { ...mapping.definition, name };
+    }
+    if (mapping.reason !== undefined) {
+      unsupported.push({ name, type: property.type, reason: mapping.reason });
+    }
+  }
+
+  return {
+    title: (database.title ?? []).map(segment => segment.plain_text).join(''),
+    definition: { databaseId: database.id, properties },
+    unsupported,
+  };
+}
+
+/**
+ * Assign a schema key to every database property name
+ * Valid names are kept; other names get an alias key, suffixed when already taken
+ */
+function toPropertyKeys(names: readonly string[]): Map<string, string> {
+  const keys = new Map<string, string>();
+  const taken = new Set(names.filter(name => validatePropertyName(name).length === 0));
+
+  for (const name of names) {
+    if (taken.has(name)) {
+      keys.set(name, name);
+      continue;
+    }
+    const base = toAliasKey(name);
+    let key = base;
+    for (let suffix = 2; taken.has(key); suffix++) {
+      key = `${base}${suffix}`;
+    }
+    taken.add(key);
+    keys.set(name, key);
+  }
+
+  return keys;
+}
+
+/**
+ * Convert a Notion property name into a camelCase schema key
+ * Accents are stripped and other non-alphanumeric characters separate words
+ */
+function toAliasKey(name: string): string {
+  const words = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(word => word.length > 0);
+  const key = words
+    .map((word, index) =>
+      index === 0
+        ? `${word.charAt(0).toLowerCase()}${word.slice(1)}`
+        : `${word.charAt(0).toUpperCase()}${word.slice(1)}`
+    )
+    .join('');
+  return (/^[A-Za-z]/.test(key) ? key : `property${key}`).slice(0, 100);
+}
+
+/**
+ * Map a database property schema to a property definition
+ */
+function toPropertyMapping(property: NotionDatabaseProperty): PropertyMapping {
+  const configuration = (property[property.type] ?? {}) as Record<string, unknown>;
+
+  if (PLAIN_PROPERTY_TYPES.has(property.type)) {
+    return { definition: { type: property.type } as PropertyDefinition };
+  }
+
+  switch (property.type) {
+    case 'number': {
+      const format = configuration.format;
+      if (isValidNumberFormat(format)) {
+        return { definition: { type: 'number', format } };
+      }
+      return typeof format === 'string'
+        ? {
+            definition: { type: 'number' },
+            reason: `Number format '${format}' is not supported; typed as a plain number`,
+          }
+        : { definition: { type: 'number' } };
+    }
+
+    case 'select':
+    case 'multi_select': {
+      const options = getOptionNames(configuration);
+      if (options.length === 0) {
+        return { reason: 'Selection properties without options cannot be represented' };
+      }
+      return { definition: { type: property.type, options } };
+    }
+
+    case 'status':
+      return toStatusMapping(configuration);
+
+    case 'relation':
+      if (typeof configuration.database_id !== 'string') {
+        return { reason: 'Relation target database is not available' };
+      }
+      return { definition: { type: 'relation', target: configuration.database_id } };
+
+    case 'rollup':
+      return { definition: { type: 'rollup', result: getRollupResult(configuration.function) } };
+
+    case 'unique_id':
+      return {
+        definition:
+          typeof configuration.prefix === 'string' && configuration.prefix.length > 0
+            ? { type: 'unique_id', prefix: configuration.prefix }
+            : { type: 'unique_id' },
+      };
+
+    case 'formula':
+      return { reason: 'Formula result type cannot be determined from the database schema' };
+
+    default:
+      return { reason: `Notion property type '${property.type}' is not supported` };
+  }
+}
+
+/**
+ * Map a status configuration to a status definition with its groups
+ */
+function toStatusMapping(configuration: Record<string, unknown>): PropertyMapping {
+  const rawOptions = (configuration.options ?? []) as readonly NotionSelectOption[];
+  const options = getOptionNames(configuration);
+  if (options.length === 0) {
+    return { reason: 'Status properties without options cannot be represented' };
+  }
+
+  const rawGroups = (configuration.groups ?? []) as readonly NotionStatusGroup[];
+  const optionNames = new Map(rawOptions.map(option => [option.id, option.name]));
+
+  const groups = Object.fromEntries(STATUS_GROUPS.map(group => [group, [] as string[]])) as {
+    [G in StatusGroup]: string[];
+  };
+  for (const rawGroup of rawGroups) {
+    if (!STATUS_GROUPS.includes(rawGroup.name as StatusGroup)) {
+      return { reason: `Status group '${rawGroup.name}' is not a Notion status group` };
+    }
+    groups[rawGroup.name as StatusGroup].push(
+      ...rawGroup.option_ids.flatMap(id => optionNames.get(id) ?? [])
+    );
+  }
+
+  return { definition: { type: 'status', options, groups: groups as StatusGroups } };
+}
+
+/**
+ * Get the option names of a select, multi_select or status configuration
+ */
+function getOptionNames(configuration: Record<string, unknown>): string[] {
+  const options = (configuration.options ?? []) as readonly NotionSelectOption[];
+  return options.map(option => option.name);
+}
+
+/**
+ * Get the result type produced by a rollup aggregation function
+ */
+function getRollupResult(aggregation: unknown): RollupResultType {
+  if (typeof aggregation === 'string' && DATE_ROLLUP_FUNCTIONS.has(aggregation)) {
+    return 'date';
+  }
+  if (typeof aggregation === 'string' && ARRAY_ROLLUP_FUNCTIONS.has(aggregation)) {
+    return 'array';
+  }
+  return 'number';
+}
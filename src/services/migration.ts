@@ -0,0 +1,438 @@
+/**
+ * Schema diffs and migration plans
+ *
+ * Compares two versions of a schema definition and turns the differences
+ * into Notion database update requests that can be reviewed before applying
+ */
+
+import type { PropertyDefinition, SchemaDefinition } from '../types/core.js';
+import { getNotionPropertyName, getNotionPropertyReference } from '../types/properties.js';
+import { sendRequest, type NotionClient, type NotionRequest } from '../clients/notion-client.js';
+
+/**
+ * Typed record of one difference between two schema definitions
+ */
+export type SchemaChange =
+  | {
+      readonly kind: 'property_added';
+      readonly property: string;
+      readonly definition: PropertyDefinition;
+    }
+  | {
+      readonly kind: 'property_removed';
+      readonly property: string;
+      readonly definition: PropertyDefinition;
+    }
+  | {
+      readonly kind: 'property_renamed';
+      readonly property: string;
+      /** Notion-side name before the change */
+      readonly from: string;
+      /** Notion-side name after the change */
+      readonly to: string;
+      readonly definition: PropertyDefinition;
+    }
+  | {
+      readonly kind: 'type_changed';
+      readonly property: string;
+      readonly from: PropertyDefinition;
+      readonly to: PropertyDefinition;
+    }
+  | {
+      readonly kind: 'options_changed';
+      readonly property: string;
+      readonly added: readonly string[];
+      readonly removed: readonly string[];
+      readonly definition: PropertyDefinition;
+    }
+  | {
+      readonly kind: 'configuration_changed';
+      readonly property: string;
+      readonly from: PropertyDefinition;
+      readonly to: PropertyDefinition;
+    };
+
+/**
+ * Differences between two versions of a schema definition
+ */
+export interface SchemaDiff {
+  readonly databaseId: string;
+  readonly changes: readonly SchemaChange[];
+}
+
+/**
+ * Database update request implementing one schema change
+ */
+export interface MigrationStep {
+  readonly change: SchemaChange;
+  readonly request: NotionRequest;
+}
+
+/**
+ * Schema change that cannot be expressed as a database update request
+ */
+export interface ManualMigrationStep {
+  readonly change: SchemaChange;
+  readonly reason: string;
+}
+
+/**
+ * Reviewable plan of database update requests
+ */
+export interface MigrationPlan {
+  readonly databaseId: string;
+  /** Requests to send in order */
+  readonly steps: readonly MigrationStep[];
+  /** Changes that must be made in the Notion UI */
+  readonly manual: readonly ManualMigrationStep[];
+}
+
+/**
+ * Options for schema diffs
+ */
+export interface DiffSchemasOptions {
+  /** Notion columns renamed between the two versions, as old name to new name */
+  readonly renames?: Readonly<Record<string, string>>;
+}
+
+/**
+ * Compare two versions of a schema definition
+ * Properties are matched by Notion identity: pinned property ID first, then a declared rename,
+ * then Notion-side name, so renaming a schema key alone is not a change
+ * Renames are only reported for matched properties; an unmatched old and new property are a
+ * removal and an addition, even with identical definitions
+ *
+ * @param oldDefinition - Current schema definition
+ * @param newDefinition - Desired schema definition
+ * @param options - Renamed Notion columns without a pinned property ID
+ * @returns Typed change records in property order
+ */
+export function diffSchemas(
+  oldDefinition: SchemaDefinition,
+  newDefinition: SchemaDefinition,
+  options: DiffSchemasOptions = {}
+): SchemaDiff {
+  const changes: SchemaChange[] = [];
+  const matches = matchProperties(
+    oldDefinition.properties,
+    newDefinition.properties,
+    options.renames ?? {}
+  );
+
+  for (const [name, from] of Object.entries(oldDefinition.properties)) {
+    const match = matches.get(name);
+    if (match) {
+      changes.push(...diffMatchedProperties(name, from, ...match));
+    } else {
+      changes.push({ kind: 'property_removed', property: name, definition: from });
+    }
+  }
+
+  const matched = new Set([...matches.values()].map(([name]) => name));
+  const added = Object.entries(newDefinition.properties).filter(([name]) => !matched.has(name));
+
+  for (const [name, definition] of added) {
+    changes.push({ kind: 'property_added', property: name, definition });
+  }
+
+  return { databaseId: newDefinition.databaseId, changes };
+}
+
+/**
+ * Turn a schema diff into database update requests
+ *
+ * @param diff - Schema diff produced by diffSchemas
+ * @returns Update requests plus the changes that must be made by hand
+ */
+export function planMigration(diff: SchemaDiff): MigrationPlan {
+  const steps: MigrationStep[] = [];
+  const manual: ManualMigrationStep[] = [];
+
+  for (const change of diff.changes) {
+    const properties = toPropertyUpdates(change);
+    if (typeof properties === 'string') {
+      manual.push({ change, reason: properties });
+    } else {
+      steps.push({
+        change,
+        request: { path: `databases/${diff.databaseId}`, method: 'patch', body: { properties } },
+      });
+    }
+  }
+
+  return { databaseId: diff.databaseId, steps, manual };
+}
+
+/**
+ * Send the requests of a migration plan in order
+ * Manual steps are not applied
+ *
+ * @param client - Notion client instance
+ * @param plan - Migration plan produced by planMigration
+ * @throws {NotionAPIError} When Notion API calls fail; earlier steps stay applied
+ */
+export async function applyMigration(client: NotionClient, plan: MigrationPlan): Promise<void> {
+  for (const step of plan.steps) {
+    await sendRequest(client, step.request);
+  }
+}
+
+/**
+ * Identity of a schema property used to pair old and new properties
+ */
+type PropertyIdentity = (key: string, definition: PropertyDefinition) => string | undefined;
+
+/**
+ * Pair each old property with the new property describing the same Notion column
+ * Pinned property IDs are matched first, then declared renames, then Notion-side names;
+ * properties pinned to different IDs never match
+ *
+ * @returns New schema key and definition by old schema key
+ */
+function matchProperties(
+  oldProperties: Readonly<Record<string, PropertyDefinition>>,
+  newProperties: Readonly<Record<string, PropertyDefinition>>,
+  renames: Readonly<Record<string, string>>
+): Map<string, [string, PropertyDefinition]> {
+  const matches = new Map<string, [string, PropertyDefinition]>();
+  const unmatched = new Map(Object.entries(newProperties));
+  const pinnedId: PropertyIdentity = (_key, definition) => definition.id;
+  const renamed: PropertyIdentity = (key, definition) => {
+    const name = getNotionPropertyName(key, definition);
+    return Object.hasOwn(renames, name) ? renames[name] : undefined;
+  };
+  const identities: [PropertyIdentity, PropertyIdentity][] = [
+    [pinnedId, pinnedId],
+    [renamed, getNotionPropertyName],
+    [getNotionPropertyName, getNotionPropertyName],
+  ];
+
+  for (const [identifyOld, identifyNew] of identities) {
+    for (const [oldKey, from] of Object.entries(oldProperties)) {
+      const identity = identifyOld(oldKey, from);
+      if (matches.has(oldKey) || identity === undefined) {
+        continue;
+      }
+      for (const [newKey, to] of unmatched) {
+        if (identifyNew(newKey, to) === identity && isSameColumn(from, to)) {
+          matches.set(oldKey, [newKey, to]);
+          unmatched.delete(newKey);
+          break;
+        }
+      }
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Check that two definitions are not pinned to different property IDs
+ */
+function isSameColumn(a: PropertyDefinition, b: PropertyDefinition): boolean {
+  return a.id === undefined || b.id === undefined || a.id === b.id;
+}
+
+/**
+ * Compare an old property with the new property describing the same Notion column
+ * Changes are keyed by the new schema key; a new Notion-side name is reported as a rename
+ */
+function diffMatchedProperties(
+  oldKey: string,
+  from: PropertyDefinition,
+  newKey: string,
+  to: PropertyDefinition
+): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const oldName = getNotionPropertyName(oldKey, from);
+  const newName = getNotionPropertyName(newKey, to);
+
+  if (oldName !== newName) {
+    changes.push({
+      kind: 'property_renamed',
+      property: newKey,
+      from: oldName,
+      to: newName,
+      definition: to,
+    });
+  }
+
+  if (from.type !== to.type) {
+    changes.push({ kind: 'type_changed', property: newKey, from, to });
+  } else {
+    changes.push(...diffPropertyDefinitions(newKey, from, to));
+  }
+
+  return changes;
+}
+
+/**
+ * Compare two definitions of the same property type
+ */
+function diffPropertyDefinitions(
+  name: string,
+  from: PropertyDefinition,
+  to: PropertyDefinition
+): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+
+  if ('options' in from && 'options' in to) {
+    const added = to.options.filter(option => !from.options.includes(option));
+    const removed = from.options.filter(option => !to.options.includes(option));
+    if (added.length > 0 || removed.length > 0) {
+      changes.push({ kind: 'options_changed', property: name, added, removed, definition: to });
+    }
+  }
+
+  if (!isSameDefinition(getConfiguration(from), getConfiguration(to))) {
+    changes.push({ kind: 'configuration_changed', property: name, from, to });
+  }
+
+  return changes;
+}
+
+/**
+ * Get the configuration of a definition other than its Notion-side name and selection options
+ */
+function getConfiguration(definition: PropertyDefinition): object {
+  const {
+    name: _name,
+    options: _options,
+    ...configuration
+  } = definition as PropertyDefinition & { options?: unknown };
+  return configuration;
+}
+
+/**
+ * Build the `properties` update for one change, or the reason it must be made by hand
+ * Existing properties are keyed by pinned property ID, else by Notion-side name; renames are
+ * planned before the other changes of a property, so those use the new name
+ */
+function toPropertyUpdates(change: SchemaChange): Record<string, unknown> | string {
+  switch (change.kind) {
+    case 'property_removed':
+      return { [getNotionPropertyReference(change.property, change.definition)]: null };
+
+    case 'property_renamed':
+      return { [change.definition.id ?? change.from]: { name: change.to } };
+
+    case 'property_added': {
+      const schema = toPropertySchema(change.definition);
+      return typeof schema === 'string'
+        ? schema
+        : { [getNotionPropertyName(change.property, change.definition)]: schema };
+    }
+
+    case 'options_changed': {
+      const schema = toPropertySchema(change.definition);
+      return typeof schema === 'string'
+        ? schema
+        : { [getNotionPropertyReference(change.property, change.definition)]: schema };
+    }
+
+    case 'type_changed':
+    case 'configuration_changed': {
+      const schema = toPropertySchema(change.to);
+      return typeof schema === 'string'
+        ? schema
+        : { [getNotionPropertyReference(change.property, change.to)]: schema };
+    }
+  }
+}
+
+/**
+ * Build the Notion property schema for a definition, or the reason it can't be written
+ */
+function toPropertySchema(definition: PropertyDefinition): Record<string, unknown> | string {
+  switch (definition.type) {
+    case 'number':
+      return { number: { format: definition.format ?? 'number' } };
+
+    case 'select':
+    case 'multi_select':
+      return { [definition.type]: { options: definition.options.map(name => ({ name })) } };
+
+    case 'relation':
+      return {
+        relation: {
+          database_id:
+            typeof definition.target === 'string'
+              ? definition.target
+              : definition.target.databaseId,
+          single_property: {},
+        },
+      };
+
+    case 'unique_id':
+      return { unique_id: { prefix: definition.prefix ?? null } };
+
+    case 'status':
+      return 'Status properties cannot be created or updated through the Notion API';
+
+    case 'formula':
+      return 'Formula expressions are not part of the schema definition';
+
+    case 'rollup':
+      return 'Rollup relations and functions are not part of the schema definition';
+
+    default:
+      return { [definition.type]: {} };
+  }
+}
+
+/**
+ * Check whether two definitions describe the same property configuration
+ * Relation targets are compared by database ID; client-side options are ignored
+ */
+function isSameDefinition(a: object, b: object): boolean {
+  return stableStringify(withoutClientOptions(a)) === stableStringify(withoutClientOptions(b));
+}
+
+/**
+ * Definition options that never reach Notion: the pinned property ID, which identifies a
+ * property rather than configuring it, validation rules such as `required` or `maxLength`, and
+ * the shape of date values, which Notion stores per value
+ */
+const CLIENT_OPTIONS: ReadonlySet<string> = new Set([
+  'id',
+  'required',
+  'min',
+  'max',
+  'integer',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'domains',
+  'minItems',
+  'maxItems',
+  'refine',
+  'range',
+  'includeTime',
+  'timeZone',
+]);
+
+/**
+ * Drop the options that never reach Notion
+ */
+function withoutClientOptions(definition: object): object {
+  return Object.fromEntries(Object.entries(definition).filter(([key]) => !CLIENT_OPTIONS.has(key)));
+}
+
+/**
+ * Serialize a definition with sorted keys, reducing relation targets to their database ID
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    if ('databaseId' in value && 'definition' in value) {
+      return JSON.stringify(value.databaseId);
+    }
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
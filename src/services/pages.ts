@@ -0,0 +1,162 @@
+/**
+ * Typed page write operations
+ *
+ * Creates, updates and archives database pages using the schema definition
+ * Every value is validated before any request is sent
+ */
+
+import type { SchemaDefinition } from '../types/core.js';
+import type { InferWritableProperties } from '../types/inference.js';
+import type { QueryResult } from '../types/query.js';
+import type { NotionPage } from '../types/notion.js';
+import type { TypedSchema } from '../schema/typed-schema.js';
+import { validatePropertyValue } from '../schema/validator.js';
+import { checkRecordRefinements, toSchemaIssue } from '../schema/rules.js';
+import { PropertyAccessError, RecordValidationError } from '../errors/index.js';
+import { isReadOnlyProperty } from '../types/properties.js';
+import { sendRequest, type NotionClient } from '../clients/notion-client.js';
+import { encodePageProperties } from './codec.js';
+import { toQueryResult } from './query.js';
+
+/**
+ * Create a page in the schema database
+ *
+ * @param client - Notion client instance
+ * @param schema - Typed schema describing the database
+ * @param values - Property values for the new page; required writable properties must be given
+ * @returns The created page as a typed query result
+ * @throws {PropertyAccessError} When a value is given for a property not in the schema
+ * @throws {PropertyValidationError} When a value doesn't match its property type or a required value is missing
+ * @throws {SelectionValidationError} When a selection value is not a declared option
+ * @throws {RecordValidationError} When the values fail a cross-field refinement of the schema
+ * @throws {SchemaValidationError} When a value is given for a read-only property
+ * @throws {NotionAPIError} When Notion API calls fail
+ */
+export async function createPage<S extends SchemaDefinition>(
+  client: NotionClient,
+  schema: TypedSchema<S>,
+  values: Partial<InferWritableProperties<S>>
+): Promise<QueryResult<S>> {
+  validatePageValues(schema, values);
+  validateRequiredValues(schema, values);
+  validateRecordRefinements(schema, values);
+
+  const page = await sendRequest<NotionPage>(client, {
+    path: 'pages',
+    method: 'post',
+    body: {
+      parent: { database_id: schema.databaseId },
+      properties: encodePageProperties(schema.definition, values),
+    },
+  });
+
+  return toQueryResult(schema.definition, page);
+}
+
+/**
+ * Update properties of an existing page
+ * Only the given properties are changed; null clears a property
+ *
+ * @param client - Notion client instance
+ * @param schema - Typed schema describing the database
+ * @param pageId - ID of the page to update
+ * @param values - Property values to change
+ * @returns The updated page as a typed query result
+ * @throws {PropertyAccessError} When a value is given for a property not in the schema
+ * @throws {PropertyValidationError} When a value doesn't match its property type or clears a required property
+ * @throws {SelectionValidationError} When a selection value is not a declared option
+ * @throws {SchemaValidationError} When a value is given for a read-only property
+ * @throws {NotionAPIError} When Notion API calls fail
+ */
+export async function updatePage<S extends SchemaDefinition>(
+  client: NotionClient,
+  schema: TypedSchema<S>,
+  pageId: string,
+  values: Partial<InferWritableProperties<S>>
+): Promise<QueryResult<S>> {
+  validatePageValues(schema, values);
+
+  const page = await sendRequest<NotionPage>(client, {
+    path: `pages/${pageId}`,
+    method: 'patch',
+    body: { properties: encodePageProperties(schema.definition, values) },
+  });
+
+  return toQueryResult(schema.definition, page);
+}
+
+/**
+ * Archive (move to trash) an existing page
+ *
+ * @param client - Notion client instance
+ * @param schema - Typed schema describing the database
+ * @param pageId - ID of the page to archive
+ * @returns The archived page as a typed query result
+ * @throws {NotionAPIError} When Notion API calls fail
+ */
+export async function archivePage<S extends SchemaDefinition>(
+  client: NotionClient,
+  schema: TypedSchema<S>,
+  pageId: string
+): Promise<QueryResult<S>> {
+  const page = await sendRequest<NotionPage>(client, {
+    path: `pages/${pageId}`,
+    method: 'patch',
+    body: { archived: true },
+  });
+
+  return toQueryResult(schema.definition, page);
+}
+
+/**
+ * Validate every given value against its property definition
+ */
+function validatePageValues<S extends SchemaDefinition>(
+  schema: TypedSchema<S>,
+  values: Partial<InferWritableProperties<S>>
+): void {
+  for (const [name, value] of Object.entries(values)) {
+    if (!schema.hasProperty(name)) {
+      throw new PropertyAccessError(name, schema.databaseId);
+    }
+    if (value !== undefined) {
+      validatePropertyValue(value, schema.getProperty(name), name);
+    }
+  }
+}
+
+/**
+ * Validate every required writable property is given a value
+ */
+function validateRequiredValues<S extends SchemaDefinition>(
+  schema: TypedSchema<S>,
+  values: Partial<InferWritableProperties<S>>
+): void {
+  for (const [name, definition] of Object.entries(schema.properties)) {
+    if (definition.required && !isReadOnlyProperty(definition)) {
+      validatePropertyValue((values as Record<string, unknown>)[name], definition, name);
+    }
+  }
+}
+
+/**
+ * Validate the values of a new page against the schema's cross-field refinements
+ * Properties without a value, including read-only ones, are passed as null
+ */
+function validateRecordRefinements<S extends SchemaDefinition>(
+  schema: TypedSchema<S>,
+  values: Partial<InferWritableProperties<S>>
+): void {
+  const { refinements } = schema.definition;
+  if (!refinements) {
+    return;
+  }
+
+  const record = Object.fromEntries(
+    schema.propertyNames.map(name => [name, (values as Record<string, unknown>)[name] ?? null])
+  );
+  const issues = checkRecordRefinements(record, refinements);
+  if (issues.length > 0) {
+    throw new RecordValidationError(schema.databaseId, issues.map(toSchemaIssue));
+  }
+}
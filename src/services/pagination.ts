@@ -0,0 +1,106 @@
+/**
+ * Automatic pagination over query results
+ *
+ * Follows Notion `next_cursor` values so large databases can be streamed
+ * without hand-written cursor loops
+ */
+
+import type { SchemaDefinition } from '../types/core.js';
+import type {
+  QueryOptions,
+  QueryPage,
+  QueryResult,
+  RequiredPropertyPolicy,
+} from '../types/query.js';
+import type { TypedSchema } from '../schema/typed-schema.js';
+import type { NotionClient } from '../clients/notion-client.js';
+import { queryPage } from './query.js';
+
+/**
+ * Options for collecting an async iterable into an array
+ */
+export interface CollectOptions {
+  /** Maximum number of items to collect; iteration stops once reached */
+  readonly limit?: number;
+}
+
+/**
+ * Iterate over every page of query results
+ * Starts from `options.start_cursor` when given
+ *
+ * @param client - Notion client instance
+ * @param schema - Typed schema describing the database
+ * @param options - Query options applied to every page request
+ * @returns Async iterable of result pages
+ * @throws {NotionAPIError} When Notion API calls fail
+ */
+export async function* queryPages<
+  S extends SchemaDefinition,
+  P extends RequiredPropertyPolicy = 'throw',
+>(
+  client: NotionClient,
+  schema: TypedSchema<S>,
+  options: QueryOptions<S, P> = {}
+): AsyncGenerator<QueryPage<S, P>, void, undefined> {
+  let cursor = options.start_cursor;
+
+  do {
+    const page = await queryPage(client, schema, {
+      ...options,
+      ...(cursor !== undefined && { start_cursor: cursor }),
+    });
+    yield page;
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor !== undefined);
+}
+
+/**
+ * Iterate over every query result across all pages
+ *
+ * @param client - Notion client instance
+ * @param schema - Typed schema describing the database
+ * @param options - Query options applied to every page request
+ * @returns Async iterable of decoded results
+ * @throws {NotionAPIError} When Notion API calls fail
+ */
+export async function* queryAll<
+  S extends SchemaDefinition,
+  P extends RequiredPropertyPolicy = 'throw',
+>(
+  client: NotionClient,
+  schema: TypedSchema<S>,
+  options: QueryOptions<S, P> = {}
+): AsyncGenerator<QueryResult<S, P>, void, undefined> {
+  for await (const page of queryPages(client, schema, options)) {
+    yield* page.results;
+  }
+}
+
+/**
+ * Collect an async iterable into an array
+ * Stops requesting further pages once the limit is reached
+ *
+ * @param iterable - Async iterable to drain
+ * @param options - Collection options
+ * @returns Collected items
+ */
+export async function collect<T>(
+  iterable: AsyncIterable<T>,
+  options: CollectOptions = {}
+): Promise<T[]> {
+  const { limit = Infinity } = options;
+  const items: T[] = [];
+
+  if (limit <= 0) {
+    return items;
+  }
+
+  for await (const item of iterable) {
+    items.push(item);
+    if (items.length >= limit) {
+      break;
+    }
+  }
+
+  return items;
+}
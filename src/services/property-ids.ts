@@ -0,0 +1,64 @@
+/**
+ * Stable property ID resolution
+ *
+ * Pins the Notion property ID of every schema property from the live
+ * database so filters, sorts and writes keep working after column renames
+ */
+
+import type { PropertyDefinition, SchemaDefinition } from '../types/core.js';
+import type { NotionDatabase } from '../types/notion.js';
+import type { TypedSchema } from '../schema/typed-schema.js';
+import { findNotionProperty, getNotionPropertyName } from '../types/properties.js';
+import { sendRequest, type NotionClient } from '../clients/notion-client.js';
+import { SchemaValidationError } from '../errors/index.js';
+
+/**
+ * Resolve the property IDs of a schema from its live database
+ *
+ * @param client - Notion client instance
+ * @param schema - Typed schema describing the database
+ * @returns Schema definition with the `id` of every property pinned
+ * @throws {SchemaValidationError} When a schema property has no matching database property
+ * @throws {NotionAPIError} When Notion API calls fail
+ */
+export async function resolvePropertyIds<S extends SchemaDefinition>(
+  client: NotionClient,
+  schema: TypedSchema<S>
+): Promise<S> {
+  const database = await sendRequest<NotionDatabase>(client, {
+    path: `databases/${schema.databaseId}`,
+    method: 'get',
+  });
+
+  return pinPropertyIds(schema.definition, database);
+}
+
+/**
+ * Pin the property IDs of a schema definition from a retrieved database
+ * Properties are matched by their already pinned ID, else by Notion-side name
+ *
+ * @param definition - Schema definition to resolve
+ * @param database - Database object returned by the Notion API
+ * @returns Schema definition with the `id` of every property pinned
+ * @throws {SchemaValidationError} When a schema property has no matching database property
+ */
+export function pinPropertyIds<S extends SchemaDefinition>(
+  definition: S,
+  database: NotionDatabase
+): S {
+  const properties: Record<string, PropertyDefinition> = {};
+
+  for (const [name, propertyDefinition] of Object.entries(definition.properties)) {
+    const live = findNotionProperty(database.properties, name, propertyDefinition);
+    if (!live) {
+      throw new SchemaValidationError(
+        name,
+        'property in the live database',
+        propertyDefinition.id ?? getNotionPropertyName(name, propertyDefinition)
+      );
+    }
+    properties[name] = { ...propertyDefinition, id: live.id };
+  }
+
+  return { ...definition, properties };
+}
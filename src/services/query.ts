@@ -0,0 +1,174 @@
+/**
+ * Typed database queries
+ *
+ * Based on the query contract in contracts/schema-api.ts
+ * Issues database queries and decodes results using the schema definition
+ */
+
+import type { SchemaDefinition } from '../types/core.js';
+import type {
+  QueryOptions,
+  QueryPage,
+  QueryResult,
+  RequiredPropertyPolicy,
+} from '../types/query.js';
+import type { NotionPage, NotionQueryResponse } from '../types/notion.js';
+import type { TypedSchema } from '../schema/typed-schema.js';
+import { sendRequest, type NotionClient } from '../clients/notion-client.js';
+import { checkRequiredValues, toSchemaIssue } from '../schema/rules.js';
+import { RecordValidationError } from '../errors/index.js';
+import { findNotionProperty } from '../types/properties.js';
+import { decodePageProperties } from './codec.js';
+import { compileFilter } from './filter.js';
+import { compileSorts } from './sort.js';
+import { measurePerformanceAsync } from '../utils/performance.js';
+
+/**
+ * Query a database with schema-driven result decoding
+ * Returns a single page of results; use queryAll to follow cursors
+ *
+ * @param client - Notion client instance
+ * @param schema - Typed schema describing the database
+ * @param options - Query options; filters and sorts are checked against the schema
+ * @returns Decoded query results
+ * @throws {NotionAPIError} When Notion API calls fail
+ * @throws {PropertyAccessError} When filtering or sorting on a property not in the schema
+ * @throws {SchemaValidationError} When a filter is invalid or a page doesn't match the schema
+ * @throws {RecordValidationError} When a required property is empty under the `throw` policy
+ */
+export async function query<S extends SchemaDefinition, P extends RequiredPropertyPolicy = 'throw'>(
+  client: NotionClient,
+  schema: TypedSchema<S>,
+  options: QueryOptions<S, P> = {}
+): Promise<QueryResult<S, P>[]> {
+  const page = await queryPage(client, schema, options);
+  return page.results;
+}
+
+/**
+ * Query a single page of results together with its pagination cursor
+ *
+ * @param client - Notion client instance
+ * @param schema - Typed schema describing the database
+ * @param options - Query options; filters and sorts are checked against the schema
+ * @returns Decoded results and the cursor of the next page
+ * @throws {NotionAPIError} When Notion API calls fail
+ * @throws {PropertyAccessError} When filtering or sorting on a property not in the schema
+ * @throws {SchemaValidationError} When a filter is invalid or a page doesn't match the schema
+ * @throws {RecordValidationError} When a required property is empty under the `throw` policy
+ */
+export async function queryPage<
+  S extends SchemaDefinition,
+  P extends RequiredPropertyPolicy = 'throw',
+>(
+  client: NotionClient,
+  schema: TypedSchema<S>,
+  options: QueryOptions<S, P> = {}
+): Promise<QueryPage<S, P>> {
+  const body = buildQueryBody(schema, options);
+  const startTime = performance.now();
+
+  const response = await measurePerformanceAsync('query_execution', () =>
+    sendRequest<NotionQueryResponse>(client, {
+      path: `databases/${schema.databaseId}/query`,
+      method: 'post',
+      body,
+    })
+  );
+
+  schema._updateQueryDuration(performance.now() - startTime);
+
+  return {
+    results: toQueryResults(schema.definition, response.results, options.onMissingRequired),
+    nextCursor: response.has_more ? response.next_cursor : null,
+    hasMore: response.has_more,
+  };
+}
+
+/**
+ * Build the database query request body from typed query options
+ *
+ * @param schema - Typed schema describing the database
+ * @param options - Typed query options
+ * @returns Notion API query request body
+ */
+export function buildQueryBody<S extends SchemaDefinition>(
+  schema: TypedSchema<S>,
+  options: QueryOptions<S, RequiredPropertyPolicy>
+): Record<string, unknown> {
+  const { filter, sorts, onMissingRequired: _onMissingRequired, ...rest } = options;
+  return {
+    ...rest,
+    ...(filter && { filter: compileFilter(schema, filter) }),
+    ...(sorts && { sorts: compileSorts(schema, sorts) }),
+  };
+}
+
+/**
+ * Convert raw Notion pages into typed query results
+ * Pages with an empty required property are handled according to the policy; only
+ * required properties are checked, other values are trusted as decoded
+ *
+ * @param definition - Schema definition describing the page properties
+ * @param pages - Raw pages returned by the Notion API
+ * @param policy - Handling of pages with an empty required property (defaults to `throw`)
+ * @returns Typed query results
+ * @throws {RecordValidationError} When a required property is empty under the `throw` policy
+ */
+export function toQueryResults<
+  S extends SchemaDefinition,
+  P extends RequiredPropertyPolicy = 'throw',
+>(definition: S, pages: readonly NotionPage[], policy?: P): QueryResult<S, P>[] {
+  return pages.flatMap(page => {
+    const result = toQueryResult(definition, page) as QueryResult<S, P>;
+    const issues = checkRequiredValues(result.props, definition.properties).map(toSchemaIssue);
+
+    if (issues.length === 0) {
+      return [result];
+    }
+    switch (policy ?? 'throw') {
+      case 'throw':
+        throw new RecordValidationError(definition.databaseId, issues, page.id);
+      case 'skip':
+        return [];
+      case 'report':
+        return [{ ...result, issues }];
+    }
+  });
+}
+
+/**
+ * Convert a raw Notion page into a typed query result
+ *
+ * @param definition - Schema definition describing the page properties
+ * @param page - Raw page returned by the Notion API
+ * @returns Typed query result
+ */
+export function toQueryResult<S extends SchemaDefinition>(
+  definition: S,
+  page: NotionPage
+): QueryResult<S> {
+  const truncated = getTruncatedRelations(definition, page);
+  return {
+    id: page.id,
+    props: decodePageProperties(definition, page),
+    createdTime: new Date(page.created_time),
+    lastEditedTime: new Date(page.last_edited_time),
+    ...(truncated.length > 0 && { truncated }),
+  };
+}
+
+/**
+ * List the relation properties of a raw page whose references Notion truncated
+ */
+function getTruncatedRelations<S extends SchemaDefinition>(
+  definition: S,
+  page: NotionPage
+): (keyof S['properties'] & string)[] {
+  return Object.entries(definition.properties)
+    .filter(([name, property]) => {
+      const raw = findNotionProperty(page.properties, name, property);
+      return raw?.type === 'relation' && raw.has_more === true;
+    })
+    .map(([name]) => name);
+}
@@ -0,0 +1,139 @@
+/**
+ * Relation expansion across schemas
+ *
+ * Resolves relation page references into typed query results
+ * using the schema referenced by the relation definition
+ */
+
+import type {
+  PropertyDefinition,
+  RelationReference,
+  RelationTarget,
+  SchemaDefinition,
+} from '../types/core.js';
+import type { InferRelationTarget } from '../types/inference.js';
+import type { QueryResult, RequiredPropertyPolicy } from '../types/query.js';
+import type { NotionPage, NotionRelationItemList } from '../types/notion.js';
+import type { TypedSchema } from '../schema/typed-schema.js';
+import { sendRequest, type NotionClient } from '../clients/notion-client.js';
+import { SchemaValidationError } from '../errors/index.js';
+import { findNotionProperty, getNotionPropertyReference } from '../types/properties.js';
+import { toQueryResults } from './query.js';
+
+/**
+ * Most related pages requested at the same time
+ * This caps the requests in flight, not the request rate: batches are sent back to back
+ */
+const MAX_CONCURRENT_REQUESTS = 3;
+
+/**
+ * Names of relation properties whose target is a schema (not a bare database ID)
+ */
+export type ExpandableRelationNames<S extends SchemaDefinition> = {
+  [K in keyof S['properties']]: S['properties'][K] extends {
+    type: 'relation';
+    target: RelationTarget;
+  }
+    ? K
+    : never;
+}[keyof S['properties']] &
+  string;
+
+/**
+ * Options for relation expansion
+ */
+export interface ExpandRelationOptions<P extends RequiredPropertyPolicy = 'throw'> {
+  /** Handling of related pages with an empty required property (defaults to `throw`) */
+  readonly onMissingRequired?: P;
+}
+
+/**
+ * Expand a relation property of a query result into the related pages
+ * Truncated relations are first read in full from the page property endpoint, then related
+ * pages are retrieved a few at a time and decoded with the target schema, checking required
+ * properties like query results
+ *
+ * @param client - Notion client instance
+ * @param schema - Typed schema describing the source database
+ * @param result - Query result holding the relation references
+ * @param propertyName - Relation property to expand
+ * @param options - Handling of related pages with an empty required property
+ * @returns Related pages as typed query results of the target schema
+ * @throws {SchemaValidationError} When the property is not a relation with a target schema
+ * @throws {RecordValidationError} When a related page has an empty required property under the
+ * `throw` policy
+ * @throws {NotionAPIError} When Notion API calls fail
+ */
+export async function expandRelation<
+  S extends SchemaDefinition,
+  K extends ExpandableRelationNames<S>,
+  P extends RequiredPropertyPolicy = 'throw',
+>(
+  client: NotionClient,
+  schema: TypedSchema<S>,
+  result: QueryResult<S, RequiredPropertyPolicy>,
+  propertyName: K,
+  options: ExpandRelationOptions<P> = {}
+): Promise<QueryResult<InferRelationTarget<S['properties'][K]>, P>[]> {
+  const definition = schema.getProperty(propertyName);
+
+  if (definition.type !== 'relation') {
+    throw new SchemaValidationError(propertyName, 'relation property', definition.type);
+  }
+  if (typeof definition.target === 'string') {
+    throw new SchemaValidationError(propertyName, 'relation target schema', definition.target);
+  }
+
+  const targetDefinition = definition.target.definition as InferRelationTarget<S['properties'][K]>;
+  const references = result.truncated?.includes(propertyName)
+    ? await fetchRelationReferences(client, result.id, propertyName, definition)
+    : ((result.props[propertyName] ?? []) as RelationReference[]);
+  const related: QueryResult<InferRelationTarget<S['properties'][K]>, P>[] = [];
+
+  for (let start = 0; start < references.length; start += MAX_CONCURRENT_REQUESTS) {
+    const pages = await Promise.all(
+      references
+        .slice(start, start + MAX_CONCURRENT_REQUESTS)
+        .map(reference =>
+          sendRequest<NotionPage>(client, { path: `pages/${reference.id}`, method: 'get' })
+        )
+    );
+    related.push(...toQueryResults(targetDefinition, pages, options.onMissingRequired));
+  }
+
+  return related;
+}
+
+/**
+ * Read every reference of a relation property, page by page, from the page property endpoint
+ * The property ID is looked up on the page when the schema doesn't pin it
+ */
+async function fetchRelationReferences(
+  client: NotionClient,
+  pageId: string,
+  key: string,
+  definition: PropertyDefinition
+): Promise<RelationReference[]> {
+  let propertyId = definition.id;
+  if (propertyId === undefined) {
+    const page = await sendRequest<NotionPage>(client, { path: `pages/${pageId}`, method: 'get' });
+    // Notion returns property IDs URL-encoded already; the name fallback still needs encoding
+    propertyId =
+      findNotionProperty(page.properties, key, definition)?.id ??
+      encodeURIComponent(getNotionPropertyReference(key, definition));
+  }
+
+  const references: RelationReference[] = [];
+  let cursor: string | null = null;
+  do {
+    const list: NotionRelationItemList = await sendRequest<NotionRelationItemList>(client, {
+      path: `pages/${pageId}/properties/${propertyId}`,
+      method: 'get',
+      ...(cursor !== null && { query: { start_cursor: cursor } }),
+    });
+    references.push(...list.results.map(item => ({ id: item.relation.id })));
+    cursor = list.has_more ? list.next_cursor : null;
+  } while (cursor !== null);
+
+  return references;
+}
@@ -0,0 +1,59 @@
+/**
+ * Query sort compilation
+ *
+ * Checks schema-aware sorts against the schema before the request is built
+ */
+
+import type { SchemaDefinition } from '../types/core.js';
+import type { QuerySort } from '../types/query.js';
+import type { NotionSort } from '../types/notion.js';
+import type { TypedSchema } from '../schema/typed-schema.js';
+import { getNotionPropertyReference } from '../types/properties.js';
+import { PropertyAccessError, SchemaValidationError } from '../errors/index.js';
+
+const SORT_DIRECTIONS: readonly string[] = ['ascending', 'descending'];
+
+const SORT_TIMESTAMPS: readonly string[] = ['created_time', 'last_edited_time'];
+
+/**
+ * Compile schema-aware sorts into Notion sort JSON
+ *
+ * @param schema - Typed schema describing the database
+ * @param sorts - Sorts on schema properties or page timestamps
+ * @returns Notion API sorts array
+ * @throws {PropertyAccessError} When sorting on a property not in the schema
+ * @throws {SchemaValidationError} When a direction or timestamp is invalid
+ */
+export function compileSorts<S extends SchemaDefinition>(
+  schema: TypedSchema<S>,
+  sorts: readonly QuerySort<S>[]
+): NotionSort[] {
+  return sorts.map((sort, index) => {
+    if (!SORT_DIRECTIONS.includes(sort.direction)) {
+      throw new SchemaValidationError(
+        `sorts[${index}].direction`,
+        `one of [${SORT_DIRECTIONS.join(', ')}]`,
+        sort.direction
+      );
+    }
+
+    if ('timestamp' in sort) {
+      if (!SORT_TIMESTAMPS.includes(sort.timestamp)) {
+        throw new SchemaValidationError(
+          `sorts[${index}].timestamp`,
+          `one of [${SORT_TIMESTAMPS.join(', ')}]`,
+          sort.timestamp
+        );
+      }
+      return { timestamp: sort.timestamp, direction: sort.direction };
+    }
+
+    if (!schema.hasProperty(sort.property)) {
+      throw new PropertyAccessError(sort.property, schema.databaseId);
+    }
+    return {
+      property: getNotionPropertyReference(sort.property, schema.getProperty(sort.property)),
+      direction: sort.direction,
+    };
+  });
+}
@@ -19,23 +19,183 @@ export type PropertyType =
   | 'email'
   | 'select'
   | 'multi_select'
-  | 'people';
+  | 'people'
+  | 'relation'
+  | 'status'
+  | 'formula'
+  | 'rollup'
+  | 'created_time'
+  | 'last_edited_time'
+  | 'created_by'
+  | 'last_edited_by'
+  | 'files'
+  | 'phone_number'
+  | 'unique_id';
+
+/**
+ * Property types maintained by Notion
+ * Their values are returned by queries but cannot be written
+ */
+export type ReadOnlyPropertyType =
+  | 'formula'
+  | 'rollup'
+  | 'created_time'
+  | 'last_edited_time'
+  | 'created_by'
+  | 'last_edited_by'
+  | 'unique_id';
+
+/**
+ * Options shared by every property definition
+ */
+export interface PropertyDefinitionOptions {
+  /**
+   * Notion-side property name (or property ID) when it differs from the schema key
+   * Lets schema keys stay clean identifiers for columns named with emoji, dashes or non-ASCII text
+   */
+  name?: string | undefined;
+  /**
+   * Stable Notion property ID, used instead of the name in requests so schemas survive renames
+   * Resolved from the live database with resolvePropertyIds
+   */
+  id?: string | undefined;
+  /**
+   * Guarantees the property always has a value: null is removed from the inferred type,
+   * rejected by value and record validation, and checked when decoding query results
+   */
+  required?: boolean | undefined;
+}
+
+/**
+ * Value constraints of number properties
+ */
+export interface NumberConstraints {
+  /** Smallest accepted value (inclusive) */
+  min?: number | undefined;
+  /** Largest accepted value (inclusive) */
+  max?: number | undefined;
+  /** Accept whole numbers only */
+  integer?: boolean | undefined;
+}
+
+/**
+ * Value constraints of title and rich text properties
+ * Lengths count characters (code points)
+ */
+export interface TextConstraints {
+  minLength?: number | undefined;
+  maxLength?: number | undefined;
+  /** Pattern the text must contain a match of; anchor it to match the whole text */
+  pattern?: RegExp | undefined;
+}
+
+/**
+ * Value constraints of email and URL properties
+ */
+export interface DomainConstraints {
+  /** Accepted email or URL host domains; their subdomains are accepted too */
+  domains?: readonly string[] | undefined;
+}
+
+/**
+ * Value constraints of multi-select and people properties
+ */
+export interface ItemConstraints {
+  minItems?: number | undefined;
+  maxItems?: number | undefined;
+}
+
+/**
+ * Calendar date without a time or time zone, e.g. `2024-03-01`
+ */
+export type DateOnly = `${number}-${number}-${number}`;
+
+/**
+ * Date property value spanning a start and an optional end
+ */
+export interface DateRange<T extends Date | DateOnly = Date> {
+  start: T;
+  end: T | null;
+}
+
+/**
+ * Any value of a date property, whatever its options
+ */
+export type DatePropertyValue = Date | DateOnly | DateRange<Date | DateOnly>;
+
+/**
+ * Shape options of date properties
+ */
+export interface DateOptions {
+  /** Values are ranges with a start and an optional end */
+  range?: boolean | undefined;
+  /** true for date-times (Date values), false for calendar dates (DateOnly strings) */
+  includeTime?: boolean | undefined;
+  /** IANA time zone date-times are written and read in, e.g. `Europe/Paris` */
+  timeZone?: string | undefined;
+}
+
+/**
+ * Custom rule for a property value
+ * Returns true to accept the value, or false or a description of the expected value to reject it
+ * Declared as a type predicate (`(value: string): value is TicketId => ...`), it brands the
+ * inferred property type
+ */
+export type PropertyRefinement<V> = (value: V) => boolean | string;
+
+/**
+ * Refinement option of writable properties
+ */
+export interface RefinementOptions<V> {
+  /** Rule checked after the built-in type and constraint checks */
+  refine?: PropertyRefinement<V> | undefined;
+}
+
+/**
+ * Nominal variant of a value type, e.g. `type TicketId = Brand<string, 'TicketId'>`
+ * Plain values must pass a refinement type predicate to become branded
+ */
+export type Brand<T, Name extends string> = T & { readonly __brand: Name };
 
 /**
  * Property definition configurations
  * Each property type has its own configuration structure
  */
-export type PropertyDefinition =
-  | { type: 'title' }
-  | { type: 'rich_text' }
-  | { type: 'number'; format?: 'number' | 'percent' | 'dollar' | undefined }
-  | { type: 'checkbox' }
-  | { type: 'date' }
-  | { type: 'url' }
-  | { type: 'email' }
-  | { type: 'select'; options: readonly string[] }
-  | { type: 'multi_select'; options: readonly string[] }
-  | { type: 'people' };
+export type PropertyDefinition = PropertyDefinitionOptions &
+  (
+    | ({ type: 'title' } & TextConstraints & RefinementOptions<string>)
+    | ({ type: 'rich_text' } & TextConstraints & RefinementOptions<string>)
+    | ({
+        type: 'number';
+        format?: NumberFormat | undefined;
+      } & NumberConstraints &
+        RefinementOptions<number>)
+    | ({ type: 'checkbox' } & RefinementOptions<boolean>)
+    | ({ type: 'date' } & DateOptions & RefinementOptions<DatePropertyValue>)
+    | ({ type: 'url' } & DomainConstraints & RefinementOptions<string>)
+    | ({ type: 'email' } & DomainConstraints & RefinementOptions<string>)
+    | ({ type: 'select'; options: readonly string[] } & RefinementOptions<string>)
+    | ({ type: 'multi_select'; options: readonly string[] } & ItemConstraints &
+        RefinementOptions<string[]>)
+    | ({ type: 'people' } & ItemConstraints & RefinementOptions<NotionUser[]>)
+    | ({ type: 'relation'; target: string | RelationTarget } & RefinementOptions<
+        RelationReference[]
+      >)
+    | ({
+        type: 'status';
+        options: readonly string[];
+        groups: StatusGroups;
+      } & RefinementOptions<string>)
+    | { type: 'formula'; result: FormulaResultType }
+    | { type: 'rollup'; result: RollupResultType }
+    | { type: 'created_time' }
+    | { type: 'last_edited_time' }
+    | { type: 'created_by' }
+    | { type: 'last_edited_by' }
+    | ({ type: 'files' } & RefinementOptions<NotionFile[]>)
+    | ({ type: 'phone_number' } & RefinementOptions<string>)
+    | { type: 'unique_id'; prefix?: string | undefined }
+  );
 
 /**
  * Schema definition structure
@@ -44,6 +204,129 @@ export type PropertyDefinition =
 export interface SchemaDefinition {
   readonly databaseId: string;
   readonly properties: Record<string, PropertyDefinition>;
+  /** Cross-field rules checked once every property value is valid */
+  readonly refinements?: readonly RecordRefinement[] | undefined;
+}
+
+/**
+ * Cross-field rule for whole records, e.g. an end date after the start date
+ * Checked by validateRecord, parse and createPage
+ */
+export interface RecordRefinement {
+  /**
+   * Return true to accept the record
+   * Missing properties are null; annotate the parameter to type the properties read
+   */
+  check(record: Readonly<Record<string, unknown>>): boolean;
+  /** Issue message when the record is rejected */
+  readonly message: string;
+  /** Property the issue is reported at (the whole record when omitted) */
+  readonly path?: string | undefined;
+}
+
+/**
+ * Number formats offered by Notion
+ */
+export type NumberFormat =
+  | 'number'
+  | 'number_with_commas'
+  | 'percent'
+  | 'dollar'
+  | 'australian_dollar'
+  | 'canadian_dollar'
+  | 'singapore_dollar'
+  | 'euro'
+  | 'pound'
+  | 'yen'
+  | 'ruble'
+  | 'rupee'
+  | 'won'
+  | 'yuan'
+  | 'real'
+  | 'lira'
+  | 'rupiah'
+  | 'franc'
+  | 'hong_kong_dollar'
+  | 'new_zealand_dollar'
+  | 'krona'
+  | 'norwegian_krone'
+  | 'mexican_peso'
+  | 'rand'
+  | 'new_taiwan_dollar'
+  | 'danish_krone'
+  | 'zloty'
+  | 'baht'
+  | 'forint'
+  | 'koruna'
+  | 'shekel'
+  | 'chilean_peso'
+  | 'philippine_peso'
+  | 'dirham'
+  | 'colombian_peso'
+  | 'riyal'
+  | 'ringgit'
+  | 'leu'
+  | 'argentine_peso'
+  | 'uruguayan_peso'
+  | 'peruvian_sol';
+
+/**
+ * Notion status groups, in workflow order
+ */
+export type StatusGroup = 'To-do' | 'In progress' | 'Complete';
+
+/**
+ * Status options assigned to each status group
+ * Every declared option belongs to exactly one group
+ */
+export type StatusGroups = {
+  readonly [G in StatusGroup]: readonly string[];
+};
+
+/**
+ * Value types a formula property can evaluate to
+ */
+export type FormulaResultType = 'string' | 'number' | 'boolean' | 'date';
+
+/**
+ * Value types a rollup aggregation can produce
+ * `array` rollups return the original values of the related pages
+ */
+export type RollupResultType = 'number' | 'date' | 'array';
+
+/**
+ * Schema referenced by a relation property
+ * Satisfied by TypedSchema instances
+ */
+export interface RelationTarget {
+  readonly databaseId: string;
+  readonly definition: SchemaDefinition;
+}
+
+/**
+ * Page reference for relation properties
+ * Based on Notion API relation value structure
+ */
+export interface RelationReference {
+  readonly id: string;
+}
+
+/**
+ * File attached to a files property
+ * Files hosted by Notion carry an expiry time for their temporary URL and cannot be written back
+ */
+export interface NotionFile {
+  readonly name: string;
+  readonly url: string;
+  readonly expiry_time?: Date | null;
+}
+
+/**
+ * Auto-incremented identifier of a unique_id property
+ */
+export interface UniqueId {
+  readonly prefix: string | null;
+  readonly number: number;
 }
 
 /**
@@ -61,17 +344,6 @@ export interface NotionUser {
   readonly bot?: Record<string, unknown> | null;
 }
 
-/**
- * Query options for database operations
- * Subset of Notion API query parameters
- */
-export interface QueryOptions {
-  filter?: Record<string, unknown>;
-  sorts?: Array<{ property: string; direction: 'ascending' | 'descending' }>;
-  page_size?: number;
-  start_cursor?: string;
-}
-
 /**
  * Performance monitoring interface for NFR-001
  * Tracks schema processing metrics and performance
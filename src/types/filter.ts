@@ -0,0 +1,183 @@
+/**
+ * Schema-aware query filter types
+ *
+ * Describes a filter DSL keyed by schema property names where the allowed
+ * operators and operand types depend on each property definition
+ */
+
+import type { DateOnly, PropertyDefinition, SchemaDefinition } from './core.js';
+import type { ExtractSelectionOptions } from './inference.js';
+
+/**
+ * Conditions shared by every filterable property except checkbox
+ */
+type EmptinessCondition = { readonly is_empty: true } | { readonly is_not_empty: true };
+
+/**
+ * Conditions for files properties
+ */
+export type FilesFilterCondition = EmptinessCondition;
+
+/**
+ * Conditions for title, rich_text, url, email and phone_number properties
+ */
+export type TextFilterCondition =
+  | { readonly equals: string }
+  | { readonly does_not_equal: string }
+  | { readonly contains: string }
+  | { readonly does_not_contain: string }
+  | { readonly starts_with: string }
+  | { readonly ends_with: string }
+  | EmptinessCondition;
+
+/**
+ * Conditions for number properties
+ */
+export type NumberFilterCondition =
+  | { readonly equals: number }
+  | { readonly does_not_equal: number }
+  | { readonly greater_than: number }
+  | { readonly less_than: number }
+  | { readonly greater_than_or_equal_to: number }
+  | { readonly less_than_or_equal_to: number }
+  | EmptinessCondition;
+
+/**
+ * Conditions for unique_id properties (operands are the numeric part of the ID)
+ */
+export type UniqueIdFilterCondition =
+  | { readonly equals: number }
+  | { readonly does_not_equal: number }
+  | { readonly greater_than: number }
+  | { readonly less_than: number }
+  | { readonly greater_than_or_equal_to: number }
+  | { readonly less_than_or_equal_to: number };
+
+/**
+ * Conditions for checkbox properties
+ */
+export type CheckboxFilterCondition =
+  | { readonly equals: boolean }
+  | { readonly does_not_equal: boolean };
+
+/**
+ * Conditions for date, created_time and last_edited_time properties
+ * Calendar dates (`YYYY-MM-DD`) are sent as written; relative conditions (past_week,
+ * next_month, ...) take `true`
+ */
+export type DateFilterCondition =
+  | { readonly equals: Date | DateOnly }
+  | { readonly before: Date | DateOnly }
+  | { readonly after: Date | DateOnly }
+  | { readonly on_or_before: Date | DateOnly }
+  | { readonly on_or_after: Date | DateOnly }
+  | { readonly past_week: true }
+  | { readonly past_month: true }
+  | { readonly past_year: true }
+  | { readonly this_week: true }
+  | { readonly next_week: true }
+  | { readonly next_month: true }
+  | { readonly next_year: true }
+  | EmptinessCondition;
+
+/**
+ * Conditions for select properties, restricted to the declared options
+ */
+export type SelectFilterCondition<O extends string> =
+  | { readonly equals: O }
+  | { readonly does_not_equal: O }
+  | EmptinessCondition;
+
+/**
+ * Conditions for status properties, restricted to the declared options
+ */
+export type StatusFilterCondition<O extends string> = SelectFilterCondition<O>;
+
+/**
+ * Conditions for multi_select properties, restricted to the declared options
+ */
+export type MultiSelectFilterCondition<O extends string> =
+  | { readonly contains: O }
+  | { readonly does_not_contain: O }
+  | EmptinessCondition;
+
+/**
+ * Conditions for people, created_by and last_edited_by properties (operands are user IDs)
+ */
+export type PeopleFilterCondition =
+  | { readonly contains: string }
+  | { readonly does_not_contain: string }
+  | EmptinessCondition;
+
+/**
+ * Conditions for relation properties (operands are page IDs)
+ */
+export type RelationFilterCondition =
+  | { readonly contains: string }
+  | { readonly does_not_contain: string }
+  | EmptinessCondition;
+
+/**
+ * Conditions for formula and rollup properties, based on their declared result
+ * Array rollups are not filterable
+ */
+export type ComputedFilterCondition<R extends string> = R extends 'string'
+  ? TextFilterCondition
+  : R extends 'number'
+    ? NumberFilterCondition
+    : R extends 'boolean'
+      ? CheckboxFilterCondition
+      : R extends 'date'
+        ? DateFilterCondition
+        : never;
+
+/**
+ * Allowed filter condition for a property definition
+ */
+export type FilterCondition<D extends PropertyDefinition> = D extends {
+  type: 'title' | 'rich_text' | 'url' | 'email' | 'phone_number';
+}
+  ? TextFilterCondition
+  : D extends { type: 'number' }
+    ? NumberFilterCondition
+    : D extends { type: 'checkbox' }
+      ? CheckboxFilterCondition
+      : D extends { type: 'date' }
+        ? DateFilterCondition
+        : D extends { type: 'select' }
+          ? SelectFilterCondition<ExtractSelectionOptions<D>>
+          : D extends { type: 'multi_select' }
+            ? MultiSelectFilterCondition<ExtractSelectionOptions<D>>
+            : D extends { type: 'people' }
+              ? PeopleFilterCondition
+              : D extends { type: 'relation' }
+                ? RelationFilterCondition
+                : D extends { type: 'status' }
+                  ? StatusFilterCondition<ExtractSelectionOptions<D>>
+                  : D extends { type: 'formula' | 'rollup'; result: infer R extends string }
+                    ? ComputedFilterCondition<R>
+                    : D extends { type: 'created_time' | 'last_edited_time' }
+                      ? DateFilterCondition
+                      : D extends { type: 'created_by' | 'last_edited_by' }
+                        ? PeopleFilterCondition
+                        : D extends { type: 'files' }
+                          ? FilesFilterCondition
+                          : D extends { type: 'unique_id' }
+                            ? UniqueIdFilterCondition
+                            : never;
+
+/**
+ * Filter on one or more schema properties
+ * Multiple properties in one object are combined with `and`
+ */
+export type PropertyFilter<S extends SchemaDefinition> = {
+  readonly [K in keyof S['properties']]?: FilterCondition<S['properties'][K]>;
+};
+
+/**
+ * Schema-aware query filter with `and`/`or` compound groups
+ */
+export type QueryFilter<S extends SchemaDefinition> =
+  | PropertyFilter<S>
+  | { readonly and: readonly QueryFilter<S>[] }
+  | { readonly or: readonly QueryFilter<S>[] };
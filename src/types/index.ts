@@ -7,20 +7,95 @@
 export type {
   PropertyType,
   PropertyDefinition,
+  PropertyDefinitionOptions,
+  NumberConstraints,
+  TextConstraints,
+  DomainConstraints,
+  ItemConstraints,
+  DateOptions,
+  DateOnly,
+  DateRange,
+  DatePropertyValue,
+  PropertyRefinement,
+  RefinementOptions,
+  RecordRefinement,
+  Brand,
   SchemaDefinition,
   NotionUser,
-  QueryOptions,
+  NotionFile,
+  UniqueId,
+  RelationTarget,
+  RelationReference,
+  NumberFormat,
+  StatusGroup,
+  StatusGroups,
+  ReadOnlyPropertyType,
+  FormulaResultType,
+  RollupResultType,
   PerformanceMetrics,
 } from './core.js';
 
 export type {
   InferPropertyType,
   InferSchemaProperties,
+  InferRecordProperties,
+  InferWritableProperties,
   ExtractSelectionOptions,
+  InferRelationTarget,
+  ExtractStatusGroupOptions,
 } from './inference.js';
 
 export { isValidPropertyType, hasSelectionOptions, isTitleProperty } from './inference.js';
 
+export type {
+  QueryOptions,
+  QueryResult,
+  QueryPage,
+  QuerySort,
+  RequiredPropertyPolicy,
+  QueryResultProperties,
+  SortDirection,
+  SortTimestamp,
+} from './query.js';
+
+export type {
+  QueryFilter,
+  PropertyFilter,
+  FilterCondition,
+  TextFilterCondition,
+  NumberFilterCondition,
+  CheckboxFilterCondition,
+  DateFilterCondition,
+  SelectFilterCondition,
+  MultiSelectFilterCondition,
+  PeopleFilterCondition,
+  RelationFilterCondition,
+  StatusFilterCondition,
+  ComputedFilterCondition,
+  FilesFilterCondition,
+  UniqueIdFilterCondition,
+} from './filter.js';
+
+export type {
+  NotionRichText,
+  NotionSelectOption,
+  NotionDate,
+  NotionRawUser,
+  NotionRawFile,
+  NotionPropertyValue,
+  NotionFormulaResult,
+  NotionRollupResult,
+  NotionPage,
+  NotionQueryResponse,
+  NotionDatabaseProperty,
+  NotionStatusGroup,
+  NotionDatabase,
+  NotionRichTextRequest,
+  NotionPropertyRequest,
+  NotionFilter,
+  NotionSort,
+} from './notion.js';
+
 export type {
   TitleProperty,
   RichTextProperty,
@@ -32,6 +107,17 @@ export type {
   SelectProperty,
   MultiSelectProperty,
   PeopleProperty,
+  RelationProperty,
+  StatusProperty,
+  FormulaProperty,
+  RollupProperty,
+  CreatedTimeProperty,
+  LastEditedTimeProperty,
+  CreatedByProperty,
+  LastEditedByProperty,
+  FilesProperty,
+  PhoneNumberProperty,
+  UniqueIdProperty,
   SpecificPropertyDefinition,
 } from './properties.js';
 
@@ -41,5 +127,16 @@ export {
   isSelectionProperty,
   isContactProperty,
   isDateProperty,
+  isRelationProperty,
+  isStatusProperty,
+  getStatusGroup,
+  isStatusInGroup,
+  isComputedProperty,
+  isSystemProperty,
+  isFilesProperty,
+  isReadOnlyProperty,
   getPropertyCategory,
+  getNotionPropertyName,
+  getNotionPropertyReference,
+  findNotionProperty,
 } from './properties.js';
@@ -5,7 +5,19 @@
  * Implements advanced TypeScript type inference with literal type preservation
  */
 
-import type { PropertyDefinition, NotionUser, SchemaDefinition } from './core.js';
+import type {
+  PropertyDefinition,
+  NotionUser,
+  NotionFile,
+  RelationReference,
+  UniqueId,
+  SchemaDefinition,
+  DateOnly,
+  DateRange,
+  StatusGroup,
+  ReadOnlyPropertyType,
+} from './core.js';
+import type { NotionPropertyValue } from './notion.js';
 
 /**
  * Maps property types to their TypeScript equivalents
@@ -22,26 +34,84 @@ interface PropertyTypeMap {
   select: string | null; // Overridden by literal unions
   multi_select: string[] | null; // Overridden by literal unions
   people: NotionUser[] | null;
+  relation: RelationReference[] | null;
+  status: string | null; // Overridden by literal unions
+  formula: string | number | boolean | Date | null; // Overridden by declared result
+  rollup: number | Date | NotionPropertyValue[] | null; // Overridden by declared result
+  created_time: Date; // Always set by Notion
+  last_edited_time: Date; // Always set by Notion
+  created_by: NotionUser; // Always set by Notion
+  last_edited_by: NotionUser; // Always set by Notion
+  files: NotionFile[] | null;
+  phone_number: string | null;
+  unique_id: UniqueId | null;
+}
+
+/**
+ * Maps declared formula and rollup result types to their TypeScript equivalents
+ */
+interface ComputedResultTypeMap {
+  string: string | null;
+  number: number | null;
+  boolean: boolean | null;
+  date: Date | null;
+  array: NotionPropertyValue[] | null;
 }
 
 /**
  * Infers the TypeScript type for a property definition
  *
  * This is the core type transformation that enables literal type preservation
- * for select and multi_select properties while maintaining null safety
+ * for select, multi_select and status properties while maintaining null safety
+ * Required properties (`required: true`) never infer null
  */
-export type InferPropertyType<T extends PropertyDefinition> = T extends {
-  type: 'select';
-  options: readonly (infer U)[];
+export type InferPropertyType<T extends PropertyDefinition> = T extends { required: true }
+  ? Exclude<InferNullablePropertyType<T>, null>
+  : InferNullablePropertyType<T>;
+
+/**
+ * Infers the TypeScript type for a property definition, including null
+ * Refinements declared as type predicates replace the value type with their (branded) type
+ */
+type InferNullablePropertyType<T extends PropertyDefinition> = T extends {
+  // Method syntax compares parameters bivariantly, matching predicates over any value type
+  refine(value: unknown): value is infer B;
 }
-  ? U | null
-  : T extends { type: 'multi_select'; options: readonly (infer U)[] }
-    ? U[] | null
-    : T extends { type: infer K }
-      ? K extends keyof PropertyTypeMap
-        ? PropertyTypeMap[K]
-        : never
-      : never;
+  ? B | null
+  : T extends { type: 'date' }
+    ? InferDateType<T> | null
+    : T extends { type: 'select' | 'status'; options: readonly (infer U)[] }
+      ? U | null
+      : T extends { type: 'multi_select'; options: readonly (infer U)[] }
+        ? U[] | null
+        : T extends { type: 'formula' | 'rollup'; result: infer R }
+          ? R extends keyof ComputedResultTypeMap
+            ? ComputedResultTypeMap[R]
+            : never
+          : T extends { type: infer K }
+            ? K extends keyof PropertyTypeMap
+              ? PropertyTypeMap[K]
+              : never
+            : never;
+
+/**
+ * Infers the value type of a date property from its options
+ * Definitions whose options aren't literal infer every possible shape
+ */
+type InferDateType<T> = T extends { range: true }
+  ? DateRange<InferDatePoint<T>>
+  : T extends { type: 'date'; range?: false | undefined }
+    ? InferDatePoint<T>
+    : InferDatePoint<T> | DateRange<InferDatePoint<T>>;
+
+/**
+ * Infers the type of a single date (or range boundary): calendar dates when the time is excluded
+ */
+type InferDatePoint<T> = T extends { includeTime: false }
+  ? DateOnly
+  : T extends { type: 'date'; includeTime?: true | undefined }
+    ? Date
+    : Date | DateOnly;
 
 /**
  * Infers property types for an entire schema
@@ -53,6 +123,39 @@ export type InferSchemaProperties<S extends SchemaDefinition> = {
   [K in keyof S['properties']]: InferPropertyType<S['properties'][K]>;
 };
 
+/**
+ * Property types whose values Notion sets on every saved page
+ */
+type NotionMaintainedPropertyType =
+  | 'created_time'
+  | 'last_edited_time'
+  | 'created_by'
+  | 'last_edited_by';
+
+/**
+ * Infers the property types of a record validated against a schema
+ *
+ * Timestamps and audit users are set by Notion on every page but are usually
+ * missing from webhook or form input, so they include null
+ */
+export type InferRecordProperties<S extends SchemaDefinition> = {
+  [K in keyof S['properties']]: S['properties'][K]['type'] extends NotionMaintainedPropertyType
+    ? InferPropertyType<S['properties'][K]> | null
+    : InferPropertyType<S['properties'][K]>;
+};
+
+/**
+ * Infers the writable property types of a schema
+ *
+ * Read-only properties (formula, rollup, timestamps and audit users) are
+ * omitted so they are rejected in create and update payloads
+ */
+export type InferWritableProperties<S extends SchemaDefinition> = {
+  [K in keyof S['properties'] as S['properties'][K]['type'] extends ReadOnlyPropertyType
+    ? never
+    : K]: InferPropertyType<S['properties'][K]>;
+};
+
 /**
  * Type guard to check if a value is a valid property type
  */
@@ -68,6 +171,17 @@ export function isValidPropertyType(type: string): type is keyof PropertyTypeMap
     'select',
     'multi_select',
     'people',
+    'relation',
+    'status',
+    'formula',
+    'rollup',
+    'created_time',
+    'last_edited_time',
+    'created_by',
+    'last_edited_by',
+    'files',
+    'phone_number',
+    'unique_id',
   ];
   return validTypes.includes(type as keyof PropertyTypeMap);
 }
@@ -79,7 +193,10 @@ export function hasSelectionOptions(
   definition: PropertyDefinition
 ): definition is Extract<PropertyDefinition, { options: readonly string[] }> {
   return (
-    (definition.type === 'select' || definition.type === 'multi_select') && 'options' in definition
+    (definition.type === 'select' ||
+      definition.type === 'multi_select' ||
+      definition.type === 'status') &&
+    'options' in definition
   );
 }
 
@@ -91,14 +208,39 @@ export function isTitleProperty(definition: PropertyDefinition): definition is {
 }
 
 /**
- * Extract literal option types from select/multi_select properties
+ * Extract literal option types from select/multi_select/status properties
  * Used for runtime validation of selection values
  */
 export type ExtractSelectionOptions<T extends PropertyDefinition> = T extends {
-  type: 'select' | 'multi_select';
+  type: 'select' | 'multi_select' | 'status';
   options: readonly (infer U)[];
 }
   ? U extends string
     ? U
     : never
   : never;
+
+/**
+ * Extract the target schema definition of a relation property
+ * Resolves to never when the relation only references a database ID
+ */
+export type InferRelationTarget<T extends PropertyDefinition> = T extends {
+  type: 'relation';
+  target: { definition: infer D };
+}
+  ? D extends SchemaDefinition
+    ? D
+    : never
+  : never;
+
+/**
+ * Extract the literal status options assigned to a status group
+ */
+export type ExtractStatusGroupOptions<
+  T extends PropertyDefinition,
+  G extends StatusGroup,
+> = T extends { type: 'status'; groups: { readonly [K in G]: readonly (infer U)[] } }
+  ? U extends string
+    ? U
+    : never
+  : never;
@@ -0,0 +1,228 @@
+/**
+ * Raw Notion API object shapes
+ *
+ * Minimal structural types for the JSON returned by the Notion API
+ * Only the fields read or written by the library are described
+ */
+
+/**
+ * Rich text item as returned in title and rich_text property values
+ */
+export interface NotionRichText {
+  readonly type?: 'text' | 'mention' | 'equation';
+  readonly plain_text: string;
+  readonly text?: {
+    readonly content: string;
+    readonly link?: { readonly url: string } | null;
+  };
+}
+
+/**
+ * Select option reference as returned in select and multi_select values
+ */
+export interface NotionSelectOption {
+  readonly id?: string;
+  readonly name: string;
+  readonly color?: string;
+}
+
+/**
+ * Date value as returned in date property values
+ */
+export interface NotionDate {
+  readonly start: string;
+  readonly end?: string | null;
+  readonly time_zone?: string | null;
+}
+
+/**
+ * User reference as returned in people property values
+ * Partial users only carry an id
+ */
+export interface NotionRawUser {
+  readonly object?: 'user';
+  readonly id: string;
+  readonly type?: 'person' | 'bot';
+  readonly name?: string | null;
+  readonly avatar_url?: string | null;
+  readonly person?: { readonly email?: string } | null;
+  readonly bot?: Record<string, unknown> | null;
+}
+
+/**
+ * File as returned in files property values
+ * Files uploaded to Notion use temporary URLs that expire
+ */
+export type NotionRawFile = { readonly name: string } & (
+  | {
+      readonly type: 'file';
+      readonly file: { readonly url: string; readonly expiry_time: string };
+    }
+  | { readonly type: 'external'; readonly external: { readonly url: string } }
+);
+
+/**
+ * Property value as returned in a page's properties object
+ * Discriminated by the Notion property type
+ */
+export type NotionPropertyValue = { readonly id?: string } & (
+  | { readonly type: 'title'; readonly title: readonly NotionRichText[] }
+  | { readonly type: 'rich_text'; readonly rich_text: readonly NotionRichText[] }
+  | { readonly type: 'number'; readonly number: number | null }
+  | { readonly type: 'checkbox'; readonly checkbox: boolean }
+  | { readonly type: 'date'; readonly date: NotionDate | null }
+  | { readonly type: 'url'; readonly url: string | null }
+  | { readonly type: 'email'; readonly email: string | null }
+  | { readonly type: 'select'; readonly select: NotionSelectOption | null }
+  | { readonly type: 'multi_select'; readonly multi_select: readonly NotionSelectOption[] }
+  | { readonly type: 'people'; readonly people: readonly NotionRawUser[] }
+  | {
+      readonly type: 'relation';
+      readonly relation: readonly { readonly id: string }[];
+      readonly has_more?: boolean;
+    }
+  | { readonly type: 'status'; readonly status: NotionSelectOption | null }
+  | { readonly type: 'formula'; readonly formula: NotionFormulaResult }
+  | { readonly type: 'rollup'; readonly rollup: NotionRollupResult }
+  | { readonly type: 'created_time'; readonly created_time: string }
+  | { readonly type: 'last_edited_time'; readonly last_edited_time: string }
+  | { readonly type: 'created_by'; readonly created_by: NotionRawUser }
+  | { readonly type: 'last_edited_by'; readonly last_edited_by: NotionRawUser }
+  | { readonly type: 'files'; readonly files: readonly NotionRawFile[] }
+  | { readonly type: 'phone_number'; readonly phone_number: string | null }
+  | {
+      readonly type: 'unique_id';
+      readonly unique_id: { readonly prefix: string | null; readonly number: number | null };
+    }
+);
+
+/**
+ * Computed value of a formula property
+ */
+export type NotionFormulaResult =
+  | { readonly type: 'string'; readonly string: string | null }
+  | { readonly type: 'number'; readonly number: number | null }
+  | { readonly type: 'boolean'; readonly boolean: boolean | null }
+  | { readonly type: 'date'; readonly date: NotionDate | null };
+
+/**
+ * Aggregated value of a rollup property
+ */
+export type NotionRollupResult = { readonly function?: string } & (
+  | { readonly type: 'number'; readonly number: number | null }
+  | { readonly type: 'date'; readonly date: NotionDate | null }
+  | { readonly type: 'array'; readonly array: readonly NotionPropertyValue[] }
+);
+
+/**
+ * Page object as returned by database queries
+ */
+export interface NotionPage {
+  readonly object: 'page';
+  readonly id: string;
+  readonly created_time: string;
+  readonly last_edited_time: string;
+  readonly archived?: boolean;
+  readonly url?: string;
+  readonly properties: Record<string, NotionPropertyValue>;
+}
+
+/**
+ * Paginated list response returned by the database query endpoint
+ */
+export interface NotionQueryResponse {
+  readonly object: 'list';
+  readonly results: readonly NotionPage[];
+  readonly next_cursor: string | null;
+  readonly has_more: boolean;
+}
+
+/**
+ * Page of relation references returned by the page property endpoint
+ */
+export interface NotionRelationItemList {
+  readonly object: 'list';
+  readonly results: readonly { readonly relation: { readonly id: string } }[];
+  readonly next_cursor: string | null;
+  readonly has_more: boolean;
+}
+
+/**
+ * Property schema as returned in a database's properties object
+ * Type-specific configuration is keyed by the property type
+ */
+export interface NotionDatabaseProperty {
+  readonly id: string;
+  readonly name: string;
+  readonly type: string;
+  readonly [configuration: string]: unknown;
+}
+
+/**
+ * Status group as returned in a status property configuration
+ */
+export interface NotionStatusGroup {
+  readonly id?: string;
+  readonly name: string;
+  readonly color?: string;
+  readonly option_ids: readonly string[];
+}
+
+/**
+ * Database object as returned by the database retrieve endpoint
+ */
+export interface NotionDatabase {
+  readonly object: 'database';
+  readonly id: string;
+  readonly title?: readonly NotionRichText[];
+  readonly properties: Record<string, NotionDatabaseProperty>;
+}
+
+/**
+ * Rich text item accepted in title and rich_text property requests
+ */
+export interface NotionRichTextRequest {
+  readonly type: 'text';
+  readonly text: { readonly content: string };
+}
+
+/**
+ * Property value accepted when creating or updating pages
+ * Keyed by the Notion property type
+ */
+export type NotionPropertyRequest =
+  | { readonly title: readonly NotionRichTextRequest[] }
+  | { readonly rich_text: readonly NotionRichTextRequest[] }
+  | { readonly number: number | null }
+  | { readonly checkbox: boolean }
+  | { readonly date: NotionDate | null }
+  | { readonly url: string | null }
+  | { readonly email: string | null }
+  | { readonly select: { readonly name: string } | null }
+  | { readonly multi_select: readonly { readonly name: string }[] }
+  | { readonly people: readonly { readonly id: string }[] }
+  | { readonly relation: readonly { readonly id: string }[] }
+  | { readonly status: { readonly name: string } | null }
+  | {
+      readonly files: readonly {
+        readonly name: string;
+        readonly type: 'external';
+        readonly external: { readonly url: string };
+      }[];
+    }
+  | { readonly phone_number: string | null };
+
+/**
+ * Filter object accepted by the database query endpoint
+ */
+export type NotionFilter = Readonly<Record<string, unknown>>;
+
+/**
+ * Sort object accepted by the database query endpoint
+ */
+export type NotionSort =
+  | { readonly property: string; readonly direction: 'ascending' | 'descending' }
+  | {
+      readonly timestamp: 'created_time' | 'last_edited_time';
+      readonly direction: 'ascending' | 'descending';
+    };
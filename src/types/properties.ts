@@ -5,7 +5,16 @@
  * Implements User Story 1: Basic Schema Definition support
  */
 
-import type { PropertyDefinition } from './core.js';
+import type {
+  FormulaResultType,
+  NumberFormat,
+  PropertyDefinition,
+  ReadOnlyPropertyType,
+  RelationTarget,
+  RollupResultType,
+  StatusGroup,
+  StatusGroups,
+} from './core.js';
 
 /**
  * Title property definition
@@ -29,7 +38,7 @@ export interface RichTextProperty {
  */
 export interface NumberProperty {
   readonly type: 'number';
-  readonly format?: 'number' | 'percent' | 'dollar';
+  readonly format?: NumberFormat;
 }
 
 /**
@@ -46,6 +55,9 @@ export interface CheckboxProperty {
  */
 export interface DateProperty {
   readonly type: 'date';
+  readonly range?: boolean;
+  readonly includeTime?: boolean;
+  readonly timeZone?: string;
 }
 
 /**
@@ -90,6 +102,100 @@ export interface PeopleProperty {
   readonly type: 'people';
 }
 
+/**
+ * Relation property definition
+ * References pages in another database, given as a schema or database ID
+ */
+export interface RelationProperty {
+  readonly type: 'relation';
+  readonly target: string | RelationTarget;
+}
+
+/**
+ * Status property definition
+ * Single selection from predefined options organized in status groups
+ */
+export interface StatusProperty {
+  readonly type: 'status';
+  readonly options: readonly string[];
+  readonly groups: StatusGroups;
+}
+
+/**
+ * Formula property definition
+ * Read-only value computed by Notion with a declared result type
+ */
+export interface FormulaProperty {
+  readonly type: 'formula';
+  readonly result: FormulaResultType;
+}
+
+/**
+ * Rollup property definition
+ * Read-only aggregation over related pages with a declared result type
+ */
+export interface RollupProperty {
+  readonly type: 'rollup';
+  readonly result: RollupResultType;
+}
+
+/**
+ * Created time property definition
+ * Read-only timestamp set by Notion when the page is created
+ */
+export interface CreatedTimeProperty {
+  readonly type: 'created_time';
+}
+
+/**
+ * Last edited time property definition
+ * Read-only timestamp updated by Notion on every edit
+ */
+export interface LastEditedTimeProperty {
+  readonly type: 'last_edited_time';
+}
+
+/**
+ * Created by property definition
+ * Read-only reference to the user who created the page
+ */
+export interface CreatedByProperty {
+  readonly type: 'created_by';
+}
+
+/**
+ * Last edited by property definition
+ * Read-only reference to the user who last edited the page
+ */
+export interface LastEditedByProperty {
+  readonly type: 'last_edited_by';
+}
+
+/**
+ * Files property definition
+ * Files uploaded to Notion or linked from external URLs
+ */
+export interface FilesProperty {
+  readonly type: 'files';
+}
+
+/**
+ * Phone number property definition
+ * String values validated as international phone numbers
+ */
+export interface PhoneNumberProperty {
+  readonly type: 'phone_number';
+}
+
+/**
+ * Unique ID property definition
+ * Read-only auto-incremented identifier with an optional prefix
+ */
+export interface UniqueIdProperty {
+  readonly type: 'unique_id';
+  readonly prefix?: string;
+}
+
 /**
  * Union of all property types for type narrowing
  * Matches the PropertyDefinition from core types
@@ -104,7 +210,18 @@ export type SpecificPropertyDefinition =
   | EmailProperty
   | SelectProperty
   | MultiSelectProperty
-  | PeopleProperty;
+  | PeopleProperty
+  | RelationProperty
+  | StatusProperty
+  | FormulaProperty
+  | RollupProperty
+  | CreatedTimeProperty
+  | LastEditedTimeProperty
+  | CreatedByProperty
+  | LastEditedByProperty
+  | FilesProperty
+  | PhoneNumberProperty
+  | UniqueIdProperty;
 
 /**
  * Type guard to check if a property is a basic property (User Story 1)
@@ -128,22 +245,64 @@ export function isTextProperty(
 
 /**
  * Type guard to check if a property is a selection property (User Story 2)
- * Selection properties: select, multi_select
+ * Selection properties: select, multi_select, status
  */
 export function isSelectionProperty(
   property: PropertyDefinition
-): property is SelectProperty | MultiSelectProperty {
-  return property.type === 'select' || property.type === 'multi_select';
+): property is SelectProperty | MultiSelectProperty | StatusProperty {
+  return (
+    property.type === 'select' || property.type === 'multi_select' || property.type === 'status'
+  );
+}
+
+/**
+ * Type guard to check if a property is a status property
+ */
+export function isStatusProperty(property: PropertyDefinition): property is StatusProperty {
+  return property.type === 'status';
+}
+
+/**
+ * Get the status group a status option belongs to
+ *
+ * @param property - Status property definition
+ * @param value - Status option name
+ * @returns The group containing the option, or null when it is not declared
+ */
+export function getStatusGroup(property: StatusProperty, value: string): StatusGroup | null {
+  const groups = Object.keys(property.groups) as StatusGroup[];
+  return groups.find(group => property.groups[group].includes(value)) ?? null;
+}
+
+/**
+ * Check whether a status option belongs to a status group
+ *
+ * @param property - Status property definition
+ * @param value - Status option name (null is never in a group)
+ * @param group - Status group to check
+ * @returns True if the option is assigned to the group
+ */
+export function isStatusInGroup(
+  property: StatusProperty,
+  value: string | null,
+  group: StatusGroup
+): boolean {
+  return value !== null && property.groups[group].includes(value);
 }
 
 /**
  * Type guard to check if a property is a contact property (User Story 3)
- * Contact properties: email, url, people
+ * Contact properties: email, url, people, phone_number
  */
 export function isContactProperty(
   property: PropertyDefinition
-): property is EmailProperty | URLProperty | PeopleProperty {
-  return property.type === 'email' || property.type === 'url' || property.type === 'people';
+): property is EmailProperty | URLProperty | PeopleProperty | PhoneNumberProperty {
+  return (
+    property.type === 'email' ||
+    property.type === 'url' ||
+    property.type === 'people' ||
+    property.type === 'phone_number'
+  );
 }
 
 /**
@@ -153,18 +312,118 @@ export function isDateProperty(property: PropertyDefinition): property is DatePr
   return property.type === 'date';
 }
 
+/**
+ * Type guard to check if a property is a relation property
+ */
+export function isRelationProperty(property: PropertyDefinition): property is RelationProperty {
+  return property.type === 'relation';
+}
+
+/**
+ * Type guard to check if a property is computed by Notion
+ * Computed properties: formula, rollup
+ */
+export function isComputedProperty(
+  property: PropertyDefinition
+): property is FormulaProperty | RollupProperty {
+  return property.type === 'formula' || property.type === 'rollup';
+}
+
+/**
+ * Type guard to check if a property is maintained by Notion on every page
+ * System properties: created_time, last_edited_time, created_by, last_edited_by, unique_id
+ */
+export function isSystemProperty(
+  property: PropertyDefinition
+): property is
+  | CreatedTimeProperty
+  | LastEditedTimeProperty
+  | CreatedByProperty
+  | LastEditedByProperty
+  | UniqueIdProperty {
+  return (
+    property.type === 'created_time' ||
+    property.type === 'last_edited_time' ||
+    property.type === 'created_by' ||
+    property.type === 'last_edited_by' ||
+    property.type === 'unique_id'
+  );
+}
+
+/**
+ * Type guard to check if a property is a files property
+ */
+export function isFilesProperty(property: PropertyDefinition): property is FilesProperty {
+  return property.type === 'files';
+}
+
+/**
+ * Type guard to check if a property cannot be written in create/update requests
+ */
+export function isReadOnlyProperty(
+  property: PropertyDefinition
+): property is Extract<PropertyDefinition, { type: ReadOnlyPropertyType }> {
+  return isComputedProperty(property) || isSystemProperty(property);
+}
+
 /**
  * Get the category of a property for organization
  */
 export function getPropertyCategory(
   property: PropertyDefinition
-): 'basic' | 'text' | 'selection' | 'contact' | 'date' {
+):
+  | 'basic'
+  | 'text'
+  | 'selection'
+  | 'contact'
+  | 'date'
+  | 'relation'
+  | 'computed'
+  | 'system'
+  | 'files' {
   if (isBasicProperty(property)) return 'basic';
   if (isTextProperty(property)) return 'text';
   if (isSelectionProperty(property)) return 'selection';
   if (isContactProperty(property)) return 'contact';
   if (isDateProperty(property)) return 'date';
+  if (isRelationProperty(property)) return 'relation';
+  if (isComputedProperty(property)) return 'computed';
+  if (isSystemProperty(property)) return 'system';
+  if (isFilesProperty(property)) return 'files';
 
   // This should never happen with proper typing, but provides fallback
   return 'basic';
 }
+
+/**
+ * Get the Notion-side name of a schema property
+ * Falls back to the schema key when the definition carries no alias
+ */
+export function getNotionPropertyName(key: string, property: PropertyDefinition): string {
+  return property.name ?? key;
+}
+
+/**
+ * Get the reference used for a schema property in Notion requests
+ * Pinned property IDs take precedence over names, so requests survive column renames
+ */
+export function getNotionPropertyReference(key: string, property: PropertyDefinition): string {
+  return property.id ?? getNotionPropertyName(key, property);
+}
+
+/**
+ * Find the Notion property matching a schema property in a name-keyed property map
+ * Pinned IDs are matched by ID; names fall back to an ID match for aliases given as IDs
+ */
+export function findNotionProperty<P extends { readonly id?: string | undefined }>(
+  properties: Readonly<Record<string, P>>,
+  key: string,
+  property: PropertyDefinition
+): P | undefined {
+  const values = Object.values(properties);
+  if (property.id !== undefined) {
+    return values.find(value => value.id === property.id);
+  }
+  const name = getNotionPropertyName(key, property);
+  return properties[name] ?? values.find(value => value.id === name);
+}
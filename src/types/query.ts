@@ -0,0 +1,97 @@
+/**
+ * Query result types for database operations
+ *
+ * Based on contracts/schema-api.ts
+ * Describes query options and decoded pages returned by typed queries
+ */
+
+import type { SchemaDefinition } from './core.js';
+import type { InferSchemaProperties } from './inference.js';
+import type { QueryFilter } from './filter.js';
+import type { SchemaIssue } from '../errors/index.js';
+
+/**
+ * Sort direction accepted by the Notion API
+ */
+export type SortDirection = 'ascending' | 'descending';
+
+/**
+ * Page timestamps that can be sorted on without a schema property
+ */
+export type SortTimestamp = 'created_time' | 'last_edited_time';
+
+/**
+ * Sort on a schema property or on a page timestamp
+ */
+export type QuerySort<S extends SchemaDefinition = SchemaDefinition> =
+  | { readonly property: keyof S['properties'] & string; readonly direction: SortDirection }
+  | { readonly timestamp: SortTimestamp; readonly direction: SortDirection };
+
+/**
+ * How decoded query results with an empty required property are handled
+ * - `throw`: fail the query with a RecordValidationError
+ * - `skip`: leave the page out of the results
+ * - `report`: keep the page and list the problems in its `issues`
+ */
+export type RequiredPropertyPolicy = 'throw' | 'skip' | 'report';
+
+/**
+ * Query options for database operations
+ * Subset of Notion API query parameters, typed against the schema
+ */
+export interface QueryOptions<
+  S extends SchemaDefinition = SchemaDefinition,
+  P extends RequiredPropertyPolicy = RequiredPropertyPolicy,
+> {
+  filter?: QueryFilter<S>;
+  sorts?: readonly QuerySort<S>[];
+  page_size?: number;
+  start_cursor?: string;
+  /** Handling of pages with an empty required property (defaults to `throw`) */
+  onMissingRequired?: P;
+}
+
+/**
+ * Decoded properties of a query result
+ * Under the `report` policy required properties can be empty, so they include null
+ */
+export type QueryResultProperties<
+  S extends SchemaDefinition,
+  P extends RequiredPropertyPolicy,
+> = P extends 'report'
+  ? {
+      [K in keyof S['properties']]:
+        | InferSchemaProperties<S>[K]
+        | (S['properties'][K] extends { required: true } ? null : never);
+    }
+  : InferSchemaProperties<S>;
+
+/**
+ * Query result with typed property access (FR-012)
+ * P is the required property policy the result was decoded with
+ */
+export interface QueryResult<
+  S extends SchemaDefinition,
+  P extends RequiredPropertyPolicy = 'throw',
+> {
+  readonly id: string;
+  readonly props: QueryResultProperties<S, P>;
+  readonly createdTime: Date;
+  readonly lastEditedTime: Date;
+  /** Empty required properties, present only with the `report` policy */
+  readonly issues?: readonly SchemaIssue[];
+  /**
+   * Relation properties holding only the first 25 references, as Notion truncates longer
+   * relations in page objects; expandRelation retrieves the full list
+   */
+  readonly truncated?: readonly (keyof S['properties'] & string)[];
+}
+
+/**
+ * One page of decoded query results with its pagination cursor
+ */
+export interface QueryPage<S extends SchemaDefinition, P extends RequiredPropertyPolicy = 'throw'> {
+  readonly results: QueryResult<S, P>[];
+  readonly nextCursor: string | null;
+  readonly hasMore: boolean;
+}
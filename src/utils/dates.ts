@@ -0,0 +1,152 @@
+/**
+ * Date utilities for Notion date values
+ *
+ * Notion dates are ISO 8601 strings: calendar dates (`2024-03-01`), date-times with an
+ * offset (`2024-03-01T09:00:00.000+01:00`), or local date-times paired with an IANA time zone
+ * Calendar dates are handled as strings so they never shift by a day across time zones
+ */
+
+import type { DateOnly } from '../types/core.js';
+
+/**
+ * Calendar date format (`YYYY-MM-DD`)
+ */
+const DATE_ONLY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Local date-time without an offset, e.g. `2024-03-01T09:00` or `2024-03-01T09:00:00.000`
+ */
+const LOCAL_DATE_TIME_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?$/;
+
+/**
+ * Check whether a value is an existing calendar date in `YYYY-MM-DD` format
+ *
+ * @param value - Value to check
+ * @returns True for date-only strings such as `2024-02-29`
+ */
+export function isDateOnly(value: unknown): value is DateOnly {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  const match = DATE_ONLY_PATTERN.exec(value);
+  if (!match) {
+    return false;
+  }
+  const [, year, month, day] = match.map(Number) as [number, number, number, number];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Check whether a string names an IANA time zone supported by the runtime
+ *
+ * @param timeZone - Time zone name, e.g. `Europe/Paris`
+ * @returns True when the time zone can be used for formatting
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse a Notion date string into the instant it describes
+ * Strings with an offset are absolute; calendar dates and local date-times are read in the
+ * given time zone, or in UTC without one
+ *
+ * @param value - ISO 8601 date string from Notion
+ * @param timeZone - Time zone of local date-times
+ * @returns Parsed date (invalid when the string can't be parsed)
+ */
+export function parseNotionDate(value: string, timeZone?: string | null): Date {
+  const local = DATE_ONLY_PATTERN.test(value) ? `${value}T00:00` : value;
+  const match = LOCAL_DATE_TIME_PATTERN.exec(local);
+  if (!match) {
+    return new Date(value);
+  }
+
+  const [year, month, day, hour, minute, second = '0', fraction = '0'] = match.slice(1) as [
+    string,
+    string,
+    string,
+    string,
+    string,
+    string?,
+    string?,
+  ];
+  const wallTime = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour),
+    Number(minute),
+    Number(second),
+    Number(fraction.padEnd(3, '0'))
+  );
+  if (!timeZone) {
+    return new Date(wallTime);
+  }
+
+  // The offset at the wall time can differ from the offset at the instant around DST changes
+  const guess = wallTime - getTimeZoneOffset(wallTime, timeZone);
+  return new Date(wallTime - getTimeZoneOffset(guess, timeZone));
+}
+
+/**
+ * Format an instant as the local date-time shown in a time zone, without an offset
+ *
+ * @param date - Instant to format
+ * @param timeZone - Time zone, e.g. `Europe/Paris`
+ * @returns Local date-time such as `2024-03-01T10:00:00.000`
+ */
+export function formatLocalDateTime(date: Date, timeZone: string): string {
+  const wallTime = new Date(date.getTime() + getTimeZoneOffset(date.getTime(), timeZone));
+  return wallTime.toISOString().slice(0, -1);
+}
+
+/**
+ * Format an instant as an ISO 8601 date-time with the offset of a time zone
+ *
+ * @param date - Instant to format
+ * @param timeZone - Time zone, e.g. `Europe/Paris`
+ * @returns Date-time such as `2024-03-01T10:00:00.000+01:00`
+ */
+export function formatZonedDateTime(date: Date, timeZone: string): string {
+  const offset = Math.round(getTimeZoneOffset(date.getTime(), timeZone) / 60_000);
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0');
+  const minutes = String(Math.abs(offset) % 60).padStart(2, '0');
+  return `${formatLocalDateTime(date, timeZone)}${offset < 0 ? '-' : '+'}${hours}:${minutes}`;
+}
+
+/**
+ * Get the offset of a time zone from UTC at an instant, in milliseconds
+ */
+function getTimeZoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find(candidate => candidate.type === type)?.value);
+
+  const wallTime = Date.UTC(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    part('hour'),
+    part('minute'),
+    part('second')
+  );
+  // Formatting drops milliseconds, so compare against the instant rounded down to the second
+  return wallTime - (instant - (((instant % 1000) + 1000) % 1000));
+}
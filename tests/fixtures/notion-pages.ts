@@ -0,0 +1,174 @@
+/**
+ * Raw Notion API fixtures for query and codec testing
+ *
+ * Provides page builders mirroring Notion API responses and a fake client
+ * that records requests instead of calling the network
+ */
+
+import { vi } from 'vitest';
+import type { NotionClient, NotionRequest } from '../../src/clients/notion-client.js';
+import type {
+  NotionDatabase,
+  NotionPage,
+  NotionPropertyValue,
+  NotionQueryResponse,
+  NotionRichText,
+} from '../../src/types/notion.js';
+
+// ============================================================================
+// RAW PROPERTY VALUE BUILDERS
+// ============================================================================
+
+/**
+ * Build a plain text rich text segment
+ */
+export function richText(content: string): NotionRichText {
+  return {
+    type: 'text',
+    plain_text: content,
+    text: { content, link: null },
+  };
+}
+
+/**
+ * Build a raw Notion page with the given properties
+ */
+export function buildPage(
+  id: string,
+  properties: Record<string, NotionPropertyValue>,
+  overrides: Partial<NotionPage> = {}
+): NotionPage {
+  return {
+    object: 'page',
+    id,
+    created_time: '2024-01-01T00:00:00.000Z',
+    last_edited_time: '2024-01-02T12:30:00.000Z',
+    archived: false,
+    properties,
+    ...overrides,
+  };
+}
+
+/**
+ * Build a single-page query response
+ */
+export function buildQueryResponse(
+  results: NotionPage[],
+  nextCursor: string | null = null
+): NotionQueryResponse {
+  return {
+    object: 'list',
+    results,
+    next_cursor: nextCursor,
+    has_more: nextCursor !== null,
+  };
+}
+
+// ============================================================================
+// RAW PAGE FIXTURES
+// ============================================================================
+
+/**
+ * Raw page matching the taskSchema fixture
+ */
+export const rawTaskPage = buildPage('task-page-1111', {
+  Title: { id: 'title', type: 'title', title: [richText('Write '), richText('docs')] },
+  Description: { id: 'desc', type: 'rich_text', rich_text: [] },
+  Status: {
+    id: 'stat',
+    type: 'select',
+    select: { id: 'opt1', name: 'In Progress', color: 'blue' },
+  },
+  Tags: {
+    id: 'tags',
+    type: 'multi_select',
+    multi_select: [
+      { id: 'opt2', name: 'Feature', color: 'green' },
+      { id: 'opt3', name: 'Documentation', color: 'gray' },
+    ],
+  },
+});
+
+/**
+ * Raw page matching the eventSchema fixture
+ */
+export const rawEventPage = buildPage('event-page-1111', {
+  EventName: { id: 'title', type: 'title', title: [richText('Launch')] },
+  StartDate: { id: 'start', type: 'date', date: { start: '2024-03-01T09:00:00.000Z' } },
+  EndDate: { id: 'end', type: 'date', date: null },
+  Organizers: {
+    id: 'org',
+    type: 'people',
+    people: [
+      { object: 'user', id: 'user-1', type: 'person', name: 'Alice', avatar_url: null },
+      { object: 'user', id: 'user-2' },
+    ],
+  },
+  RegistrationUrl: { id: 'url', type: 'url', url: 'https://example.com/register' },
+  ContactEmail: { id: 'mail', type: 'email', email: null },
+  Description: { id: 'desc', type: 'rich_text', rich_text: [richText('Product launch')] },
+  IsActive: { id: 'act', type: 'checkbox', checkbox: true },
+});
+
+// ============================================================================
+// RAW DATABASE FIXTURES
+// ============================================================================
+
+/**
+ * Raw database matching the taskSchema fixture
+ */
+export const rawTaskDatabase: NotionDatabase = {
+  object: 'database',
+  id: 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee',
+  title: [richText('Tasks')],
+  properties: {
+    Title: { id: 'title', name: 'Title', type: 'title', title: {} },
+    Description: { id: 'desc', name: 'Description', type: 'rich_text', rich_text: {} },
+    Status: {
+      id: 'stat',
+      name: 'Status',
+      type: 'select',
+      select: {
+        options: [
+          { id: 'opt0', name: 'Todo', color: 'gray' },
+          { id: 'opt1', name: 'In Progress', color: 'blue' },
+          { id: 'opt4', name: 'Done', color: 'green' },
+        ],
+      },
+    },
+    Tags: {
+      id: 'tags',
+      name: 'Tags',
+      type: 'multi_select',
+      multi_select: {
+        options: [
+          { id: 'opt5', name: 'Bug', color: 'red' },
+          { id: 'opt2', name: 'Feature', color: 'green' },
+          { id: 'opt6', name: 'Enhancement', color: 'purple' },
+          { id: 'opt3', name: 'Documentation', color: 'gray' },
+        ],
+      },
+    },
+  },
+};
+
+// ============================================================================
+// FAKE CLIENT
+// ============================================================================
+
+/**
+ * Create a fake Notion client that replies with the given responses in order
+ */
+export function createFakeClient(...responses: object[]) {
+  const requests: NotionRequest[] = [];
+  const request = vi.fn(async (args: NotionRequest) => {
+    requests.push(args);
+    const response = responses.shift();
+    if (!response) {
+      throw new Error(`Unexpected request: ${args.method} ${args.path}`);
+    }
+    return response;
+  });
+
+  return { client: { request } as unknown as NotionClient, requests, request };
+}
@@ -126,6 +126,107 @@ export const eventSchema = {
   },
 } as const satisfies SchemaDefinition;
 
+/**
+ * Schema with a grouped workflow status property
+ */
+export const ticketSchema = {
+  databaseId: 'cccccccc-1111-2222-3333-dddddddddddd',
+  properties: {
+    Title: { type: 'title' },
+    State: {
+      type: 'status',
+      options: ['Backlog', 'Doing', 'Review', 'Shipped', 'Dropped'] as const,
+      groups: {
+        'To-do': ['Backlog'] as const,
+        'In progress': ['Doing', 'Review'] as const,
+        Complete: ['Shipped', 'Dropped'] as const,
+      },
+    },
+  },
+} as const satisfies SchemaDefinition;
+
+/**
+ * Schema with read-only formula and rollup properties
+ */
+export const invoiceSchema = {
+  databaseId: 'dddddddd-1111-2222-3333-eeeeeeeeeeee',
+  properties: {
+    Title: { type: 'title' },
+    Amount: { type: 'number', format: 'dollar' },
+    Total: { type: 'formula', result: 'number' },
+    Overdue: { type: 'formula', result: 'boolean' },
+    LastPayment: { type: 'rollup', result: 'date' },
+    PaymentNotes: { type: 'rollup', result: 'array' },
+  },
+} as const satisfies SchemaDefinition;
+
+/**
+ * Schema with read-only system timestamp and audit properties
+ */
+export const documentSchema = {
+  databaseId: 'eeeeeeee-1111-2222-3333-ffffffffffff',
+  properties: {
+    Title: { type: 'title' },
+    Created: { type: 'created_time' },
+    Edited: { type: 'last_edited_time' },
+    Author: { type: 'created_by' },
+    Editor: { type: 'last_edited_by' },
+  },
+} as const satisfies SchemaDefinition;
+
+/**
+ * Schema with files, phone number and unique ID properties
+ */
+export const supportCaseSchema = {
+  databaseId: 'ffffffff-1111-2222-3333-aaaaaaaaaaaa',
+  properties: {
+    Subject: { type: 'title' },
+    Attachments: { type: 'files' },
+    CallbackNumber: { type: 'phone_number' },
+    CaseId: { type: 'unique_id', prefix: 'CASE' },
+  },
+} as const satisfies SchemaDefinition;
+
+/**
+ * Schema whose keys alias Notion columns named with emoji and punctuation
+ */
+export const launchSchema = {
+  databaseId: 'aaaaaaaa-1111-2222-3333-ffffffffffff',
+  properties: {
+    title: { type: 'title', name: '🚀 Launch' },
+    dueDate: { type: 'date', name: 'Due date (ETA)' },
+    stage: { type: 'select', name: 'Étape', options: ['Alpha', 'Beta', 'GA'] },
+    owners: { type: 'people', name: 'fG%3D' },
+    Notes: { type: 'rich_text' },
+  },
+} as const satisfies SchemaDefinition;
+
+// ============================================================================
+// RELATION SCHEMA FIXTURES
+// ============================================================================
+
+/**
+ * Schema referenced by relation properties
+ */
+export const relatedProjectSchema = {
+  databaseId: 'abcdefab-1234-5678-9abc-abcdefabcdef',
+  properties: {
+    Name: { type: 'title' },
+    Stage: { type: 'select', options: ['Planning', 'Active', 'Closed'] as const },
+  },
+} as const satisfies SchemaDefinition;
+
+/**
+ * Schema with relations given as a database ID
+ */
+export const milestoneSchema = {
+  databaseId: 'fedcbafe-4321-8765-cba9-fedcbafedcba',
+  properties: {
+    Title: { type: 'title' },
+    Project: { type: 'relation', target: 'abcdefab-1234-5678-9abc-abcdefabcdef' },
+  },
+} as const satisfies SchemaDefinition;
+
 // ============================================================================
 // INVALID SCHEMA FIXTURES (For Error Testing)
 // ============================================================================
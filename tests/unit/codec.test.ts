@@ -0,0 +1,160 @@
+/**
+ * Unit tests for the property value codec
+ *
+ * Tests conversion between raw Notion property values and plain values:
+ * - Decoding raw page properties into InferSchemaProperties
+ * - Encoding typed values into Notion request bodies
+ * - Round-tripping values through encode and decode
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  decodePageProperties,
+  decodePropertyValue,
+  encodePageProperties,
+  encodePropertyValue,
+} from '../../src/services/codec.js';
+import { PropertyAccessError, SchemaValidationError } from '../../src/errors/index.js';
+import type { PropertyDefinition } from '../../src/types/core.js';
+import { taskSchema, eventSchema, financialSchema } from '../fixtures/schemas.js';
+import { rawEventPage, rawTaskPage, richText } from '../fixtures/notion-pages.js';
+
+describe('Unit Tests: Property Codec', () => {
+  describe('Decoding', () => {
+    it('should decode a full page into plain property values', () => {
+      const props = decodePageProperties(taskSchema, rawTaskPage);
+
+      expect(props).toEqual({
+        Title: 'Write docs',
+        Description: null,
+        Status: 'In Progress',
+        Tags: ['Feature', 'Documentation'],
+      });
+    });
+
+    it('should decode empty values to null', () => {
+      expect(
+        decodePropertyValue('Count', { type: 'number' }, { type: 'number', number: null })
+      ).toBe(null);
+      expect(
+        decodePropertyValue(
+          'Status',
+          { type: 'select', options: ['A'] },
+          { type: 'select', select: null }
+        )
+      ).toBe(null);
+      expect(decodePropertyValue('Due', { type: 'date' }, { type: 'date', date: null })).toBe(null);
+    });
+
+    it('should keep empty multi-select and people values as arrays', () => {
+      expect(
+        decodePropertyValue(
+          'Tags',
+          { type: 'multi_select', options: ['A'] },
+          { type: 'multi_select', multi_select: [] }
+        )
+      ).toEqual([]);
+      expect(
+        decodePropertyValue('Owners', { type: 'people' }, { type: 'people', people: [] })
+      ).toEqual([]);
+    });
+
+    it('should throw when the raw value type does not match the definition', () => {
+      expect(() =>
+        decodePropertyValue('Title', { type: 'title' }, { type: 'rich_text', rich_text: [] })
+      ).toThrow(SchemaValidationError);
+      expect(() => decodePropertyValue('Title', { type: 'title' }, undefined)).toThrow(
+        SchemaValidationError
+      );
+    });
+  });
+
+  describe('Encoding', () => {
+    it('should encode text properties as rich text arrays', () => {
+      expect(encodePropertyValue({ type: 'title' }, 'Hello')).toEqual({
+        title: [{ type: 'text', text: { content: 'Hello' } }],
+      });
+      expect(encodePropertyValue({ type: 'rich_text' }, null)).toEqual({ rich_text: [] });
+    });
+
+    it('should split long text into 2000 character segments', () => {
+      const encoded = encodePropertyValue({ type: 'rich_text' }, 'a'.repeat(4500)) as unknown as {
+        rich_text: { text: { content: string } }[];
+      };
+
+      expect(encoded.rich_text.map(segment => segment.text.content.length)).toEqual([
+        2000, 2000, 500,
+      ]);
+    });
+
+    it('should not split emoji across segments', () => {
+      const text = `${'a'.repeat(1999)}🚀b`;
+      const encoded = encodePropertyValue({ type: 'rich_text' }, text) as unknown as {
+        rich_text: { text: { content: string } }[];
+      };
+
+      expect(encoded.rich_text.map(segment => segment.text.content)).toEqual([
+        'a'.repeat(1999),
+        '🚀b',
+      ]);
+    });
+
+    it('should encode scalar and selection properties', () => {
+      expect(encodePropertyValue({ type: 'number' }, 42)).toEqual({ number: 42 });
+      expect(encodePropertyValue({ type: 'checkbox' }, null)).toEqual({ checkbox: false });
+      expect(encodePropertyValue({ type: 'url' }, 'https://example.com')).toEqual({
+        url: 'https://example.com',
+      });
+      expect(encodePropertyValue({ type: 'email' }, null)).toEqual({ email: null });
+      expect(encodePropertyValue({ type: 'select', options: ['A', 'B'] }, 'B')).toEqual({
+        select: { name: 'B' },
+      });
+      expect(encodePropertyValue({ type: 'multi_select', options: ['A', 'B'] }, ['A'])).toEqual({
+        multi_select: [{ name: 'A' }],
+      });
+    });
+
+    it('should encode dates and people references', () => {
+      expect(encodePropertyValue({ type: 'date' }, new Date('2024-03-01T09:00:00.000Z'))).toEqual({
+        date: { start: '2024-03-01T09:00:00.000Z' },
+      });
+      expect(
+        encodePropertyValue({ type: 'people' }, [{ id: 'user-1', name: 'Alice', type: 'person' }])
+      ).toEqual({ people: [{ id: 'user-1' }] });
+    });
+
+    it('should encode a partial set of typed values', () => {
+      const values = { Name: 'Widget', Price: 9.99, Discount: undefined };
+      const properties = encodePageProperties(financialSchema, values as { Name: string });
+
+      expect(properties).toEqual({
+        Name: { title: [{ type: 'text', text: { content: 'Widget' } }] },
+        Price: { number: 9.99 },
+      });
+    });
+
+    it('should reject values for properties outside the schema', () => {
+      const values = { Name: 'Widget', Unknown: 1 } as unknown as { Name: string };
+
+      expect(() => encodePageProperties(financialSchema, values)).toThrow(PropertyAccessError);
+    });
+  });
+
+  describe('Round Trip', () => {
+    it('should decode encoded values back to the original values', () => {
+      const values = decodePageProperties(eventSchema, rawEventPage);
+      const encoded = encodePageProperties(eventSchema, values);
+
+      const definition: PropertyDefinition = { type: 'rich_text' };
+      expect(encoded.Description).toEqual(encodePropertyValue(definition, 'Product launch'));
+      expect(encoded.StartDate).toEqual({ date: { start: '2024-03-01T09:00:00.000Z' } });
+      expect(encoded.Organizers).toEqual({ people: [{ id: 'user-1' }, { id: 'user-2' }] });
+      expect(
+        decodePropertyValue('Description', definition, {
+          type: 'rich_text',
+          rich_text: [richText('Product launch')],
+        })
+      ).toBe(values.Description);
+    });
+  });
+});
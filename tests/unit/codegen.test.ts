@@ -0,0 +1,208 @@
+/**
+ * Unit tests for schema module generation and the generate CLI command
+ *
+ * Tests code generation from introspected databases:
+ * - Module source with the `as const` schema, row type and header
+ * - Naming, key quoting and string escaping
+ * - The `typed-notion generate` command writing one module per database
+ */
+
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import ts from 'typescript';
+import { generateSchemaModule, generateSchemaModules } from '../../src/codegen/index.js';
+import { runCli, type CliContext } from '../../src/cli/index.js';
+import { toIntrospectionResult } from '../../src/services/index.js';
+import { createTypedSchema } from '../../src/schema/index.js';
+import type { IntrospectionResult } from '../../src/services/index.js';
+import { createFakeClient, rawTaskDatabase } from '../fixtures/notion-pages.js';
+
+const generatedAt = new Date('2024-05-01T08:00:00.000Z');
+
+describe('Unit Tests: Schema Code Generation', () => {
+  describe('generateSchemaModule', () => {
+    it('should render an as-const schema module with its row type', () => {
+      const module = generateSchemaModule(toIntrospectionResult(rawTaskDatabase), {
+        generatedAt,
+      });
+
+      expect(module.fileName).toBe('tasks.ts');
+      expect(module.schemaName).toBe('tasksSchema');
+      expect(module.rowTypeName).toBe('TasksRow');
+      expect(module.source).toBe(
+        [
+          '/**',
+          ' * Tasks schema',
+          ' *',
+          ' * Generated by `typed-notion generate` from database aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee',
+          ' * Generated at 2024-05-01T08:00:00.000Z',
+          ' * Do not edit by hand; re-run the generator to update',
+          ' */',
+          '',
+          "import { createTypedSchema, type InferSchemaProperties } from 'typed-notion';",
+          '',
+          'export const tasksSchema = createTypedSchema({',
+          "  databaseId: 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee',",
+          '  properties: {',
+          "    Title: { type: 'title' },",
+          "    Description: { type: 'rich_text' },",
+          "    Status: { type: 'select', options: ['Todo', 'In Progress', 'Done'] },",
+          "    Tags: { type: 'multi_select', options: ['Bug', 'Feature', 'Enhancement', 'Documentation'] },",
+          '  },',
+          '} as const);',
+          '',
+          'export type TasksRow = InferSchemaProperties<typeof tasksSchema.definition>;',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should quote keys, escape strings and list skipped properties', () => {
+      const result: IntrospectionResult = {
+        title: "2024 Bugs & Q's",
+        definition: {
+          databaseId: '12345678-1234-5678-9abc-123456789abc',
+          properties: {
+            Name: { type: 'title' },
+            'Fix Version': { type: 'select', options: ["it's done", 'line\nbreak'] },
+          },
+        },
+        unsupported: [{ name: 'Total', type: 'formula', reason: 'No result */ type' }],
+      };
+
+      const module = generateSchemaModule(result, { generatedAt, importFrom: '../lib/index.js' });
+
+      expect(module.fileName).toBe('2024-bugs-q-s.ts');
+      expect(module.schemaName).toBe('database2024BugsQSSchema');
+      expect(module.source).toContain(' * - Total (formula): No result *\\/ type\n');
+      expect(module.source).toContain("from '../lib/index.js';");
+      expect(module.source).toContain(
+        "    'Fix Version': { type: 'select', options: ['it\\'s done', 'line\\nbreak'] },"
+      );
+
+      const { diagnostics } = ts.transpileModule(module.source, { reportDiagnostics: true });
+      expect(diagnostics).toEqual([]);
+    });
+
+    it('should introspect each database in order', async () => {
+      const { client, requests } = createFakeClient(rawTaskDatabase, {
+        ...rawTaskDatabase,
+        id: 'ffffffff-eeee-dddd-cccc-bbbbbbbbbbbb',
+        title: [],
+      });
+
+      const modules = await generateSchemaModules(client, ['tasks-id', 'untitled-id']);
+
+      expect(requests.map(request => request.path)).toEqual([
+        'databases/tasks-id',
+        'databases/untitled-id',
+      ]);
+      expect(modules.map(module => module.fileName)).toEqual(['tasks.ts', 'database.ts']);
+    });
+
+    it('should raise the property limit for wide databases', () => {
+      const properties = Object.fromEntries(
+        Array.from({ length: 24 }, (_, index) => [`Field ${index}`, { type: 'number' } as const])
+      );
+      const definition = {
+        databaseId: rawTaskDatabase.id,
+        properties: { Name: { type: 'title' }, ...properties },
+      } as const;
+
+      const module = generateSchemaModule({ title: 'Metrics', definition, unsupported: [] });
+
+      expect(module.source).toContain('} as const, { validation: { maxProperties: 25 } });');
+      expect(() =>
+        createTypedSchema(definition, { validation: { maxProperties: 25 } })
+      ).not.toThrow();
+    });
+
+    it('should number file names of databases with the same title', async () => {
+      const { client } = createFakeClient(rawTaskDatabase, {
+        ...rawTaskDatabase,
+        id: 'ffffffff-eeee-dddd-cccc-bbbbbbbbbbbb',
+      });
+
+      const modules = await generateSchemaModules(client, ['tasks-id', 'other-tasks-id']);
+
+      expect(modules.map(module => module.fileName)).toEqual(['tasks.ts', 'tasks-2.ts']);
+    });
+  });
+
+  describe('typed-notion generate', () => {
+    let outDir: string;
+    let stdout: string[];
+    let stderr: string[];
+
+    beforeEach(async () => {
+      outDir = await mkdtemp(join(tmpdir(), 'typed-notion-'));
+      stdout = [];
+      stderr = [];
+    });
+
+    afterEach(async () => {
+      await rm(outDir, { recursive: true, force: true });
+    });
+
+    function createContext(overrides: Partial<CliContext> = {}): CliContext {
+      return {
+        env: {},
+        now: generatedAt,
+        stdout: text => stdout.push(text),
+        stderr: text => stderr.push(text),
+        ...overrides,
+      };
+    }
+
+    it('should write one module per database', async () => {
+      const { client } = createFakeClient(rawTaskDatabase);
+
+      const exitCode = await runCli(
+        ['generate', rawTaskDatabase.id, '--out', outDir],
+        createContext({ client })
+      );
+
+      const path = join(outDir, 'tasks.ts');
+      expect(exitCode).toBe(0);
+      expect(await readFile(path, 'utf8')).toBe(
+        generateSchemaModule(toIntrospectionResult(rawTaskDatabase), { generatedAt }).source
+      );
+      expect(stdout).toEqual([`Wrote ${path} (tasksSchema, TasksRow)\n`]);
+      expect(stderr).toEqual([]);
+    });
+
+    it('should warn about skipped properties', async () => {
+      const { client } = createFakeClient({
+        ...rawTaskDatabase,
+        properties: {
+          ...rawTaskDatabase.properties,
+          Approve: { id: 'b', name: 'Approve', type: 'button', button: {} },
+        },
+      });
+
+      const exitCode = await runCli(['generate', 'db', '-o', outDir], createContext({ client }));
+
+      expect(exitCode).toBe(0);
+      expect(stderr).toEqual([
+        "warning: tasks.ts: 'Approve' (button): Notion property type 'button' is not supported\n",
+      ]);
+    });
+
+    it('should require a token when no client is given', async () => {
+      const exitCode = await runCli(['generate', 'db', '--out', outDir], createContext());
+
+      expect(exitCode).toBe(1);
+      expect(stderr).toEqual(['error: NOTION_TOKEN environment variable is required\n']);
+    });
+
+    it('should print usage for unknown commands and --help', async () => {
+      expect(await runCli(['sync'], createContext())).toBe(1);
+      expect(stderr[0]).toContain('Usage: typed-notion generate');
+
+      expect(await runCli(['--help'], createContext())).toBe(0);
+      expect(stdout[0]).toContain('Usage: typed-notion generate');
+    });
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Unit tests for formula and rollup properties
+ *
+ * Tests read-only computed property behavior:
+ * - Definition validation of declared result types in both validation paths
+ * - Type inference from the declared result type
+ * - Decoding of computed values and result type mismatches
+ * - Rejection in create/update payloads at compile time and runtime
+ * - Filters nested under the declared result type
+ */
+
+import { describe, it, expect } from 'vitest';
+import { expectTypeOf } from 'expect-type';
+import { createTypedSchema, isValidPropertyDefinition } from '../../src/schema/index.js';
+import { validatePropertyStructure, validatePropertyValue } from '../../src/schema/validator.js';
+import {
+  compileFilter,
+  createPage,
+  decodePageProperties,
+  encodePropertyValue,
+} from '../../src/services/index.js';
+import { PropertyValidationError, SchemaValidationError } from '../../src/errors/index.js';
+import type {
+  InferSchemaProperties,
+  InferWritableProperties,
+  NotionPropertyValue,
+  QueryFilter,
+} from '../../src/types/index.js';
+import { getPropertyCategory, isReadOnlyProperty } from '../../src/types/index.js';
+import { invoiceSchema } from '../fixtures/schemas.js';
+import { buildPage, createFakeClient, richText } from '../fixtures/notion-pages.js';
+
+const rawInvoicePage = buildPage('invoice-page-1111', {
+  Title: { type: 'title', title: [richText('INV-1')] },
+  Amount: { type: 'number', number: 1200 },
+  Total: { type: 'formula', formula: { type: 'number', number: 1440 } },
+  Overdue: { type: 'formula', formula: { type: 'boolean', boolean: false } },
+  LastPayment: {
+    type: 'rollup',
+    rollup: { type: 'date', date: { start: '2024-03-01' }, function: 'latest_date' },
+  },
+  PaymentNotes: {
+    type: 'rollup',
+    rollup: {
+      type: 'array',
+      array: [{ type: 'rich_text', rich_text: [richText('Paid by card')] }],
+      function: 'show_original',
+    },
+  },
+});
+
+describe('Unit Tests: Formula and Rollup Properties', () => {
+  describe('Definition Validation', () => {
+    it('should accept declared result types', () => {
+      for (const definition of Object.values(invoiceSchema.properties)) {
+        expect(validatePropertyStructure('Computed', definition)).toEqual([]);
+        expect(isValidPropertyDefinition(definition)).toBe(true);
+      }
+      expect(() => createTypedSchema(invoiceSchema)).not.toThrow();
+    });
+
+    it('should reject missing or unsupported result types', () => {
+      const invalidDefinitions = [
+        { type: 'formula' },
+        { type: 'formula', result: 'array' },
+        { type: 'rollup', result: 'string' },
+      ];
+
+      for (const definition of invalidDefinitions) {
+        expect(validatePropertyStructure('Computed', definition)).toHaveLength(1);
+        expect(isValidPropertyDefinition(definition)).toBe(false);
+      }
+    });
+
+    it('should categorize computed properties as read-only', () => {
+      const { Total, LastPayment, Amount } = invoiceSchema.properties;
+
+      expect(isReadOnlyProperty(Total)).toBe(true);
+      expect(isReadOnlyProperty(LastPayment)).toBe(true);
+      expect(isReadOnlyProperty(Amount)).toBe(false);
+      expect(getPropertyCategory(Total)).toBe('computed');
+    });
+  });
+
+  describe('Type Inference', () => {
+    it('should infer values from the declared result type', () => {
+      type Props = InferSchemaProperties<typeof invoiceSchema>;
+
+      expectTypeOf<Props['Total']>().toEqualTypeOf<number | null>();
+      expectTypeOf<Props['Overdue']>().toEqualTypeOf<boolean | null>();
+      expectTypeOf<Props['LastPayment']>().toEqualTypeOf<Date | null>();
+      expectTypeOf<Props['PaymentNotes']>().toEqualTypeOf<NotionPropertyValue[] | null>();
+    });
+
+    it('should omit read-only properties from writable properties', () => {
+      type Writable = InferWritableProperties<typeof invoiceSchema>;
+
+      expectTypeOf<keyof Writable>().toEqualTypeOf<'Title' | 'Amount'>();
+    });
+  });
+
+  describe('Value Validation', () => {
+    it('should check values against the declared result type', () => {
+      const { Total, LastPayment } = invoiceSchema.properties;
+
+      expect(() => validatePropertyValue(12, Total, 'Total')).not.toThrow();
+      expect(() => validatePropertyValue('12', Total, 'Total')).toThrow(PropertyValidationError);
+      expect(() => validatePropertyValue(new Date(), LastPayment, 'LastPayment')).not.toThrow();
+
+      const validator = createTypedSchema(invoiceSchema).createPropertyValidator();
+      expect(validator('Overdue', true)).toBe(true);
+      expect(validator('PaymentNotes', 'note')).toBe(false);
+    });
+  });
+
+  describe('Decoding', () => {
+    it('should decode computed values', () => {
+      const props = decodePageProperties(invoiceSchema, rawInvoicePage);
+
+      expect(props.Total).toBe(1440);
+      expect(props.Overdue).toBe(false);
+      expect(props.LastPayment).toEqual(new Date('2024-03-01'));
+      expect(props.PaymentNotes).toEqual([
+        { type: 'rich_text', rich_text: [richText('Paid by card')] },
+      ]);
+    });
+
+    it('should reject results that differ from the declared result type', () => {
+      const page = buildPage('invoice-page-2222', {
+        ...rawInvoicePage.properties,
+        Total: { type: 'formula', formula: { type: 'string', string: '1440' } },
+      });
+
+      expect(() => decodePageProperties(invoiceSchema, page)).toThrow(SchemaValidationError);
+    });
+  });
+
+  describe('Writes', () => {
+    it('should not encode read-only property types', () => {
+      expect(() => encodePropertyValue(invoiceSchema.properties.Total, 5)).toThrow(
+        SchemaValidationError
+      );
+    });
+
+    it('should reject read-only values before sending a request', async () => {
+      const schema = createTypedSchema(invoiceSchema);
+      const { client, requests } = createFakeClient(rawInvoicePage);
+
+      await expect(
+        // @ts-expect-error - formula properties are not writable
+        createPage(client, schema, { Title: 'INV-2', Total: 5 })
+      ).rejects.toThrow(SchemaValidationError);
+      expect(requests).toEqual([]);
+    });
+  });
+
+  describe('Filters', () => {
+    it('should nest conditions under the declared result type', () => {
+      const schema = createTypedSchema(invoiceSchema);
+
+      expect(compileFilter(schema, { Total: { greater_than: 1000 } })).toEqual({
+        property: 'Total',
+        formula: { number: { greater_than: 1000 } },
+      });
+      expect(compileFilter(schema, { Overdue: { equals: true } })).toEqual({
+        property: 'Overdue',
+        formula: { checkbox: { equals: true } },
+      });
+      expect(compileFilter(schema, { LastPayment: { past_month: true } })).toEqual({
+        property: 'LastPayment',
+        rollup: { date: { past_month: {} } },
+      });
+    });
+
+    it('should reject operators not supported by the result type', () => {
+      const schema = createTypedSchema(invoiceSchema);
+      const filter = { Total: { contains: 'x' } } as unknown as QueryFilter<typeof invoiceSchema>;
+      const arrayFilter = { PaymentNotes: { is_empty: true } } as unknown as QueryFilter<
+        typeof invoiceSchema
+      >;
+
+      expect(() => compileFilter(schema, filter)).toThrow(SchemaValidationError);
+      expect(() => compileFilter(schema, arrayFilter)).toThrow(SchemaValidationError);
+    });
+  });
+});
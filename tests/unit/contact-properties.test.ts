@@ -447,7 +447,9 @@ describe('Unit Tests: Contact Properties', () => {
       expect(() => validatePropertyValue(null, urlProperty, 'URL')).not.toThrow();
 
       // Date edge cases
-      expect(() => validatePropertyValue(new Date('invalid'), dateProperty, 'Date')).not.toThrow(); // Invalid dates are still Date objects
+      expect(() => validatePropertyValue(new Date('invalid'), dateProperty, 'Date')).toThrow(
+        "Invalid value for property 'Date': expected valid Date, received object"
+      );
       expect(() => validatePropertyValue(new Date(0), dateProperty, 'Date')).not.toThrow(); // Unix epoch
 
       // URL with various protocols (only http/https should be valid)
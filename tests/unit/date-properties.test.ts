@@ -0,0 +1,252 @@
+/**
+ * Unit tests for date property options
+ *
+ * Tests the range, includeTime and timeZone options of date properties:
+ * - Inferred value types
+ * - Definition and value validation
+ * - Encoding and decoding Notion date strings without day shifts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { expectTypeOf } from 'expect-type';
+import { validateSchemaStructure } from '../../src/schema/index.js';
+import { validatePropertyValue } from '../../src/schema/validator.js';
+import { decodePropertyValue, encodePropertyValue } from '../../src/services/codec.js';
+import { diffSchemas } from '../../src/services/index.js';
+import { PropertyValidationError } from '../../src/errors/index.js';
+import type {
+  DateOnly,
+  InferSchemaProperties,
+  PropertyDefinition,
+  SchemaDefinition,
+} from '../../src/types/index.js';
+import type { NotionDate } from '../../src/types/notion.js';
+
+/**
+ * Booking database covering every combination of date options
+ */
+const bookingSchema = {
+  databaseId: 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee',
+  properties: {
+    Guest: { type: 'title' },
+    Created: { type: 'date' },
+    Birthday: { type: 'date', includeTime: false },
+    Stay: { type: 'date', range: true, includeTime: false },
+    Slot: { type: 'date', range: true },
+    CheckIn: { type: 'date', includeTime: true, timeZone: 'Europe/Paris' },
+  },
+} as const satisfies SchemaDefinition;
+
+const { properties } = bookingSchema;
+
+/**
+ * Decode a raw Notion date for a date property definition
+ */
+function decode(definition: PropertyDefinition, date: NotionDate | null): unknown {
+  return decodePropertyValue('Date', definition, { type: 'date', date });
+}
+
+describe('Unit Tests: Date Properties', () => {
+  describe('Type inference', () => {
+    it('should infer the value shape from the date options', () => {
+      type Props = InferSchemaProperties<typeof bookingSchema>;
+
+      expectTypeOf<Props['Created']>().toEqualTypeOf<Date | null>();
+      expectTypeOf<Props['Birthday']>().toEqualTypeOf<DateOnly | null>();
+      expectTypeOf<Props['Stay']>().toEqualTypeOf<{
+        start: DateOnly;
+        end: DateOnly | null;
+      } | null>();
+      expectTypeOf<Props['Slot']>().toEqualTypeOf<{ start: Date; end: Date | null } | null>();
+      expectTypeOf<Props['CheckIn']>().toEqualTypeOf<Date | null>();
+    });
+  });
+
+  describe('Validation', () => {
+    it('should accept values matching the date options', () => {
+      const valid: [keyof typeof properties, unknown][] = [
+        ['Birthday', '2024-02-29'],
+        ['Stay', { start: '2024-07-01', end: null }],
+        ['Stay', { start: '2024-07-01', end: '2024-07-01' }],
+        [
+          'Slot',
+          { start: new Date('2024-07-01T09:00:00Z'), end: new Date('2024-07-01T10:00:00Z') },
+        ],
+        ['CheckIn', new Date('2024-07-01T13:00:00Z')],
+      ];
+
+      for (const [name, value] of valid) {
+        expect(() => validatePropertyValue(value, properties[name], name)).not.toThrow();
+      }
+    });
+
+    it('should reject values of the wrong shape', () => {
+      expect(() => validatePropertyValue(new Date(), properties.Birthday, 'Birthday')).toThrow(
+        "Invalid value for property 'Birthday': expected date string (YYYY-MM-DD), received object"
+      );
+      expect(() => validatePropertyValue('2023-02-29', properties.Birthday, 'Birthday')).toThrow(
+        PropertyValidationError
+      );
+      expect(() => validatePropertyValue(new Date(), properties.Slot, 'Slot')).toThrow(
+        "Invalid value for property 'Slot': expected { start: Date; end: Date | null }, received object"
+      );
+      expect(() => validatePropertyValue({ start: '2024-07-01' }, properties.Stay, 'Stay')).toThrow(
+        PropertyValidationError
+      );
+    });
+
+    it('should reject ranges ending before they start', () => {
+      expect(() =>
+        validatePropertyValue({ start: '2024-07-05', end: '2024-07-01' }, properties.Stay, 'Stay')
+      ).toThrow(
+        "Invalid value for property 'Stay': expected date range ending on or after its start, received object"
+      );
+    });
+
+    it('should reject invalid date options', () => {
+      const definition = {
+        databaseId: bookingSchema.databaseId,
+        properties: {
+          Guest: { type: 'title' },
+          Stay: { type: 'date', range: 'yes' },
+          Arrival: { type: 'date', timeZone: 'Mars/Olympus' },
+          Birthday: { type: 'date', includeTime: false, timeZone: 'Europe/Paris' },
+        },
+      } as unknown as SchemaDefinition;
+
+      expect(validateSchemaStructure(definition).issues).toEqual([
+        {
+          path: 'properties.Stay.range',
+          code: 'invalid_date_options',
+          message: "Date option 'range' must be a boolean",
+        },
+        {
+          path: 'properties.Arrival.timeZone',
+          code: 'invalid_date_options',
+          message: "Date option 'timeZone' must be an IANA time zone",
+        },
+        {
+          path: 'properties.Birthday.timeZone',
+          code: 'invalid_date_options',
+          message: "Date option 'timeZone' requires date-times, but includeTime is false",
+        },
+      ]);
+    });
+  });
+
+  describe('Calendar dates', () => {
+    it('should decode the date as written, whatever its offset', () => {
+      expect(decode(properties.Birthday, { start: '2024-03-01' })).toBe('2024-03-01');
+      expect(decode(properties.Birthday, { start: '2024-03-01T23:30:00.000-05:00' })).toBe(
+        '2024-03-01'
+      );
+      expect(decode(properties.Birthday, { start: '2024-03-01T00:30:00.000+09:00' })).toBe(
+        '2024-03-01'
+      );
+    });
+
+    it('should encode the date without a time', () => {
+      expect(encodePropertyValue(properties.Birthday, '2024-03-01')).toEqual({
+        date: { start: '2024-03-01' },
+      });
+    });
+
+    it('should round-trip calendar date ranges', () => {
+      const stay = { start: '2024-07-01', end: '2024-07-05' } as const;
+      const encoded = encodePropertyValue(properties.Stay, stay);
+
+      expect(encoded).toEqual({ date: { start: '2024-07-01', end: '2024-07-05' } });
+      expect(decode(properties.Stay, { start: '2024-07-01', end: '2024-07-05' })).toEqual(stay);
+      expect(decode(properties.Stay, { start: '2024-07-01', end: null })).toEqual({
+        start: '2024-07-01',
+        end: null,
+      });
+    });
+  });
+
+  describe('Date-times', () => {
+    it('should keep encoding plain dates as UTC instants', () => {
+      const created = new Date('2024-03-01T09:00:00.000Z');
+
+      expect(encodePropertyValue(properties.Created, created)).toEqual({
+        date: { start: '2024-03-01T09:00:00.000Z' },
+      });
+      expect(decode(properties.Created, { start: '2024-03-01T10:00:00.000+01:00' })).toEqual(
+        created
+      );
+    });
+
+    it('should decode ranges of date-times', () => {
+      expect(
+        decode(properties.Slot, {
+          start: '2024-07-01T09:00:00.000Z',
+          end: '2024-07-01T10:00:00.000Z',
+        })
+      ).toEqual({
+        start: new Date('2024-07-01T09:00:00.000Z'),
+        end: new Date('2024-07-01T10:00:00.000Z'),
+      });
+    });
+
+    it('should write local times in the declared time zone', () => {
+      expect(encodePropertyValue(properties.CheckIn, new Date('2024-01-15T13:00:00Z'))).toEqual({
+        date: { start: '2024-01-15T14:00:00.000', time_zone: 'Europe/Paris' },
+      });
+      // Summer time
+      expect(encodePropertyValue(properties.CheckIn, new Date('2024-07-01T13:00:00Z'))).toEqual({
+        date: { start: '2024-07-01T15:00:00.000', time_zone: 'Europe/Paris' },
+      });
+    });
+
+    it('should write calendar dates without the declared time zone', () => {
+      const arrival: PropertyDefinition = { type: 'date', timeZone: 'Europe/Paris' };
+
+      expect(encodePropertyValue(arrival, '2024-07-01')).toEqual({
+        date: { start: '2024-07-01' },
+      });
+    });
+
+    it('should read local times in the returned or declared time zone', () => {
+      const checkIn = new Date('2024-07-01T13:00:00.000Z');
+
+      expect(
+        decode(properties.CheckIn, { start: '2024-07-01T15:00:00.000', time_zone: 'Europe/Paris' })
+      ).toEqual(checkIn);
+      expect(decode(properties.CheckIn, { start: '2024-07-01T15:00:00.000' })).toEqual(checkIn);
+      expect(
+        decode(properties.CheckIn, {
+          start: '2024-07-01T09:00:00.000',
+          time_zone: 'America/New_York',
+        })
+      ).toEqual(checkIn);
+      expect(decode(properties.CheckIn, { start: '2024-07-01T13:00:00.000Z' })).toEqual(checkIn);
+    });
+
+    it('should round-trip across daylight saving changes', () => {
+      for (const instant of ['2024-03-31T00:30:00.000Z', '2024-10-27T01:30:00.000Z']) {
+        const date = new Date(instant);
+        const encoded = encodePropertyValue(properties.CheckIn, date) as { date: NotionDate };
+
+        expect(decode(properties.CheckIn, encoded.date)).toEqual(date);
+      }
+    });
+  });
+
+  describe('Schema tooling', () => {
+    it('should not treat date options as a Notion schema change', () => {
+      const plain = {
+        databaseId: bookingSchema.databaseId,
+        properties: {
+          Guest: { type: 'title' },
+          Created: { type: 'date' },
+          Birthday: { type: 'date' },
+          Stay: { type: 'date' },
+          Slot: { type: 'date' },
+          CheckIn: { type: 'date' },
+        },
+      } as const satisfies SchemaDefinition;
+
+      expect(diffSchemas(bookingSchema, plain).changes).toEqual([]);
+    });
+  });
+});
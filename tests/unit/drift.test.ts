@@ -0,0 +1,164 @@
+/**
+ * Unit tests for schema drift detection
+ *
+ * Tests comparing schemas against the live database:
+ * - No drift when the database matches the definition
+ * - Missing properties, type changes, option changes and format changes
+ * - Strict mode throwing SchemaValidationError with the diff in context
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createTypedSchema } from '../../src/schema/index.js';
+import { diffDatabaseSchema } from '../../src/services/index.js';
+import { SchemaValidationError } from '../../src/errors/index.js';
+import type { NotionDatabase } from '../../src/types/index.js';
+import { financialSchema, taskSchema } from '../fixtures/schemas.js';
+import { createFakeClient, rawTaskDatabase } from '../fixtures/notion-pages.js';
+
+/**
+ * Raw task database after edits made in Notion:
+ * Description renamed, Status options edited and Tags turned into a select
+ */
+const driftedTaskDatabase: NotionDatabase = {
+  ...rawTaskDatabase,
+  properties: {
+    Title: rawTaskDatabase.properties.Title!,
+    Summary: { id: 'desc', name: 'Summary', type: 'rich_text', rich_text: {} },
+    Status: {
+      id: 'stat',
+      name: 'Status',
+      type: 'select',
+      select: {
+        options: [
+          { id: 'opt0', name: 'Todo' },
+          { id: 'opt1', name: 'Doing' },
+          { id: 'opt4', name: 'Done' },
+          { id: 'opt7', name: 'Blocked' },
+        ],
+      },
+    },
+    Tags: { id: 'tags', name: 'Tags', type: 'select', select: { options: [] } },
+  },
+};
+
+describe('Unit Tests: Schema Drift Detection', () => {
+  it('should report no drift for a matching database', async () => {
+    const schema = createTypedSchema(taskSchema);
+    const { client, requests } = createFakeClient(rawTaskDatabase);
+
+    const drift = await schema.checkDrift(client);
+
+    expect(requests).toEqual([{ path: `databases/${taskSchema.databaseId}`, method: 'get' }]);
+    expect(drift).toEqual({
+      databaseId: taskSchema.databaseId,
+      hasDrift: false,
+      missingProperties: [],
+      typeChanges: [],
+      optionChanges: [],
+      formatChanges: [],
+    });
+  });
+
+  it('should report missing properties, type changes and option changes', async () => {
+    const schema = createTypedSchema(taskSchema);
+    const { client } = createFakeClient(driftedTaskDatabase);
+
+    const drift = await schema.checkDrift(client);
+
+    expect(drift).toEqual({
+      databaseId: taskSchema.databaseId,
+      hasDrift: true,
+      missingProperties: ['Description'],
+      typeChanges: [{ property: 'Tags', expected: 'multi_select', actual: 'select' }],
+      optionChanges: [
+        { property: 'Status', added: ['Doing', 'Blocked'], removed: ['In Progress'] },
+      ],
+      formatChanges: [],
+    });
+  });
+
+  it('should report number format changes', () => {
+    const database: NotionDatabase = {
+      object: 'database',
+      id: financialSchema.databaseId,
+      properties: {
+        Name: { id: 'title', name: 'Name', type: 'title', title: {} },
+        Price: { id: 'p', name: 'Price', type: 'number', number: { format: 'euro' } },
+        Discount: { id: 'd', name: 'Discount', type: 'number', number: { format: 'percent' } },
+        Quantity: { id: 'q', name: 'Quantity', type: 'number', number: {} },
+      },
+    };
+
+    const drift = diffDatabaseSchema(financialSchema, database);
+
+    expect(drift.formatChanges).toEqual([
+      { property: 'Price', expected: 'dollar', actual: 'euro' },
+    ]);
+    expect(drift.hasDrift).toBe(true);
+  });
+
+  it('should accept every Notion number format and ignore unknown ones', () => {
+    const database: NotionDatabase = {
+      object: 'database',
+      id: financialSchema.databaseId,
+      properties: {
+        Name: { id: 'title', name: 'Name', type: 'title', title: {} },
+        Price: { id: 'p', name: 'Price', type: 'number', number: { format: 'euro' } },
+        Fee: { id: 'f', name: 'Fee', type: 'number', number: { format: 'galactic_credit' } },
+      },
+    };
+    const definition = {
+      databaseId: financialSchema.databaseId,
+      properties: {
+        Name: { type: 'title' },
+        Price: { type: 'number', format: 'euro' },
+        Fee: { type: 'number' },
+      },
+    } as const;
+
+    expect(diffDatabaseSchema(definition, database).hasDrift).toBe(false);
+  });
+
+  it('should throw in strict mode with an issue per difference', async () => {
+    const schema = createTypedSchema(taskSchema);
+    const { client } = createFakeClient(driftedTaskDatabase);
+
+    const error = await schema.checkDrift(client, { strict: true }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error.context.received).toMatchObject({
+      hasDrift: true,
+      missingProperties: ['Description'],
+    });
+    expect(error.issues).toEqual([
+      {
+        path: 'properties.Description',
+        code: 'missing_property',
+        message: "Property 'Description' not found in the database",
+      },
+      {
+        path: 'properties.Tags.type',
+        code: 'type_changed',
+        message: "Property 'Tags' is select in the database, expected multi_select",
+      },
+      {
+        path: 'properties.Status.options',
+        code: 'options_changed',
+        message:
+          "Property 'Status' options differ from the database: added [Doing, Blocked], removed [In Progress]",
+      },
+    ]);
+    expect(error.message).toMatch(
+      /^Invalid schema: properties\.Description: Property 'Description' not found/
+    );
+  });
+
+  it('should not throw in strict mode without drift', async () => {
+    const schema = createTypedSchema(taskSchema);
+    const { client } = createFakeClient(rawTaskDatabase);
+
+    await expect(schema.checkDrift(client, { strict: true })).resolves.toMatchObject({
+      hasDrift: false,
+    });
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Unit tests for files, phone_number and unique_id properties
+ *
+ * Tests the additional Notion property types:
+ * - Definition validation in both validation paths
+ * - Type inference of file objects, phone strings and unique IDs
+ * - Value validation of files, E.164-ish phone numbers and unique IDs
+ * - Decoding, encoding and filters
+ */
+
+import { describe, it, expect } from 'vitest';
+import { expectTypeOf } from 'expect-type';
+import { createTypedSchema, isValidPropertyDefinition } from '../../src/schema/index.js';
+import { validatePropertyStructure, validatePropertyValue } from '../../src/schema/validator.js';
+import {
+  compileFilter,
+  decodePageProperties,
+  encodePageProperties,
+} from '../../src/services/index.js';
+import { PropertyValidationError, SchemaValidationError } from '../../src/errors/index.js';
+import type {
+  InferSchemaProperties,
+  InferWritableProperties,
+  NotionFile,
+  UniqueId,
+} from '../../src/types/index.js';
+import { isContactProperty, isReadOnlyProperty } from '../../src/types/index.js';
+import { supportCaseSchema } from '../fixtures/schemas.js';
+import { buildPage, richText } from '../fixtures/notion-pages.js';
+
+const { Attachments, CallbackNumber, CaseId } = supportCaseSchema.properties;
+
+const rawSupportCasePage = buildPage('case-page-1111', {
+  Subject: { type: 'title', title: [richText('Printer on fire')] },
+  Attachments: {
+    type: 'files',
+    files: [
+      {
+        name: 'photo.png',
+        type: 'file',
+        file: {
+          url: 'https://files.example.com/photo.png',
+          expiry_time: '2024-01-01T01:00:00.000Z',
+        },
+      },
+      { name: 'manual', type: 'external', external: { url: 'https://example.com/manual.pdf' } },
+    ],
+  },
+  CallbackNumber: { type: 'phone_number', phone_number: '+1 (555) 010-0199' },
+  CaseId: { type: 'unique_id', unique_id: { prefix: 'CASE', number: 42 } },
+});
+
+describe('Unit Tests: Files, Phone Number and Unique ID Properties', () => {
+  describe('Definition Validation', () => {
+    it('should accept the property definitions', () => {
+      for (const definition of [Attachments, CallbackNumber, CaseId, { type: 'unique_id' }]) {
+        expect(validatePropertyStructure('Extra', definition)).toEqual([]);
+        expect(isValidPropertyDefinition(definition)).toBe(true);
+      }
+      expect(() => createTypedSchema(supportCaseSchema)).not.toThrow();
+    });
+
+    it('should reject empty unique ID prefixes', () => {
+      const definition = { type: 'unique_id', prefix: '' };
+
+      expect(validatePropertyStructure('CaseId', definition)).toEqual([
+        "Property 'CaseId': Unique ID prefix must be a non-empty string",
+      ]);
+      expect(isValidPropertyDefinition(definition)).toBe(false);
+    });
+
+    it('should treat unique IDs as read-only and phone numbers as contacts', () => {
+      expect(isReadOnlyProperty(CaseId)).toBe(true);
+      expect(isReadOnlyProperty(Attachments)).toBe(false);
+      expect(isContactProperty(CallbackNumber)).toBe(true);
+    });
+  });
+
+  describe('Type Inference', () => {
+    it('should infer file objects, phone strings and unique IDs', () => {
+      type Props = InferSchemaProperties<typeof supportCaseSchema>;
+
+      expectTypeOf<Props['Attachments']>().toEqualTypeOf<NotionFile[] | null>();
+      expectTypeOf<Props['CallbackNumber']>().toEqualTypeOf<string | null>();
+      expectTypeOf<Props['CaseId']>().toEqualTypeOf<UniqueId | null>();
+      expectTypeOf<keyof InferWritableProperties<typeof supportCaseSchema>>().toEqualTypeOf<
+        'Subject' | 'Attachments' | 'CallbackNumber'
+      >();
+    });
+  });
+
+  describe('Value Validation', () => {
+    it('should accept E.164-ish phone numbers', () => {
+      const validNumbers = ['+14155552671', '+44 20 7946 0958', '(555) 010-0199', '555.010.0199'];
+      const invalidNumbers = ['12345', 'call me', '+0 123 456 789', '+1234567890123456'];
+
+      for (const value of validNumbers) {
+        expect(() => validatePropertyValue(value, CallbackNumber, 'CallbackNumber')).not.toThrow();
+      }
+      for (const value of invalidNumbers) {
+        expect(() => validatePropertyValue(value, CallbackNumber, 'CallbackNumber')).toThrow(
+          PropertyValidationError
+        );
+      }
+    });
+
+    it('should validate file objects', () => {
+      const file: NotionFile = { name: 'spec.pdf', url: 'https://example.com/spec.pdf' };
+
+      expect(() => validatePropertyValue([file], Attachments, 'Attachments')).not.toThrow();
+      expect(() =>
+        validatePropertyValue([{ ...file, url: 'ftp://example.com' }], Attachments, 'Attachments')
+      ).toThrow(PropertyValidationError);
+      expect(() =>
+        validatePropertyValue([{ ...file, expiry_time: 'soon' }], Attachments, 'Attachments')
+      ).toThrow(PropertyValidationError);
+    });
+
+    it('should validate unique IDs', () => {
+      expect(() =>
+        validatePropertyValue({ prefix: null, number: 7 }, CaseId, 'CaseId')
+      ).not.toThrow();
+      expect(() =>
+        validatePropertyValue({ prefix: 'CASE', number: 1.5 }, CaseId, 'CaseId')
+      ).toThrow(PropertyValidationError);
+
+      const validator = createTypedSchema(supportCaseSchema).createPropertyValidator();
+      expect(validator('CaseId', { prefix: 'CASE', number: 42 })).toBe(true);
+      expect(validator('CaseId', 'CASE-42')).toBe(false);
+      expect(validator('CallbackNumber', '+14155552671')).toBe(true);
+      expect(validator('Attachments', [{ name: 'a', url: 'not a url' }])).toBe(false);
+    });
+  });
+
+  describe('Codec', () => {
+    it('should decode files, phone numbers and unique IDs', () => {
+      const props = decodePageProperties(supportCaseSchema, rawSupportCasePage);
+
+      expect(props.Attachments).toEqual([
+        {
+          name: 'photo.png',
+          url: 'https://files.example.com/photo.png',
+          expiry_time: new Date('2024-01-01T01:00:00.000Z'),
+        },
+        { name: 'manual', url: 'https://example.com/manual.pdf' },
+      ]);
+      expect(props.CallbackNumber).toBe('+1 (555) 010-0199');
+      expect(props.CaseId).toEqual({ prefix: 'CASE', number: 42 });
+    });
+
+    it('should encode files as external files', () => {
+      expect(
+        encodePageProperties(supportCaseSchema, {
+          Attachments: [{ name: 'manual', url: 'https://example.com/manual.pdf' }],
+          CallbackNumber: null,
+        })
+      ).toEqual({
+        Attachments: {
+          files: [
+            {
+              name: 'manual',
+              type: 'external',
+              external: { url: 'https://example.com/manual.pdf' },
+            },
+          ],
+        },
+        CallbackNumber: { phone_number: null },
+      });
+    });
+
+    it('should reject Notion-hosted files instead of linking their temporary URLs', () => {
+      const { Attachments } = decodePageProperties(supportCaseSchema, rawSupportCasePage);
+
+      expect(() => encodePageProperties(supportCaseSchema, { Attachments })).toThrow(
+        "Invalid value for property 'Attachments': expected external file, received Notion-hosted file 'photo.png'"
+      );
+    });
+  });
+
+  describe('Filters', () => {
+    it('should compile filters for each type', () => {
+      const schema = createTypedSchema(supportCaseSchema);
+
+      expect(compileFilter(schema, { Attachments: { is_not_empty: true } })).toEqual({
+        property: 'Attachments',
+        files: { is_not_empty: true },
+      });
+      expect(compileFilter(schema, { CallbackNumber: { starts_with: '+44' } })).toEqual({
+        property: 'CallbackNumber',
+        phone_number: { starts_with: '+44' },
+      });
+      expect(compileFilter(schema, { CaseId: { greater_than: 40 } })).toEqual({
+        property: 'CaseId',
+        unique_id: { greater_than: 40 },
+      });
+    });
+
+    it('should reject unsupported operators', () => {
+      const schema = createTypedSchema(supportCaseSchema);
+      const filter = { Attachments: { contains: 'photo' } } as unknown as Parameters<
+        typeof compileFilter<typeof supportCaseSchema>
+      >[1];
+
+      expect(() => compileFilter(schema, filter)).toThrow(SchemaValidationError);
+    });
+  });
+});
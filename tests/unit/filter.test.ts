@@ -0,0 +1,206 @@
+/**
+ * Unit tests for the schema-aware filter builder
+ *
+ * Tests compilation of the filter DSL into Notion filter JSON:
+ * - Property conditions per property type
+ * - Compound and/or groups
+ * - Runtime rejection of unknown properties, operators and options
+ * - Compile-time operator and operand typing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { expectTypeOf } from 'expect-type';
+import { createTypedSchema } from '../../src/schema/index.js';
+import { compileFilter } from '../../src/services/index.js';
+import {
+  PropertyAccessError,
+  PropertyValidationError,
+  SchemaValidationError,
+  SelectionValidationError,
+} from '../../src/errors/index.js';
+import type { FilterCondition, QueryFilter } from '../../src/types/index.js';
+import { taskSchema, eventSchema, financialSchema } from '../fixtures/schemas.js';
+
+describe('Unit Tests: Filter Builder', () => {
+  describe('Property Conditions', () => {
+    it('should compile a select condition', () => {
+      const schema = createTypedSchema(taskSchema);
+
+      expect(compileFilter(schema, { Status: { equals: 'Done' } })).toEqual({
+        property: 'Status',
+        select: { equals: 'Done' },
+      });
+    });
+
+    it('should compile multi-select, text and emptiness conditions', () => {
+      const schema = createTypedSchema(taskSchema);
+
+      expect(compileFilter(schema, { Tags: { contains: 'Bug' } })).toEqual({
+        property: 'Tags',
+        multi_select: { contains: 'Bug' },
+      });
+      expect(compileFilter(schema, { Title: { starts_with: 'Fix' } })).toEqual({
+        property: 'Title',
+        title: { starts_with: 'Fix' },
+      });
+      expect(compileFilter(schema, { Description: { is_empty: true } })).toEqual({
+        property: 'Description',
+        rich_text: { is_empty: true },
+      });
+    });
+
+    it('should compile number conditions', () => {
+      const schema = createTypedSchema(financialSchema);
+
+      expect(compileFilter(schema, { Price: { greater_than_or_equal_to: 10 } })).toEqual({
+        property: 'Price',
+        number: { greater_than_or_equal_to: 10 },
+      });
+    });
+
+    it('should compile date conditions to ISO strings', () => {
+      const schema = createTypedSchema(eventSchema);
+
+      expect(
+        compileFilter(schema, { StartDate: { after: new Date('2024-03-01T00:00:00Z') } })
+      ).toEqual({ property: 'StartDate', date: { after: '2024-03-01T00:00:00.000Z' } });
+      expect(compileFilter(schema, { StartDate: { next_week: true } })).toEqual({
+        property: 'StartDate',
+        date: { next_week: {} },
+      });
+    });
+
+    it('should send calendar dates as written', () => {
+      const schema = createTypedSchema(eventSchema);
+
+      expect(compileFilter(schema, { StartDate: { equals: '2024-03-01' } })).toEqual({
+        property: 'StartDate',
+        date: { equals: '2024-03-01' },
+      });
+    });
+
+    it('should write date-times in the time zone of the property', () => {
+      const schema = createTypedSchema({
+        databaseId: eventSchema.databaseId,
+        properties: {
+          EventName: { type: 'title' },
+          Doors: { type: 'date', timeZone: 'Asia/Tokyo' },
+        },
+      } as const);
+
+      expect(compileFilter(schema, { Doors: { after: new Date('2024-02-29T15:00:00Z') } })).toEqual(
+        { property: 'Doors', date: { after: '2024-03-01T00:00:00.000+09:00' } }
+      );
+    });
+
+    it('should compile checkbox and people conditions', () => {
+      const schema = createTypedSchema(eventSchema);
+
+      expect(compileFilter(schema, { IsActive: { equals: true } })).toEqual({
+        property: 'IsActive',
+        checkbox: { equals: true },
+      });
+      expect(compileFilter(schema, { Organizers: { contains: 'user-1' } })).toEqual({
+        property: 'Organizers',
+        people: { contains: 'user-1' },
+      });
+    });
+  });
+
+  describe('Compound Filters', () => {
+    it('should combine multiple properties in one object with and', () => {
+      const schema = createTypedSchema(taskSchema);
+
+      expect(
+        compileFilter(schema, { Status: { equals: 'Todo' }, Tags: { does_not_contain: 'Bug' } })
+      ).toEqual({
+        and: [
+          { property: 'Status', select: { equals: 'Todo' } },
+          { property: 'Tags', multi_select: { does_not_contain: 'Bug' } },
+        ],
+      });
+    });
+
+    it('should compile nested and/or groups', () => {
+      const schema = createTypedSchema(taskSchema);
+
+      expect(
+        compileFilter(schema, {
+          or: [
+            { Status: { equals: 'Done' } },
+            { and: [{ Tags: { contains: 'Bug' } }, { Title: { contains: 'login' } }] },
+          ],
+        })
+      ).toEqual({
+        or: [
+          { property: 'Status', select: { equals: 'Done' } },
+          {
+            and: [
+              { property: 'Tags', multi_select: { contains: 'Bug' } },
+              { property: 'Title', title: { contains: 'login' } },
+            ],
+          },
+        ],
+      });
+    });
+  });
+
+  describe('Runtime Validation', () => {
+    it('should reject properties not defined in the schema', () => {
+      const schema = createTypedSchema(taskSchema);
+      const filter = { Owner: { equals: 'Alice' } } as QueryFilter<typeof taskSchema>;
+
+      expect(() => compileFilter(schema, filter)).toThrow(PropertyAccessError);
+    });
+
+    it('should reject operators not supported by the property type', () => {
+      const schema = createTypedSchema(taskSchema);
+      const filter = { Status: { before: new Date() } } as unknown as QueryFilter<
+        typeof taskSchema
+      >;
+
+      expect(() => compileFilter(schema, filter)).toThrow(SchemaValidationError);
+    });
+
+    it('should reject selection operands outside the declared options', () => {
+      const schema = createTypedSchema(taskSchema);
+      const filter = { Status: { equals: 'Doing' } } as unknown as QueryFilter<typeof taskSchema>;
+
+      expect(() => compileFilter(schema, filter)).toThrow(SelectionValidationError);
+    });
+
+    it('should reject operands of the wrong type', () => {
+      const schema = createTypedSchema(eventSchema);
+      const filter = { StartDate: { before: 'January 1st' } } as unknown as QueryFilter<
+        typeof eventSchema
+      >;
+
+      expect(() => compileFilter(schema, filter)).toThrow(PropertyValidationError);
+    });
+  });
+
+  describe('Type Inference', () => {
+    it('should restrict select operands to declared options', () => {
+      type StatusCondition = FilterCondition<(typeof taskSchema)['properties']['Status']>;
+
+      expectTypeOf<{ equals: 'Done' }>().toMatchTypeOf<StatusCondition>();
+      expectTypeOf<{ equals: 'Doing' }>().not.toMatchTypeOf<StatusCondition>();
+      expectTypeOf<{ before: Date }>().not.toMatchTypeOf<StatusCondition>();
+    });
+
+    it('should only allow date operators on date properties', () => {
+      type StartCondition = FilterCondition<(typeof eventSchema)['properties']['StartDate']>;
+      type NameCondition = FilterCondition<(typeof eventSchema)['properties']['EventName']>;
+
+      expectTypeOf<{ before: Date }>().toMatchTypeOf<StartCondition>();
+      expectTypeOf<{ before: Date }>().not.toMatchTypeOf<NameCondition>();
+    });
+
+    it('should key filters by schema property names', () => {
+      type TaskFilter = QueryFilter<typeof taskSchema>;
+
+      expectTypeOf<{ Tags: { contains: 'Bug' } }>().toMatchTypeOf<TaskFilter>();
+      expectTypeOf<{ Tags: { contains: 'Urgent' } }>().not.toMatchTypeOf<TaskFilter>();
+    });
+  });
+});
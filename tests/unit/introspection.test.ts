@@ -0,0 +1,175 @@
+/**
+ * Unit tests for database schema introspection
+ *
+ * Tests generating schema definitions from live databases:
+ * - Retrieval through the database endpoint
+ * - Mapping of every supported Notion property schema
+ * - Reporting of properties the library cannot represent
+ * - Aliasing of Notion names that aren't valid schema keys
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createTypedSchema } from '../../src/schema/index.js';
+import {
+  diffDatabaseSchema,
+  introspectSchema,
+  toIntrospectionResult,
+} from '../../src/services/index.js';
+import type { NotionDatabase } from '../../src/types/index.js';
+import { taskSchema } from '../fixtures/schemas.js';
+import { createFakeClient, rawTaskDatabase } from '../fixtures/notion-pages.js';
+
+/**
+ * Build a raw database with the given property schemas
+ */
+function buildDatabase(properties: NotionDatabase['properties']): NotionDatabase {
+  return {
+    object: 'database',
+    id: '12345678-1234-5678-9abc-123456789abc',
+    properties: {
+      Name: { id: 'title', name: 'Name', type: 'title', title: {} },
+      ...properties,
+    },
+  };
+}
+
+describe('Unit Tests: Schema Introspection', () => {
+  it('should retrieve the database and map it to a schema definition', async () => {
+    const { client, requests } = createFakeClient(rawTaskDatabase);
+
+    const { definition, unsupported } = await introspectSchema(client, taskSchema.databaseId);
+
+    expect(requests).toEqual([{ path: `databases/${taskSchema.databaseId}`, method: 'get' }]);
+    expect(definition).toEqual(taskSchema);
+    expect(unsupported).toEqual([]);
+    expect(() => createTypedSchema(definition)).not.toThrow();
+  });
+
+  it('should map configured property types', () => {
+    const database = buildDatabase({
+      Price: { id: 'p', name: 'Price', type: 'number', number: { format: 'dollar' } },
+      Score: { id: 's', name: 'Score', type: 'number', number: { format: 'number_with_commas' } },
+      State: {
+        id: 'st',
+        name: 'State',
+        type: 'status',
+        status: {
+          options: [
+            { id: 'a', name: 'Not started' },
+            { id: 'b', name: 'Doing' },
+            { id: 'c', name: 'Done' },
+          ],
+          groups: [
+            { name: 'To-do', option_ids: ['a'] },
+            { name: 'In progress', option_ids: ['b'] },
+            { name: 'Complete', option_ids: ['c'] },
+          ],
+        },
+      },
+      Project: {
+        id: 'r',
+        name: 'Project',
+        type: 'relation',
+        relation: { database_id: 'abcdefab-1234-5678-9abc-abcdefabcdef', type: 'single_property' },
+      },
+      Spent: { id: 'ro', name: 'Spent', type: 'rollup', rollup: { function: 'sum' } },
+      LastLog: { id: 'rd', name: 'LastLog', type: 'rollup', rollup: { function: 'latest_date' } },
+      Logs: { id: 'ra', name: 'Logs', type: 'rollup', rollup: { function: 'show_original' } },
+      Ticket: { id: 'u', name: 'Ticket', type: 'unique_id', unique_id: { prefix: 'TCK' } },
+      Phone: { id: 'ph', name: 'Phone', type: 'phone_number', phone_number: {} },
+      Created: { id: 'ct', name: 'Created', type: 'created_time', created_time: {} },
+    });
+
+    const { definition, unsupported } = toIntrospectionResult(database);
+
+    expect(unsupported).toEqual([]);
+    expect(definition.properties).toEqual({
+      Name: { type: 'title' },
+      Price: { type: 'number', format: 'dollar' },
+      Score: { type: 'number', format: 'number_with_commas' },
+      State: {
+        type: 'status',
+        options: ['Not started', 'Doing', 'Done'],
+        groups: { 'To-do': ['Not started'], 'In progress': ['Doing'], Complete: ['Done'] },
+      },
+      Project: { type: 'relation', target: 'abcdefab-1234-5678-9abc-abcdefabcdef' },
+      Spent: { type: 'rollup', result: 'number' },
+      LastLog: { type: 'rollup', result: 'date' },
+      Logs: { type: 'rollup', result: 'array' },
+      Ticket: { type: 'unique_id', prefix: 'TCK' },
+      Phone: { type: 'phone_number' },
+      Created: { type: 'created_time' },
+    });
+    expect(() => createTypedSchema(definition)).not.toThrow();
+  });
+
+  it('should report properties that cannot be represented', () => {
+    const database = buildDatabase({
+      Total: { id: 'f', name: 'Total', type: 'formula', formula: { expression: '1 + 1' } },
+      Approve: { id: 'b', name: 'Approve', type: 'button', button: {} },
+      Labels: { id: 'l', name: 'Labels', type: 'select', select: { options: [] } },
+    });
+
+    const { definition, unsupported } = toIntrospectionResult(database);
+
+    expect(Object.keys(definition.properties)).toEqual(['Name']);
+    expect(unsupported).toEqual([
+      {
+        name: 'Total',
+        type: 'formula',
+        reason: 'Formula result type cannot be determined from the database schema',
+      },
+      { name: 'Approve', type: 'button', reason: "Notion property type 'button' is not supported" },
+      {
+        name: 'Labels',
+        type: 'select',
+        reason: 'Selection properties without options cannot be represented',
+      },
+    ]);
+    expect(() => createTypedSchema(definition)).not.toThrow();
+  });
+
+  it('should keep number formats and report the ones it cannot represent', () => {
+    const database = buildDatabase({
+      Price: { id: 'p', name: 'Price', type: 'number', number: { format: 'euro' } },
+      Fee: { id: 'f', name: 'Fee', type: 'number', number: { format: 'galactic_credit' } },
+    });
+
+    const { definition, unsupported } = toIntrospectionResult(database);
+
+    expect(definition.properties).toEqual({
+      Name: { type: 'title' },
+      Price: { type: 'number', format: 'euro' },
+      Fee: { type: 'number' },
+    });
+    expect(unsupported).toEqual([
+      {
+        name: 'Fee',
+        type: 'number',
+        reason: "Number format 'galactic_credit' is not supported; typed as a plain number",
+      },
+    ]);
+    expect(diffDatabaseSchema(definition, database).hasDrift).toBe(false);
+  });
+
+  it('should alias properties whose Notion names are not valid schema keys', () => {
+    const database = buildDatabase({
+      'Due date?': { id: 'd', name: 'Due date?', type: 'date', date: {} },
+      '🚀 Priorité': { id: 'p', name: '🚀 Priorité', type: 'checkbox', checkbox: {} },
+      '2024 Budget': { id: 'b', name: '2024 Budget', type: 'number', number: {} },
+      dueDate: { id: 'x', name: 'dueDate', type: 'url', url: {} },
+    });
+
+    const { definition, unsupported } = toIntrospectionResult(database);
+
+    expect(unsupported).toEqual([]);
+    expect(definition.properties).toEqual({
+      Name: { type: 'title' },
+      dueDate2: { type: 'date', name: 'Due date?' },
+      priorite: { type: 'checkbox', name: '🚀 Priorité' },
+      property2024Budget: { type: 'number', name: '2024 Budget' },
+      dueDate: { type: 'url' },
+    });
+    expect(() => createTypedSchema(definition)).not.toThrow();
+  });
+});
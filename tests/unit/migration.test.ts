@@ -0,0 +1,254 @@
+/**
+ * Unit tests for schema diffs and migration plans
+ *
+ * Tests comparing schema definition versions:
+ * - Added, removed, renamed and type-changed properties
+ * - Option and configuration changes
+ * - Database update requests planned from the diff
+ * - Applying a plan in order
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyMigration, diffSchemas, planMigration } from '../../src/services/index.js';
+import type { SchemaDefinition } from '../../src/types/index.js';
+import { relatedProjectSchema, taskSchema, ticketSchema } from '../fixtures/schemas.js';
+import { createFakeClient } from '../fixtures/notion-pages.js';
+
+const nextTaskSchema = {
+  databaseId: taskSchema.databaseId,
+  properties: {
+    Title: { type: 'title' },
+    Summary: { type: 'rich_text' },
+    Status: { type: 'select', options: ['Todo', 'In Progress', 'Blocked', 'Done'] },
+    Tags: { type: 'rich_text' },
+    Estimate: { type: 'number', format: 'number' },
+  },
+} as const satisfies SchemaDefinition;
+
+const renames = { Description: 'Summary' };
+
+describe('Unit Tests: Schema Migrations', () => {
+  describe('diffSchemas', () => {
+    it('should report no changes for identical definitions', () => {
+      expect(diffSchemas(taskSchema, taskSchema)).toEqual({
+        databaseId: taskSchema.databaseId,
+        changes: [],
+      });
+    });
+
+    it('should report typed change records', () => {
+      const { changes } = diffSchemas(taskSchema, nextTaskSchema, { renames });
+
+      expect(changes).toEqual([
+        {
+          kind: 'property_renamed',
+          property: 'Summary',
+          from: 'Description',
+          to: 'Summary',
+          definition: { type: 'rich_text' },
+        },
+        {
+          kind: 'options_changed',
+          property: 'Status',
+          added: ['Blocked'],
+          removed: [],
+          definition: nextTaskSchema.properties.Status,
+        },
+        {
+          kind: 'type_changed',
+          property: 'Tags',
+          from: taskSchema.properties.Tags,
+          to: { type: 'rich_text' },
+        },
+        {
+          kind: 'property_added',
+          property: 'Estimate',
+          definition: { type: 'number', format: 'number' },
+        },
+      ]);
+    });
+
+    it('should report removals and configuration changes', () => {
+      const oldDefinition: SchemaDefinition = {
+        databaseId: taskSchema.databaseId,
+        properties: {
+          Title: { type: 'title' },
+          Price: { type: 'number', format: 'dollar' },
+          Project: { type: 'relation', target: relatedProjectSchema.databaseId },
+          Notes: { type: 'rich_text' },
+        },
+      };
+      const newDefinition: SchemaDefinition = {
+        databaseId: taskSchema.databaseId,
+        properties: {
+          Title: { type: 'title' },
+          Price: { type: 'number', format: 'percent' },
+          Project: {
+            type: 'relation',
+            target: {
+              databaseId: relatedProjectSchema.databaseId,
+              definition: relatedProjectSchema,
+            },
+          },
+        },
+      };
+
+      expect(diffSchemas(oldDefinition, newDefinition).changes).toEqual([
+        {
+          kind: 'configuration_changed',
+          property: 'Price',
+          from: { type: 'number', format: 'dollar' },
+          to: { type: 'number', format: 'percent' },
+        },
+        { kind: 'property_removed', property: 'Notes', definition: { type: 'rich_text' } },
+      ]);
+    });
+
+    it('should match properties by Notion name rather than schema key', () => {
+      const oldDefinition: SchemaDefinition = {
+        databaseId: taskSchema.databaseId,
+        properties: { Title: { type: 'title' }, Due: { type: 'date' } },
+      };
+      const newDefinition: SchemaDefinition = {
+        databaseId: taskSchema.databaseId,
+        properties: {
+          title: { type: 'title', name: 'Title' },
+          dueDate: { type: 'date', name: 'Due' },
+        },
+      };
+
+      const diff = diffSchemas(oldDefinition, newDefinition);
+
+      expect(diff.changes).toEqual([]);
+      expect(planMigration(diff).steps).toEqual([]);
+    });
+
+    it('should not guess renames from identical definitions', () => {
+      const { changes } = diffSchemas(taskSchema, nextTaskSchema);
+
+      expect(changes.map(change => change.kind)).toEqual([
+        'property_removed',
+        'options_changed',
+        'type_changed',
+        'property_added',
+        'property_added',
+      ]);
+      expect(
+        planMigration({ databaseId: taskSchema.databaseId, changes }).steps[0]?.request.body
+      ).toEqual({ properties: { Description: null } });
+    });
+
+    it('should match properties by pinned ID before Notion name', () => {
+      const oldDefinition: SchemaDefinition = {
+        databaseId: taskSchema.databaseId,
+        properties: {
+          Title: { type: 'title' },
+          Due: { type: 'date', id: 'due' },
+          Notes: { type: 'rich_text', id: 'nts' },
+        },
+      };
+      const newDefinition: SchemaDefinition = {
+        databaseId: taskSchema.databaseId,
+        properties: {
+          Title: { type: 'title' },
+          Deadline: { type: 'date', id: 'due' },
+          Notes: { type: 'rich_text', id: 'new' },
+        },
+      };
+
+      const { changes } = diffSchemas(oldDefinition, newDefinition);
+
+      expect(changes.map(change => change.kind)).toEqual([
+        'property_renamed',
+        'property_removed',
+        'property_added',
+      ]);
+      expect(
+        planMigration({ databaseId: taskSchema.databaseId, changes: changes.slice(0, 1) }).steps[0]
+          ?.request.body
+      ).toEqual({
+        properties: { due: { name: 'Deadline' } },
+      });
+    });
+  });
+
+  describe('planMigration', () => {
+    it('should turn changes into database update requests', () => {
+      const plan = planMigration(diffSchemas(taskSchema, nextTaskSchema, { renames }));
+      const path = `databases/${taskSchema.databaseId}`;
+
+      expect(plan.manual).toEqual([]);
+      expect(plan.steps.map(step => step.request)).toEqual([
+        { path, method: 'patch', body: { properties: { Description: { name: 'Summary' } } } },
+        {
+          path,
+          method: 'patch',
+          body: {
+            properties: {
+              Status: {
+                select: {
+                  options: [
+                    { name: 'Todo' },
+                    { name: 'In Progress' },
+                    { name: 'Blocked' },
+                    { name: 'Done' },
+                  ],
+                },
+              },
+            },
+          },
+        },
+        { path, method: 'patch', body: { properties: { Tags: { rich_text: {} } } } },
+        {
+          path,
+          method: 'patch',
+          body: { properties: { Estimate: { number: { format: 'number' } } } },
+        },
+      ]);
+    });
+
+    it('should plan removals and list changes the API cannot make', () => {
+      const newTicketSchema: SchemaDefinition = {
+        databaseId: ticketSchema.databaseId,
+        properties: {
+          Title: { type: 'title' },
+          State: { ...ticketSchema.properties.State, options: ['Backlog', 'Doing'] },
+          Total: { type: 'formula', result: 'number' },
+        },
+      };
+
+      const plan = planMigration(diffSchemas(ticketSchema, newTicketSchema));
+
+      expect(plan.steps).toEqual([]);
+      expect(plan.manual.map(step => [step.change.kind, step.reason])).toEqual([
+        [
+          'options_changed',
+          'Status properties cannot be created or updated through the Notion API',
+        ],
+        ['property_added', 'Formula expressions are not part of the schema definition'],
+      ]);
+
+      const removal = planMigration(
+        diffSchemas(nextTaskSchema, { ...nextTaskSchema, properties: { Title: { type: 'title' } } })
+      );
+      expect(removal.steps.map(step => step.request.body)).toEqual([
+        { properties: { Summary: null } },
+        { properties: { Status: null } },
+        { properties: { Tags: null } },
+        { properties: { Estimate: null } },
+      ]);
+    });
+  });
+
+  describe('applyMigration', () => {
+    it('should send every planned request in order', async () => {
+      const plan = planMigration(diffSchemas(taskSchema, nextTaskSchema, { renames }));
+      const responses = plan.steps.map(() => ({ object: 'database' }));
+      const { client, requests } = createFakeClient(...responses);
+
+      await applyMigration(client, plan);
+
+      expect(requests).toEqual(plan.steps.map(step => step.request));
+    });
+  });
+});
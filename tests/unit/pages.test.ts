@@ -0,0 +1,128 @@
+/**
+ * Unit tests for typed page write operations
+ *
+ * Tests create, update and archive against a fake Notion client:
+ * - Request construction with encoded property values
+ * - Validation of values before any request is sent
+ * - Decoding of the returned page
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createTypedSchema } from '../../src/schema/index.js';
+import { createPage, updatePage, archivePage } from '../../src/services/index.js';
+import {
+  PropertyAccessError,
+  PropertyValidationError,
+  SelectionValidationError,
+} from '../../src/errors/index.js';
+import { taskSchema } from '../fixtures/schemas.js';
+import { createFakeClient, rawTaskPage } from '../fixtures/notion-pages.js';
+
+describe('Unit Tests: Page Operations', () => {
+  describe('createPage', () => {
+    it('should create a page in the schema database', async () => {
+      const schema = createTypedSchema(taskSchema);
+      const { client, requests } = createFakeClient(rawTaskPage);
+
+      const result = await createPage(client, schema, {
+        Title: 'Write docs',
+        Status: 'In Progress',
+        Tags: ['Feature'],
+      });
+
+      expect(requests).toEqual([
+        {
+          path: 'pages',
+          method: 'post',
+          body: {
+            parent: { database_id: taskSchema.databaseId },
+            properties: {
+              Title: { title: [{ type: 'text', text: { content: 'Write docs' } }] },
+              Status: { select: { name: 'In Progress' } },
+              Tags: { multi_select: [{ name: 'Feature' }] },
+            },
+          },
+        },
+      ]);
+      expect(result.id).toBe('task-page-1111');
+      expect(result.props.Status).toBe('In Progress');
+    });
+
+    it('should reject misspelled select options before calling Notion', async () => {
+      const schema = createTypedSchema(taskSchema);
+      const { client, request } = createFakeClient(rawTaskPage);
+
+      await expect(
+        createPage(client, schema, { Status: 'Doing' as unknown as 'Done' })
+      ).rejects.toThrow(SelectionValidationError);
+      expect(request).not.toHaveBeenCalled();
+    });
+
+    it('should reject values of the wrong type before calling Notion', async () => {
+      const schema = createTypedSchema(taskSchema);
+      const { client, request } = createFakeClient(rawTaskPage);
+
+      await expect(createPage(client, schema, { Title: 42 as unknown as string })).rejects.toThrow(
+        PropertyValidationError
+      );
+      expect(request).not.toHaveBeenCalled();
+    });
+
+    it('should reject properties not defined in the schema', async () => {
+      const schema = createTypedSchema(taskSchema);
+      const { client, request } = createFakeClient(rawTaskPage);
+      const values = { Title: 'Task', Owner: 'Alice' } as unknown as { Title: string };
+
+      await expect(createPage(client, schema, values)).rejects.toThrow(PropertyAccessError);
+      expect(request).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updatePage', () => {
+    it('should patch only the given properties', async () => {
+      const schema = createTypedSchema(taskSchema);
+      const { client, requests } = createFakeClient(rawTaskPage);
+
+      await updatePage(client, schema, 'task-page-1111', { Status: 'Done', Description: null });
+
+      expect(requests).toEqual([
+        {
+          path: 'pages/task-page-1111',
+          method: 'patch',
+          body: {
+            properties: {
+              Status: { select: { name: 'Done' } },
+              Description: { rich_text: [] },
+            },
+          },
+        },
+      ]);
+    });
+
+    it('should reject invalid multi-select options', async () => {
+      const schema = createTypedSchema(taskSchema);
+      const { client, request } = createFakeClient(rawTaskPage);
+
+      await expect(
+        updatePage(client, schema, 'task-page-1111', {
+          Tags: ['Bug', 'Urgent'] as unknown as ['Bug'],
+        })
+      ).rejects.toThrow(SelectionValidationError);
+      expect(request).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('archivePage', () => {
+    it('should archive the page', async () => {
+      const schema = createTypedSchema(taskSchema);
+      const { client, requests } = createFakeClient({ ...rawTaskPage, archived: true });
+
+      const result = await archivePage(client, schema, 'task-page-1111');
+
+      expect(requests).toEqual([
+        { path: 'pages/task-page-1111', method: 'patch', body: { archived: true } },
+      ]);
+      expect(result.id).toBe('task-page-1111');
+    });
+  });
+});
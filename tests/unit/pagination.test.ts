@@ -0,0 +1,114 @@
+/**
+ * Unit tests for automatic query pagination
+ *
+ * Tests cursor handling against a fake Notion client:
+ * - Page-level iteration following next_cursor
+ * - Result-level iteration across pages
+ * - Collecting with a limit stops further requests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createTypedSchema } from '../../src/schema/index.js';
+import { collect, queryPages } from '../../src/services/index.js';
+import { taskSchema } from '../fixtures/schemas.js';
+import {
+  buildPage,
+  buildQueryResponse,
+  createFakeClient,
+  rawTaskPage,
+} from '../fixtures/notion-pages.js';
+
+const pageWithId = (id: string) => buildPage(id, rawTaskPage.properties);
+
+describe('Unit Tests: Pagination', () => {
+  describe('queryPages', () => {
+    it('should follow next_cursor until the last page', async () => {
+      const schema = createTypedSchema(taskSchema);
+      const { client, requests } = createFakeClient(
+        buildQueryResponse([pageWithId('p1'), pageWithId('p2')], 'cursor-2'),
+        buildQueryResponse([pageWithId('p3')])
+      );
+
+      const pages = await collect(queryPages(client, schema, { page_size: 2 }));
+
+      expect(pages.map(page => page.results.map(result => result.id))).toEqual([
+        ['p1', 'p2'],
+        ['p3'],
+      ]);
+      expect(pages.map(page => page.nextCursor)).toEqual(['cursor-2', null]);
+      expect(requests.map(request => request.body)).toEqual([
+        { page_size: 2 },
+        { page_size: 2, start_cursor: 'cursor-2' },
+      ]);
+    });
+
+    it('should resume from the given start cursor', async () => {
+      const schema = createTypedSchema(taskSchema);
+      const { client, requests } = createFakeClient(buildQueryResponse([pageWithId('p9')]));
+
+      await collect(schema.queryPages(client, { start_cursor: 'cursor-9' }));
+
+      expect(requests[0]?.body).toEqual({ start_cursor: 'cursor-9' });
+    });
+  });
+
+  describe('queryAll', () => {
+    it('should stream every result across pages', async () => {
+      const schema = createTypedSchema(taskSchema);
+      const { client } = createFakeClient(
+        buildQueryResponse([pageWithId('p1')], 'cursor-2'),
+        buildQueryResponse([pageWithId('p2')], 'cursor-3'),
+        buildQueryResponse([pageWithId('p3')])
+      );
+
+      const ids: string[] = [];
+      for await (const result of schema.queryAll(client)) {
+        ids.push(result.id);
+        expect(result.props.Status).toBe('In Progress');
+      }
+
+      expect(ids).toEqual(['p1', 'p2', 'p3']);
+    });
+
+    it('should forward filters to every page request', async () => {
+      const schema = createTypedSchema(taskSchema);
+      const { client, requests } = createFakeClient(
+        buildQueryResponse([pageWithId('p1')], 'cursor-2'),
+        buildQueryResponse([])
+      );
+
+      await collect(schema.queryAll(client, { filter: { Status: { equals: 'Done' } } }));
+
+      expect(requests.map(request => request.body?.filter)).toEqual([
+        { property: 'Status', select: { equals: 'Done' } },
+        { property: 'Status', select: { equals: 'Done' } },
+      ]);
+    });
+  });
+
+  describe('collect', () => {
+    it('should stop requesting pages once the limit is reached', async () => {
+      const schema = createTypedSchema(taskSchema);
+      const { client, request } = createFakeClient(
+        buildQueryResponse([pageWithId('p1'), pageWithId('p2')], 'cursor-2'),
+        buildQueryResponse([pageWithId('p3'), pageWithId('p4')], 'cursor-3')
+      );
+
+      const results = await collect(schema.queryAll(client), { limit: 2 });
+
+      expect(results.map(result => result.id)).toEqual(['p1', 'p2']);
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return everything without a limit and nothing for a zero limit', async () => {
+      async function* numbers() {
+        yield 1;
+        yield 2;
+        yield 3;
+      }
+
+      expect(await collect(numbers())).toEqual([1, 2, 3]);
+      expect(await collect(numbers(), { limit: 0 })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Unit tests for property name aliasing
+ *
+ * Tests schema keys mapped to Notion-side names or property IDs:
+ * - Alias validation in both schema validators
+ * - Decoding and encoding pages through aliases
+ * - Filters, sorts, drift checks and migrations using Notion-side names
+ */
+
+import { describe, it, expect } from 'vitest';
+import { expectTypeOf } from 'expect-type';
+import { createTypedSchema } from '../../src/schema/index.js';
+import { validateSchemaStructure } from '../../src/schema/validator.js';
+import {
+  compileFilter,
+  compileSorts,
+  createPage,
+  decodePageProperties,
+  diffDatabaseSchema,
+  diffSchemas,
+  encodePageProperties,
+  planMigration,
+} from '../../src/services/index.js';
+import { SchemaValidationError } from '../../src/errors/index.js';
+import type {
+  InferSchemaProperties,
+  NotionDatabase,
+  NotionUser,
+  SchemaDefinition,
+} from '../../src/types/index.js';
+import { getNotionPropertyName } from '../../src/types/index.js';
+import { launchSchema } from '../fixtures/schemas.js';
+import { buildPage, createFakeClient, richText } from '../fixtures/notion-pages.js';
+
+/**
+ * Raw page keyed by Notion column names; owners is only identifiable by its property ID
+ */
+const rawLaunchPage = buildPage('launch-page-1111', {
+  '🚀 Launch': { id: 'title', type: 'title', title: [richText('Public beta')] },
+  'Due date (ETA)': { id: 'due', type: 'date', date: { start: '2024-03-01', end: null } },
+  Étape: { id: 'stg', type: 'select', select: { id: 'o1', name: 'Beta', color: 'blue' } },
+  Owners: { id: 'fG%3D', type: 'people', people: [{ object: 'user', id: 'user-1' }] },
+  Notes: { id: 'nts', type: 'rich_text', rich_text: [] },
+});
+
+describe('Unit Tests: Property Name Aliasing', () => {
+  describe('Schema validation', () => {
+    it('should accept aliased properties and keep schema keys for inference', () => {
+      const schema = createTypedSchema(launchSchema);
+
+      expect(schema.propertyNames).toEqual(['title', 'dueDate', 'stage', 'owners', 'Notes']);
+      expect(validateSchemaStructure(launchSchema)).toEqual({
+        isValid: true,
+        errors: [],
+        issues: [],
+      });
+      type Props = InferSchemaProperties<typeof launchSchema>;
+      expectTypeOf<keyof Props>().toEqualTypeOf<
+        'title' | 'dueDate' | 'stage' | 'owners' | 'Notes'
+      >();
+      expectTypeOf<Props['dueDate']>().toEqualTypeOf<Date | null>();
+      expectTypeOf<Props['stage']>().toEqualTypeOf<'Alpha' | 'Beta' | 'GA' | null>();
+      expectTypeOf<Props['owners']>().toEqualTypeOf<NotionUser[] | null>();
+    });
+
+    it('should reject empty aliases', () => {
+      const definition: SchemaDefinition = {
+        databaseId: launchSchema.databaseId,
+        properties: { title: { type: 'title', name: '' } },
+      };
+
+      expect(() => createTypedSchema(definition)).toThrow(SchemaValidationError);
+      expect(validateSchemaStructure(definition).errors).toContain(
+        "Property 'title': Notion property name must be a non-empty string"
+      );
+    });
+
+    it('should reject two properties mapping to the same Notion property', () => {
+      const definition: SchemaDefinition = {
+        databaseId: launchSchema.databaseId,
+        properties: {
+          Name: { type: 'title' },
+          summary: { type: 'rich_text', name: 'Notes' },
+          Notes: { type: 'rich_text' },
+        },
+      };
+
+      expect(() => createTypedSchema(definition)).toThrow(SchemaValidationError);
+      expect(validateSchemaStructure(definition).errors).toContain(
+        'Notion property names must be unique [Notes]'
+      );
+    });
+
+    it('should resolve Notion-side names', () => {
+      expect(getNotionPropertyName('dueDate', launchSchema.properties.dueDate)).toBe(
+        'Due date (ETA)'
+      );
+      expect(getNotionPropertyName('Notes', launchSchema.properties.Notes)).toBe('Notes');
+    });
+  });
+
+  describe('Codec', () => {
+    it('should decode pages through Notion names and property IDs', () => {
+      expect(decodePageProperties(launchSchema, rawLaunchPage)).toEqual({
+        title: 'Public beta',
+        dueDate: new Date('2024-03-01'),
+        stage: 'Beta',
+        owners: [{ id: 'user-1', type: 'person' }],
+        Notes: null,
+      });
+    });
+
+    it('should encode values under their Notion-side names', () => {
+      expect(encodePageProperties(launchSchema, { title: 'GA', stage: 'GA', Notes: null })).toEqual(
+        {
+          '🚀 Launch': { title: [{ type: 'text', text: { content: 'GA' } }] },
+          Étape: { select: { name: 'GA' } },
+          Notes: { rich_text: [] },
+        }
+      );
+    });
+
+    it('should send aliased properties when creating pages', async () => {
+      const schema = createTypedSchema(launchSchema);
+      const { client, requests } = createFakeClient(rawLaunchPage);
+
+      const page = await createPage(client, schema, { owners: [] });
+
+      expect(requests[0]?.body).toEqual({
+        parent: { database_id: launchSchema.databaseId },
+        properties: { 'fG%3D': { people: [] } },
+      });
+      expect(page.props.stage).toBe('Beta');
+    });
+  });
+
+  describe('Query builder', () => {
+    const schema = createTypedSchema(launchSchema);
+
+    it('should compile filters against Notion-side names', () => {
+      expect(
+        compileFilter(schema, { dueDate: { is_not_empty: true }, stage: { equals: 'GA' } })
+      ).toEqual({
+        and: [
+          { property: 'Due date (ETA)', date: { is_not_empty: true } },
+          { property: 'Étape', select: { equals: 'GA' } },
+        ],
+      });
+    });
+
+    it('should compile sorts against Notion-side names', () => {
+      expect(
+        compileSorts(schema, [
+          { property: 'owners', direction: 'ascending' },
+          { property: 'Notes', direction: 'descending' },
+        ])
+      ).toEqual([
+        { property: 'fG%3D', direction: 'ascending' },
+        { property: 'Notes', direction: 'descending' },
+      ]);
+    });
+  });
+
+  describe('Schema tooling', () => {
+    it('should match aliased properties when checking drift', () => {
+      const database: NotionDatabase = {
+        object: 'database',
+        id: launchSchema.databaseId,
+        properties: {
+          '🚀 Launch': { id: 'title', name: '🚀 Launch', type: 'title', title: {} },
+          'Due date (ETA)': { id: 'due', name: 'Due date (ETA)', type: 'date', date: {} },
+          Étape: {
+            id: 'stg',
+            name: 'Étape',
+            type: 'select',
+            select: { options: [{ name: 'Alpha' }, { name: 'Beta' }] },
+          },
+          Owners: { id: 'fG%3D', name: 'Owners', type: 'people', people: {} },
+        },
+      };
+
+      const drift = diffDatabaseSchema(launchSchema, database);
+
+      expect(drift.missingProperties).toEqual(['Notes']);
+      expect(drift.optionChanges).toEqual([{ property: 'stage', added: [], removed: ['GA'] }]);
+      expect(drift.typeChanges).toEqual([]);
+    });
+
+    it('should rename Notion columns when an alias changes', () => {
+      const renamed = {
+        ...launchSchema,
+        properties: {
+          ...launchSchema.properties,
+          dueDate: { type: 'date', name: 'Deadline' },
+        },
+      } as const satisfies SchemaDefinition;
+
+      const plan = planMigration(
+        diffSchemas(launchSchema, renamed, { renames: { 'Due date (ETA)': 'Deadline' } })
+      );
+
+      expect(plan.manual).toEqual([]);
+      expect(plan.steps.map(step => step.request.body)).toEqual([
+        { properties: { 'Due date (ETA)': { name: 'Deadline' } } },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Unit tests for property value constraints
+ *
+ * Tests declarative constraints on property definitions:
+ * - Number bounds and integers
+ * - Text lengths and patterns
+ * - Allowed email and URL domains
+ * - Selected option and people counts
+ * - Definition checks, record issues and schema diffing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createTypedSchema, validateSchemaStructure } from '../../src/schema/index.js';
+import { validatePropertyValue } from '../../src/schema/validator.js';
+import { diffSchemas } from '../../src/services/index.js';
+import { PropertyValidationError, SchemaValidationError } from '../../src/errors/index.js';
+import type { NotionUser, SchemaDefinition } from '../../src/types/index.js';
+
+/**
+ * Signup database with a constraint on every supported property type
+ */
+const signupSchema = {
+  databaseId: 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee',
+  properties: {
+    Handle: { type: 'title', minLength: 3, maxLength: 8, pattern: /^[a-z0-9_]+$/ },
+    Bio: { type: 'rich_text', maxLength: 3 },
+    Age: { type: 'number', min: 13, max: 120, integer: true },
+    Email: { type: 'email', domains: ['example.com'] },
+    Website: { type: 'url', domains: ['example.org', 'example.net'] },
+    Interests: {
+      type: 'multi_select',
+      options: ['Art', 'Code', 'Music'] as const,
+      minItems: 1,
+      maxItems: 2,
+    },
+    Mentors: { type: 'people', maxItems: 1 },
+  },
+} as const satisfies SchemaDefinition;
+
+const schema = createTypedSchema(signupSchema);
+const { properties } = signupSchema;
+
+const ada: NotionUser = { id: 'user-1', type: 'person' };
+const grace: NotionUser = { id: 'user-2', type: 'person' };
+
+/**
+ * Run validatePropertyValue and return the thrown property validation error
+ */
+function catchValueError(
+  value: unknown,
+  name: keyof typeof properties
+): PropertyValidationError | null {
+  try {
+    validatePropertyValue(value, properties[name], name);
+    return null;
+  } catch (error) {
+    expect(error).toBeInstanceOf(PropertyValidationError);
+    return error as PropertyValidationError;
+  }
+}
+
+describe('Unit Tests: Property Constraints', () => {
+  describe('Numbers', () => {
+    it('should accept numbers within the bounds', () => {
+      expect(catchValueError(13, 'Age')).toBeNull();
+      expect(catchValueError(120, 'Age')).toBeNull();
+    });
+
+    it('should reject numbers outside the bounds', () => {
+      const error = catchValueError(12, 'Age');
+
+      expect(error?.message).toBe(
+        "Invalid value for property 'Age': expected number >= 13, received 12"
+      );
+      expect(error?.context).toEqual({
+        property: 'Age',
+        value: 12,
+        expectedType: 'number >= 13',
+        constraint: 'min',
+        limit: 13,
+      });
+      expect(catchValueError(121, 'Age')?.context).toMatchObject({ constraint: 'max', limit: 120 });
+    });
+
+    it('should reject fractional numbers for integer properties', () => {
+      expect(catchValueError(30.5, 'Age')?.message).toBe(
+        "Invalid value for property 'Age': expected integer, received 30.5"
+      );
+    });
+
+    it('should report type errors before constraints', () => {
+      expect(catchValueError('30', 'Age')?.context).toEqual({
+        property: 'Age',
+        value: '30',
+        expectedType: 'number',
+      });
+    });
+  });
+
+  describe('Text', () => {
+    it('should check length in characters', () => {
+      expect(catchValueError('ada', 'Handle')).toBeNull();
+      expect(catchValueError('ad', 'Handle')?.message).toBe(
+        "Invalid value for property 'Handle': expected at least 3 characters, received 2 characters"
+      );
+      expect(catchValueError('ada_lovelace', 'Handle')?.context).toMatchObject({
+        constraint: 'maxLength',
+        limit: 8,
+      });
+      expect(catchValueError('🚀🚀🚀', 'Bio')).toBeNull();
+    });
+
+    it('should check the pattern', () => {
+      const error = catchValueError('Ada!', 'Handle');
+
+      expect(error?.message).toBe(
+        "Invalid value for property 'Handle': expected string matching /^[a-z0-9_]+$/, received 'Ada!'"
+      );
+      expect(error?.context).toMatchObject({ constraint: 'pattern', limit: /^[a-z0-9_]+$/ });
+    });
+
+    it('should match global patterns the same way on every call', () => {
+      const definition = { type: 'rich_text', pattern: /ok/g } as const;
+
+      for (let attempt = 0; attempt < 3; attempt++) {
+        expect(() => validatePropertyValue('ok', definition, 'Note')).not.toThrow();
+      }
+    });
+  });
+
+  describe('Domains', () => {
+    it('should accept allowed domains and their subdomains', () => {
+      expect(catchValueError('ada@example.com', 'Email')).toBeNull();
+      expect(catchValueError('ada@mail.EXAMPLE.com', 'Email')).toBeNull();
+      expect(catchValueError('https://blog.example.net/post', 'Website')).toBeNull();
+    });
+
+    it('should reject other domains', () => {
+      expect(catchValueError('ada@notexample.com', 'Email')?.message).toBe(
+        "Invalid value for property 'Email': expected email address in [example.com], received 'ada@notexample.com'"
+      );
+      expect(catchValueError('https://example.com', 'Website')?.context).toMatchObject({
+        expectedType: 'URL in [example.org, example.net]',
+        constraint: 'domains',
+        limit: ['example.org', 'example.net'],
+      });
+    });
+  });
+
+  describe('Item counts', () => {
+    it('should check the number of selected options', () => {
+      expect(catchValueError(['Art'], 'Interests')).toBeNull();
+      expect(catchValueError([], 'Interests')?.message).toBe(
+        "Invalid value for property 'Interests': expected at least 1 items, received 0 items"
+      );
+      expect(catchValueError(['Art', 'Code', 'Music'], 'Interests')?.context).toMatchObject({
+        constraint: 'maxItems',
+        limit: 2,
+      });
+    });
+
+    it('should check the number of people', () => {
+      expect(catchValueError([ada], 'Mentors')).toBeNull();
+      expect(catchValueError([ada, grace], 'Mentors')?.context).toMatchObject({
+        constraint: 'maxItems',
+        limit: 1,
+      });
+    });
+  });
+
+  describe('Records', () => {
+    it('should report constraint violations with their own code', () => {
+      expect(schema.validateRecord({ Handle: 'ada', Age: 12 })).toEqual({
+        success: false,
+        issues: [
+          {
+            path: 'Age',
+            code: 'constraint_violation',
+            message: "Invalid value for property 'Age': expected number >= 13, received 12",
+          },
+        ],
+      });
+      expect(schema.createPropertyValidator()('Age', 40)).toBe(true);
+    });
+  });
+
+  describe('Definitions', () => {
+    it('should reject invalid constraint options', () => {
+      const definition = {
+        databaseId: signupSchema.databaseId,
+        properties: {
+          Handle: { type: 'title', minLength: -1, pattern: '^[a-z]+$' },
+          Age: { type: 'number', min: 10, max: 5, integer: 'yes' },
+          Email: { type: 'email', domains: [] },
+          Interests: { type: 'multi_select', options: ['Art'], maxItems: 1.5 },
+        },
+      } as unknown as SchemaDefinition;
+
+      expect(() => createTypedSchema(definition)).toThrow(SchemaValidationError);
+      expect(validateSchemaStructure(definition).issues).toEqual([
+        {
+          path: 'properties.Handle.minLength',
+          code: 'invalid_constraint',
+          message: "Constraint 'minLength' must be a non-negative integer",
+        },
+        {
+          path: 'properties.Handle.pattern',
+          code: 'invalid_constraint',
+          message: "Constraint 'pattern' must be a RegExp",
+        },
+        {
+          path: 'properties.Age.min',
+          code: 'invalid_constraint',
+          message: "Constraint 'min' cannot be greater than 'max'",
+        },
+        {
+          path: 'properties.Age.integer',
+          code: 'invalid_constraint',
+          message: "Constraint 'integer' must be a boolean",
+        },
+        {
+          path: 'properties.Email.domains',
+          code: 'invalid_constraint',
+          message: "Constraint 'domains' must be a non-empty array of domain names",
+        },
+        {
+          path: 'properties.Interests.maxItems',
+          code: 'invalid_constraint',
+          message: "Constraint 'maxItems' must be a non-negative integer",
+        },
+      ]);
+    });
+
+    it('should not treat constraints as a Notion schema change', () => {
+      const unconstrained = {
+        databaseId: signupSchema.databaseId,
+        properties: {
+          Handle: { type: 'title' },
+          Bio: { type: 'rich_text' },
+          Age: { type: 'number' },
+          Email: { type: 'email' },
+          Website: { type: 'url' },
+          Interests: { type: 'multi_select', options: ['Art', 'Code', 'Music'] },
+          Mentors: { type: 'people' },
+        },
+      } as const satisfies SchemaDefinition;
+
+      expect(diffSchemas(signupSchema, unconstrained).changes).toEqual([]);
+    });
+  });
+});
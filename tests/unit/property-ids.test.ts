@@ -0,0 +1,181 @@
+/**
+ * Unit tests for stable property IDs
+ *
+ * Tests schemas addressing Notion properties by pinned property ID:
+ * - ID validation in both schema validators
+ * - Resolving IDs from the live database
+ * - Filters, sorts, writes and decoding surviving column renames
+ * - Drift checks and migrations keyed by ID
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createTypedSchema } from '../../src/schema/index.js';
+import { validateSchemaStructure } from '../../src/schema/validator.js';
+import {
+  compileFilter,
+  compileSorts,
+  decodePageProperties,
+  diffDatabaseSchema,
+  diffSchemas,
+  encodePageProperties,
+  pinPropertyIds,
+  planMigration,
+  updatePage,
+} from '../../src/services/index.js';
+import { SchemaValidationError } from '../../src/errors/index.js';
+import type { NotionDatabase, SchemaDefinition } from '../../src/types/index.js';
+import { taskSchema } from '../fixtures/schemas.js';
+import {
+  buildPage,
+  createFakeClient,
+  rawTaskDatabase,
+  rawTaskPage,
+  richText,
+} from '../fixtures/notion-pages.js';
+
+/**
+ * Task schema with every property ID pinned
+ */
+const pinnedTaskSchema = pinPropertyIds(taskSchema, rawTaskDatabase);
+
+/**
+ * Raw task page after Status and Description were renamed in the Notion UI
+ */
+const renamedTaskPage = buildPage('task-page-1111', {
+  Title: { id: 'title', type: 'title', title: [richText('Write docs')] },
+  Notes: { id: 'desc', type: 'rich_text', rich_text: [richText('Draft')] },
+  Stage: { id: 'stat', type: 'select', select: { id: 'opt0', name: 'Todo', color: 'gray' } },
+  Tags: { id: 'tags', type: 'multi_select', multi_select: [] },
+});
+
+describe('Unit Tests: Stable Property IDs', () => {
+  describe('Schema validation', () => {
+    it('should reject empty property IDs', () => {
+      const definition: SchemaDefinition = {
+        databaseId: taskSchema.databaseId,
+        properties: { Title: { type: 'title', id: '' } },
+      };
+
+      expect(() => createTypedSchema(definition)).toThrow(SchemaValidationError);
+      expect(validateSchemaStructure(definition).errors).toContain(
+        "Property 'Title': Notion property ID must be a non-empty string"
+      );
+    });
+
+    it('should reject two properties pinned to the same ID', () => {
+      const definition: SchemaDefinition = {
+        databaseId: taskSchema.databaseId,
+        properties: {
+          Title: { type: 'title' },
+          Summary: { type: 'rich_text', id: 'desc' },
+          Description: { type: 'rich_text', id: 'desc' },
+        },
+      };
+
+      expect(() => createTypedSchema(definition)).toThrow(SchemaValidationError);
+      expect(validateSchemaStructure(definition).errors).toContain(
+        'Notion property IDs must be unique [desc]'
+      );
+    });
+  });
+
+  describe('Resolution', () => {
+    it('should pin IDs retrieved from the database', async () => {
+      const { client, requests } = createFakeClient(rawTaskDatabase);
+
+      const pinned = await createTypedSchema(taskSchema).resolvePropertyIds(client);
+
+      expect(requests).toEqual([{ path: `databases/${taskSchema.databaseId}`, method: 'get' }]);
+      expect(pinned.definition).toEqual(pinnedTaskSchema);
+      expect(pinned.getProperty('Status')).toEqual({
+        type: 'select',
+        options: ['Todo', 'In Progress', 'Done'],
+        id: 'stat',
+      });
+    });
+
+    it('should keep resolving pinned IDs after a rename', () => {
+      const renamedDatabase: NotionDatabase = {
+        ...rawTaskDatabase,
+        properties: {
+          Title: rawTaskDatabase.properties.Title!,
+          Description: rawTaskDatabase.properties.Description!,
+          Stage: { ...rawTaskDatabase.properties.Status!, name: 'Stage' },
+          Tags: rawTaskDatabase.properties.Tags!,
+        },
+      };
+
+      expect(pinPropertyIds(pinnedTaskSchema, renamedDatabase)).toEqual(pinnedTaskSchema);
+      expect(() => pinPropertyIds(taskSchema, renamedDatabase)).toThrow(SchemaValidationError);
+    });
+  });
+
+  describe('Requests', () => {
+    const schema = createTypedSchema(pinnedTaskSchema);
+
+    it('should address filters and sorts by property ID', () => {
+      expect(compileFilter(schema, { Status: { equals: 'Done' } })).toEqual({
+        property: 'stat',
+        select: { equals: 'Done' },
+      });
+      expect(compileSorts(schema, [{ property: 'Description', direction: 'ascending' }])).toEqual([
+        { property: 'desc', direction: 'ascending' },
+      ]);
+    });
+
+    it('should key update payloads by property ID', async () => {
+      const { client, requests } = createFakeClient(rawTaskPage);
+
+      await updatePage(client, schema, 'task-page-1111', { Status: 'Done', Tags: [] });
+
+      expect(requests[0]?.body).toEqual({
+        properties: { stat: { select: { name: 'Done' } }, tags: { multi_select: [] } },
+      });
+      expect(encodePageProperties(pinnedTaskSchema, { Title: 'Docs' })).toEqual({
+        title: { title: [{ type: 'text', text: { content: 'Docs' } }] },
+      });
+    });
+
+    it('should decode renamed columns by property ID', () => {
+      expect(decodePageProperties(pinnedTaskSchema, renamedTaskPage)).toEqual({
+        Title: 'Write docs',
+        Description: 'Draft',
+        Status: 'Todo',
+        Tags: [],
+      });
+      expect(() => decodePageProperties(taskSchema, renamedTaskPage)).toThrow(
+        SchemaValidationError
+      );
+    });
+  });
+
+  describe('Schema tooling', () => {
+    it('should not report renamed columns with pinned IDs as missing', () => {
+      const renamedDatabase: NotionDatabase = {
+        ...rawTaskDatabase,
+        properties: {
+          Title: rawTaskDatabase.properties.Title!,
+          Notes: { ...rawTaskDatabase.properties.Description!, name: 'Notes' },
+          Status: rawTaskDatabase.properties.Status!,
+          Tags: rawTaskDatabase.properties.Tags!,
+        },
+      };
+
+      expect(diffDatabaseSchema(pinnedTaskSchema, renamedDatabase).hasDrift).toBe(false);
+      expect(diffDatabaseSchema(taskSchema, renamedDatabase).missingProperties).toEqual([
+        'Description',
+      ]);
+    });
+
+    it('should ignore pinned IDs when diffing and key updates by ID', () => {
+      expect(diffSchemas(taskSchema, pinnedTaskSchema).changes).toEqual([]);
+
+      const { Description: _description, ...properties } = pinnedTaskSchema.properties;
+      const plan = planMigration(
+        diffSchemas(pinnedTaskSchema, { ...pinnedTaskSchema, properties })
+      );
+
+      expect(plan.steps.map(step => step.request.body)).toEqual([{ properties: { desc: null } }]);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Unit tests for typed database queries
+ *
+ * Tests query execution against a fake Notion client:
+ * - Request construction for the database query endpoint
+ * - Decoding of raw pages into typed query results
+ * - Mapping of Notion API failures to NotionAPIError
+ */
+
+import { describe, it, expect } from 'vitest';
+import { expectTypeOf } from 'expect-type';
+import { APIResponseError, APIErrorCode, Client } from '@notionhq/client';
+import { createTypedSchema } from '../../src/schema/index.js';
+import { query } from '../../src/services/index.js';
+import type { NotionClient } from '../../src/clients/index.js';
+import { NotionAPIError, SchemaValidationError } from '../../src/errors/index.js';
+import type { QueryResult, NotionUser } from '../../src/types/index.js';
+import { taskSchema, eventSchema } from '../fixtures/schemas.js';
+import {
+  buildPage,
+  buildQueryResponse,
+  createFakeClient,
+  rawEventPage,
+  rawTaskPage,
+  richText,
+} from '../fixtures/notion-pages.js';
+
+describe('Unit Tests: Query', () => {
+  describe('Request Construction', () => {
+    it('should query the schema database with the given options', async () => {
+      const schema = createTypedSchema(taskSchema);
+      const { client, requests } = createFakeClient(buildQueryResponse([]));
+
+      await query(client, schema, {
+        filter: { Status: { equals: 'Done' } },
+        page_size: 10,
+      });
+
+      expect(requests).toEqual([
+        {
+          path: `databases/${taskSchema.databaseId}/query`,
+          method: 'post',
+          body: {
+            filter: { property: 'Status', select: { equals: 'Done' } },
+            page_size: 10,
+          },
+        },
+      ]);
+    });
+
+    it('should accept the official Notion client', () => {
+      expectTypeOf<Client>().toMatchTypeOf<NotionClient>();
+    });
+  });
+
+  describe('Result Decoding', () => {
+    it('should decode text and selection properties', async () => {
+      const schema = createTypedSchema(taskSchema);
+      const { client } = createFakeClient(buildQueryResponse([rawTaskPage]));
+
+      const [result] = await query(client, schema);
+
+      expect(result).toEqual({
+        id: 'task-page-1111',
+        props: {
+          Title: 'Write docs',
+          Description: null,
+          Status: 'In Progress',
+          Tags: ['Feature', 'Documentation'],
+        },
+        createdTime: new Date('2024-01-01T00:00:00.000Z'),
+        lastEditedTime: new Date('2024-01-02T12:30:00.000Z'),
+      });
+    });
+
+    it('should decode date, contact and checkbox properties', async () => {
+      const schema = createTypedSchema(eventSchema);
+      const { client } = createFakeClient(buildQueryResponse([rawEventPage]));
+
+      const [result] = await query(client, schema);
+
+      expect(result?.props.StartDate).toEqual(new Date('2024-03-01T09:00:00.000Z'));
+      expect(result?.props.EndDate).toBeNull();
+      expect(result?.props.RegistrationUrl).toBe('https://example.com/register');
+      expect(result?.props.ContactEmail).toBeNull();
+      expect(result?.props.IsActive).toBe(true);
+      expect(result?.props.Organizers).toEqual([
+        { id: 'user-1', type: 'person', name: 'Alice', avatar_url: null },
+        { id: 'user-2', type: 'person' },
+      ]);
+    });
+
+    it('should infer typed props on query results', async () => {
+      const schema = createTypedSchema(taskSchema);
+      const { client } = createFakeClient(buildQueryResponse([rawTaskPage]));
+
+      const results = await query(client, schema);
+
+      expectTypeOf(results).toEqualTypeOf<QueryResult<typeof taskSchema>[]>();
+      expectTypeOf(results[0]!.props.Status).toEqualTypeOf<
+        'Todo' | 'In Progress' | 'Done' | null
+      >();
+      expectTypeOf(results[0]!.props.Title).toEqualTypeOf<string | null>();
+      expectTypeOf<QueryResult<typeof eventSchema>['props']['Organizers']>().toEqualTypeOf<
+        NotionUser[] | null
+      >();
+    });
+
+    it('should reject pages whose property types differ from the schema', async () => {
+      const schema = createTypedSchema(taskSchema);
+      const page = buildPage('bad-page', {
+        ...rawTaskPage.properties,
+        Status: { id: 'stat', type: 'rich_text', rich_text: [richText('Done')] },
+      });
+      const { client } = createFakeClient(buildQueryResponse([page]));
+
+      await expect(query(client, schema)).rejects.toThrow(SchemaValidationError);
+    });
+
+    it('should reject pages missing schema properties', async () => {
+      const schema = createTypedSchema(taskSchema);
+      const { Tags: _tags, ...properties } = rawTaskPage.properties;
+      const { client } = createFakeClient(buildQueryResponse([buildPage('bad', properties)]));
+
+      await expect(query(client, schema)).rejects.toThrow(SchemaValidationError);
+    });
+  });
+
+  describe('Error Handling', () => {
+    it('should map Notion API errors to NotionAPIError', async () => {
+      const schema = createTypedSchema(taskSchema);
+      const apiError = new APIResponseError({
+        code: APIErrorCode.ObjectNotFound,
+        status: 404,
+        message: 'Could not find database',
+        headers: {},
+        rawBodyText: '{}',
+        additional_data: undefined,
+        request_id: 'req-123',
+      });
+      const client: NotionClient = {
+        request: async () => {
+          throw apiError;
+        },
+      };
+
+      const error = await query(client, schema).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(NotionAPIError);
+      expect((error as NotionAPIError).context).toEqual({
+        status: 404,
+        message: 'Could not find database',
+        request_id: 'req-123',
+      });
+    });
+
+    it('should rethrow non-API errors unchanged', async () => {
+      const schema = createTypedSchema(taskSchema);
+      const failure = new TypeError('fetch failed');
+      const client: NotionClient = {
+        request: async () => {
+          throw failure;
+        },
+      };
+
+      await expect(query(client, schema)).rejects.toBe(failure);
+    });
+  });
+
+  describe('Performance Tracking', () => {
+    it('should record the last query duration on the schema', async () => {
+      const schema = createTypedSchema(taskSchema);
+      const { client } = createFakeClient(buildQueryResponse([]));
+
+      await query(client, schema);
+
+      expect(schema.getPerformanceMetrics().lastQueryDuration).toBeGreaterThanOrEqual(0);
+    });
+  });
+});
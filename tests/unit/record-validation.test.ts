@@ -0,0 +1,151 @@
+/**
+ * Unit tests for whole-record validation
+ *
+ * Tests validating webhook and form input against a schema in one call:
+ * - validateRecord success and failure results
+ * - Unknown keys and missing properties
+ * - parse throwing RecordValidationError
+ */
+
+import { describe, it, expect } from 'vitest';
+import { expectTypeOf } from 'expect-type';
+import { createTypedSchema } from '../../src/schema/index.js';
+import { RecordValidationError } from '../../src/errors/index.js';
+import type { InferRecordProperties, NotionUser, SchemaDefinition } from '../../src/types/index.js';
+import { taskSchema } from '../fixtures/schemas.js';
+
+const schema = createTypedSchema(taskSchema);
+
+describe('Unit Tests: Record Validation', () => {
+  describe('validateRecord', () => {
+    it('should return the typed record when every property is valid', () => {
+      const result = schema.validateRecord({
+        Title: 'Write docs',
+        Description: null,
+        Status: 'Todo',
+        Tags: ['Documentation'],
+      });
+
+      expect(result).toEqual({
+        success: true,
+        data: { Title: 'Write docs', Description: null, Status: 'Todo', Tags: ['Documentation'] },
+      });
+      if (result.success) {
+        expectTypeOf(result.data).toEqualTypeOf<InferRecordProperties<typeof taskSchema>>();
+      }
+    });
+
+    it('should fill missing properties with null', () => {
+      expect(schema.validateRecord({ Title: 'Write docs' })).toEqual({
+        success: true,
+        data: { Title: 'Write docs', Description: null, Status: null, Tags: null },
+      });
+    });
+
+    it('should type missing timestamps and audit users as null', () => {
+      const auditedSchema = createTypedSchema({
+        databaseId: taskSchema.databaseId,
+        properties: {
+          Title: { type: 'title' },
+          Created: { type: 'created_time' },
+          Author: { type: 'created_by' },
+        },
+      } as const satisfies SchemaDefinition);
+
+      const result = auditedSchema.validateRecord({ Title: 'Write docs' });
+
+      expect(result).toEqual({
+        success: true,
+        data: { Title: 'Write docs', Created: null, Author: null },
+      });
+      if (result.success) {
+        expectTypeOf(result.data.Created).toEqualTypeOf<Date | null>();
+        expectTypeOf(result.data.Author).toEqualTypeOf<NotionUser | null>();
+      }
+    });
+
+    it('should report every invalid property', () => {
+      const result = schema.validateRecord({
+        Title: 42,
+        Status: 'Blocked',
+        Tags: ['Bug', 'Chore'],
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.issues).toEqual([
+          {
+            path: 'Title',
+            code: 'invalid_value',
+            message: "Invalid value for property 'Title': expected string, received number",
+          },
+          {
+            path: 'Status',
+            code: 'invalid_selection',
+            message:
+              "Invalid selection value for property 'Status': 'Blocked' is not one of [Todo, In Progress, Done]",
+          },
+          {
+            path: 'Tags',
+            code: 'invalid_selection',
+            message:
+              "Invalid selection value for property 'Tags': 'Chore' is not one of [Bug, Feature, Enhancement, Documentation]",
+          },
+        ]);
+      }
+    });
+
+    it('should reject unknown keys', () => {
+      const result = schema.validateRecord({ Title: 'Write docs', Priority: 'High' });
+
+      expect(result).toEqual({
+        success: false,
+        issues: [
+          {
+            path: 'Priority',
+            code: 'unknown_property',
+            message: "Property 'Priority' not defined in schema",
+          },
+        ],
+      });
+    });
+
+    it('should reject input that is not an object', () => {
+      for (const input of [null, 'Write docs', ['Write docs']]) {
+        expect(schema.validateRecord(input)).toEqual({
+          success: false,
+          issues: [
+            { path: '', code: 'invalid_record', message: 'Record must be a non-null object' },
+          ],
+        });
+      }
+    });
+  });
+
+  describe('parse', () => {
+    it('should return the typed record', () => {
+      const task = schema.parse({ Title: 'Write docs', Tags: [] });
+
+      expect(task).toEqual({ Title: 'Write docs', Description: null, Status: null, Tags: [] });
+      expectTypeOf(task.Status).toEqualTypeOf<'Todo' | 'In Progress' | 'Done' | null>();
+    });
+
+    it('should throw RecordValidationError with every issue', () => {
+      expect(() => schema.parse({ Title: 42, Extra: true })).toThrow(RecordValidationError);
+
+      try {
+        schema.parse({ Title: 42, Extra: true });
+      } catch (error) {
+        const recordError = error as RecordValidationError;
+        expect(recordError.code).toBe('RECORD_VALIDATION_ERROR');
+        expect(recordError.issues.map(issue => issue.code)).toEqual([
+          'unknown_property',
+          'invalid_value',
+        ]);
+        expect(recordError.message).toContain(
+          `Invalid record for schema '${taskSchema.databaseId}'`
+        );
+      }
+    });
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Unit tests for refinements and branded types
+ *
+ * Tests custom domain rules on top of the built-in validation:
+ * - Per-property refine functions and their error messages
+ * - Branded types inferred from type predicate refinements
+ * - Schema-level cross-field refinements in records and page creation
+ * - Definition checks and schema diffing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { expectTypeOf } from 'expect-type';
+import { createTypedSchema, validateSchemaStructure } from '../../src/schema/index.js';
+import { validatePropertyValue } from '../../src/schema/validator.js';
+import { createPage, diffSchemas } from '../../src/services/index.js';
+import {
+  PropertyValidationError,
+  RecordValidationError,
+  SchemaValidationError,
+} from '../../src/errors/index.js';
+import type {
+  Brand,
+  InferSchemaProperties,
+  InferWritableProperties,
+  SchemaDefinition,
+} from '../../src/types/index.js';
+import { buildPage, createFakeClient, richText } from '../fixtures/notion-pages.js';
+
+type TicketId = Brand<string, 'TicketId'>;
+
+/**
+ * Sprint ticket database with property and cross-field refinements
+ */
+const sprintSchema = {
+  databaseId: 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee',
+  properties: {
+    Title: { type: 'title', refine: value => value.trim() === value || 'trimmed text' },
+    Key: {
+      type: 'rich_text',
+      required: true,
+      refine: (value): value is TicketId => /^JIRA-\d+$/.test(value),
+    },
+    Parent: { type: 'rich_text', refine: (value): value is TicketId => value.startsWith('JIRA-') },
+    Points: { type: 'number', refine: value => [1, 2, 3, 5, 8].includes(value) },
+    Start: { type: 'date' },
+    End: { type: 'date' },
+  },
+  refinements: [
+    {
+      check: (ticket: { Start: Date | null; End: Date | null }) =>
+        !ticket.Start || !ticket.End || ticket.End > ticket.Start,
+      message: 'End must be after Start',
+      path: 'End',
+    },
+  ],
+} as const satisfies SchemaDefinition;
+
+const schema = createTypedSchema(sprintSchema);
+const { properties } = sprintSchema;
+
+/**
+ * Run validatePropertyValue and return the thrown message, or null when it passed
+ */
+function thrownMessage(value: unknown, name: keyof typeof properties): string | null {
+  try {
+    validatePropertyValue(value, properties[name], name);
+    return null;
+  } catch (error) {
+    expect(error).toBeInstanceOf(PropertyValidationError);
+    return (error as PropertyValidationError).message;
+  }
+}
+
+describe('Unit Tests: Refinements', () => {
+  describe('Type inference', () => {
+    it('should brand properties refined with a type predicate', () => {
+      type Props = InferSchemaProperties<typeof sprintSchema>;
+      type Writable = InferWritableProperties<typeof sprintSchema>;
+
+      expectTypeOf<Props['Key']>().toEqualTypeOf<TicketId>();
+      expectTypeOf<Props['Parent']>().toEqualTypeOf<TicketId | null>();
+      expectTypeOf<Writable['Key']>().toEqualTypeOf<TicketId>();
+      expectTypeOf<Props['Title']>().toEqualTypeOf<string | null>();
+      expectTypeOf<Props['Points']>().toEqualTypeOf<number | null>();
+    });
+  });
+
+  describe('Property refinements', () => {
+    it('should accept values passing the refinement', () => {
+      expect(thrownMessage('JIRA-42', 'Key')).toBeNull();
+      expect(thrownMessage(5, 'Points')).toBeNull();
+    });
+
+    it('should reject values failing the refinement', () => {
+      expect(thrownMessage('TASK-42', 'Key')).toBe(
+        "Invalid value for property 'Key': expected value accepted by refine, received 'TASK-42'"
+      );
+      expect(thrownMessage(4, 'Points')).toBe(
+        "Invalid value for property 'Points': expected value accepted by refine, received number"
+      );
+    });
+
+    it('should describe the expected value returned by the refinement', () => {
+      try {
+        validatePropertyValue(' Ship it', properties.Title, 'Title');
+        expect.unreachable();
+      } catch (error) {
+        expect((error as PropertyValidationError).context).toEqual({
+          property: 'Title',
+          value: ' Ship it',
+          expectedType: 'trimmed text',
+          constraint: 'refine',
+        });
+      }
+    });
+
+    it('should run refinements only on values passing the built-in rules', () => {
+      expect(thrownMessage(42, 'Key')).toBe(
+        "Invalid value for property 'Key': expected string, received number"
+      );
+      expect(thrownMessage(null, 'Parent')).toBeNull();
+    });
+  });
+
+  describe('Record refinements', () => {
+    const start = new Date('2024-03-01');
+    const end = new Date('2024-03-15');
+
+    it('should accept records passing every refinement', () => {
+      const result = schema.validateRecord({ Key: 'JIRA-1', Start: start, End: end });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should report failed refinements at their path', () => {
+      expect(schema.validateRecord({ Key: 'JIRA-1', Start: end, End: start })).toEqual({
+        success: false,
+        issues: [{ path: 'End', code: 'refinement_failed', message: 'End must be after Start' }],
+      });
+    });
+
+    it('should report property refinements with the refinement code', () => {
+      const result = schema.validateRecord({ Key: 'TASK-1', Start: end, End: start });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        // Cross-field refinements only run once every property value is valid
+        expect(result.issues.map(issue => [issue.path, issue.code])).toEqual([
+          ['Key', 'refinement_failed'],
+        ]);
+      }
+    });
+
+    it('should check refinements before creating pages', async () => {
+      const { client, requests } = createFakeClient(
+        buildPage('ticket-1', {
+          Title: { id: 'title', type: 'title', title: [] },
+          Key: { id: 'key', type: 'rich_text', rich_text: [richText('JIRA-1')] },
+          Parent: { id: 'prnt', type: 'rich_text', rich_text: [] },
+          Points: { id: 'pts', type: 'number', number: null },
+          Start: { id: 'strt', type: 'date', date: null },
+          End: { id: 'end', type: 'date', date: null },
+        })
+      );
+      const key = 'JIRA-1' as TicketId;
+
+      await expect(
+        createPage(client, schema, { Key: key, Start: end, End: start })
+      ).rejects.toThrow(RecordValidationError);
+      expect(requests).toEqual([]);
+
+      await createPage(client, schema, { Key: key, Start: start, End: end });
+      expect(requests).toHaveLength(1);
+    });
+  });
+
+  describe('Definitions', () => {
+    it('should reject invalid refinements', () => {
+      const definition = {
+        databaseId: sprintSchema.databaseId,
+        properties: { Title: { type: 'title', refine: /^JIRA-\d+$/ } },
+        refinements: [{ check: () => true, message: '', path: 'Missing' }, 'End after Start'],
+      } as unknown as SchemaDefinition;
+
+      expect(() => createTypedSchema(definition)).toThrow(SchemaValidationError);
+      expect(validateSchemaStructure(definition).issues).toEqual([
+        {
+          path: 'properties.Title.refine',
+          code: 'invalid_refinement',
+          message: 'Refinement must be a function',
+        },
+        {
+          path: 'refinements[0].message',
+          code: 'invalid_refinement',
+          message: 'Refinement message must be a non-empty string',
+        },
+        {
+          path: 'refinements[0].path',
+          code: 'invalid_refinement',
+          message: 'Refinement path must name a schema property',
+        },
+        {
+          path: 'refinements[1]',
+          code: 'invalid_refinement',
+          message: 'Refinement must be an object with check and message',
+        },
+      ]);
+    });
+
+    it('should not treat refinements as a Notion schema change', () => {
+      const unrefined = {
+        databaseId: sprintSchema.databaseId,
+        properties: {
+          ...properties,
+          Title: { type: 'title' },
+          Key: { type: 'rich_text', required: true },
+          Parent: { type: 'rich_text' },
+          Points: { type: 'number' },
+        },
+      } as const satisfies SchemaDefinition;
+
+      expect(diffSchemas(sprintSchema, unrefined).changes).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * Unit tests for relation properties
+ *
+ * Tests relation property behavior:
+ * - Definition validation in both validation paths
+ * - Value validation of page references
+ * - Cross-schema type inference
+ * - Decoding, encoding and filtering
+ * - Expansion of related pages into typed query results
+ */
+
+import { describe, it, expect } from 'vitest';
+import { expectTypeOf } from 'expect-type';
+import {
+  createTypedSchema,
+  isValidPropertyDefinition,
+  isValidSchemaDefinition,
+} from '../../src/schema/index.js';
+import { validatePropertyStructure, validatePropertyValue } from '../../src/schema/validator.js';
+import {
+  compileFilter,
+  decodePropertyValue,
+  encodePropertyValue,
+  expandRelation,
+  toQueryResult,
+} from '../../src/services/index.js';
+import {
+  PropertyValidationError,
+  RecordValidationError,
+  SchemaValidationError,
+} from '../../src/errors/index.js';
+import type {
+  InferSchemaProperties,
+  PropertyDefinition,
+  RelationReference,
+} from '../../src/types/index.js';
+import { relatedProjectSchema, milestoneSchema } from '../fixtures/schemas.js';
+import { buildPage, createFakeClient, richText } from '../fixtures/notion-pages.js';
+
+const projectSchema = createTypedSchema(relatedProjectSchema);
+
+const linkedMilestoneDefinition = {
+  databaseId: 'fedcbafe-4321-8765-cba9-fedcbafedcba',
+  properties: {
+    Title: { type: 'title' },
+    Project: { type: 'relation', target: projectSchema },
+  },
+} as const;
+
+describe('Unit Tests: Relation Properties', () => {
+  describe('Definition Validation', () => {
+    it('should accept database ID and schema targets', () => {
+      expect(validatePropertyStructure('Project', milestoneSchema.properties.Project)).toEqual([]);
+      expect(
+        validatePropertyStructure('Project', linkedMilestoneDefinition.properties.Project)
+      ).toEqual([]);
+      expect(isValidSchemaDefinition(milestoneSchema)).toBe(true);
+      expect(isValidSchemaDefinition(linkedMilestoneDefinition)).toBe(true);
+    });
+
+    it('should reject missing or malformed targets', () => {
+      const invalidTargets = [{ type: 'relation' }, { type: 'relation', target: 'not-a-uuid' }];
+
+      for (const definition of invalidTargets) {
+        expect(isValidPropertyDefinition(definition)).toBe(false);
+        expect(validatePropertyStructure('Project', definition)).toHaveLength(1);
+      }
+    });
+  });
+
+  describe('Value Validation', () => {
+    const definition: PropertyDefinition = { type: 'relation', target: projectSchema };
+
+    it('should accept arrays of page references', () => {
+      expect(() => validatePropertyValue([{ id: 'page-1' }], definition, 'Project')).not.toThrow();
+      expect(() => validatePropertyValue([], definition, 'Project')).not.toThrow();
+      expect(() => validatePropertyValue(null, definition, 'Project')).not.toThrow();
+
+      const validator = createTypedSchema(linkedMilestoneDefinition).createPropertyValidator();
+      expect(validator('Project', [{ id: 'page-1' }])).toBe(true);
+      expect(validator('Project', ['page-1'])).toBe(false);
+    });
+
+    it('should reject values that are not page references', () => {
+      expect(() => validatePropertyValue('page-1', definition, 'Project')).toThrow(
+        PropertyValidationError
+      );
+      expect(() => validatePropertyValue([{ id: '' }], definition, 'Project')).toThrow(
+        PropertyValidationError
+      );
+    });
+  });
+
+  describe('Type Inference', () => {
+    it('should infer relations as arrays of page references', () => {
+      type Props = InferSchemaProperties<typeof milestoneSchema>;
+
+      expectTypeOf<Props['Project']>().toEqualTypeOf<RelationReference[] | null>();
+    });
+  });
+
+  describe('Codec and Filters', () => {
+    it('should decode and encode page references', () => {
+      const definition: PropertyDefinition = { type: 'relation', target: projectSchema };
+
+      expect(
+        decodePropertyValue('Project', definition, {
+          type: 'relation',
+          relation: [{ id: 'page-1' }, { id: 'page-2' }],
+          has_more: false,
+        })
+      ).toEqual([{ id: 'page-1' }, { id: 'page-2' }]);
+      expect(encodePropertyValue(definition, [{ id: 'page-1' }])).toEqual({
+        relation: [{ id: 'page-1' }],
+      });
+    });
+
+    it('should compile relation filters', () => {
+      const schema = createTypedSchema(milestoneSchema);
+
+      expect(compileFilter(schema, { Project: { contains: 'page-1' } })).toEqual({
+        property: 'Project',
+        relation: { contains: 'page-1' },
+      });
+    });
+  });
+
+  describe('Relation Expansion', () => {
+    it('should expand related pages with the target schema', async () => {
+      const schema = createTypedSchema(linkedMilestoneDefinition);
+      const relatedPage = buildPage('project-1', {
+        Name: { type: 'title', title: [richText('Apollo')] },
+        Stage: { type: 'select', select: { name: 'Active' } },
+      });
+      const { client, requests } = createFakeClient(relatedPage);
+      const milestone = {
+        id: 'milestone-1',
+        props: { Title: 'Kickoff', Project: [{ id: 'project-1' }] },
+        createdTime: new Date(),
+        lastEditedTime: new Date(),
+      };
+
+      const projects = await expandRelation(client, schema, milestone, 'Project');
+
+      expect(requests).toEqual([{ path: 'pages/project-1', method: 'get' }]);
+      expect(projects.map(project => project.props)).toEqual([{ Name: 'Apollo', Stage: 'Active' }]);
+      expectTypeOf(projects[0]!.props.Stage).toEqualTypeOf<
+        'Planning' | 'Active' | 'Closed' | null
+      >();
+    });
+
+    it('should flag relations truncated by Notion', () => {
+      const page = buildPage('milestone-1', {
+        Title: { type: 'title', title: [richText('Kickoff')] },
+        Project: { type: 'relation', relation: [{ id: 'project-1' }], has_more: true },
+      });
+
+      expect(toQueryResult(linkedMilestoneDefinition, page).truncated).toEqual(['Project']);
+    });
+
+    it('should read truncated relations in full before expanding them', async () => {
+      const schema = createTypedSchema(linkedMilestoneDefinition);
+      const project = (id: string) =>
+        buildPage(id, {
+          Name: { type: 'title', title: [richText(id)] },
+          Stage: { type: 'select', select: null },
+        });
+      const references = (ids: string[], nextCursor: string | null) => ({
+        object: 'list',
+        results: ids.map(id => ({ type: 'relation', relation: { id } })),
+        next_cursor: nextCursor,
+        has_more: nextCursor !== null,
+      });
+      const { client, requests } = createFakeClient(
+        buildPage('milestone-1', {
+          Project: { id: 'prj', type: 'relation', relation: [], has_more: true },
+        }),
+        references(['project-1', 'project-2', 'project-3'], 'cursor-2'),
+        references(['project-4'], null),
+        project('project-1'),
+        project('project-2'),
+        project('project-3'),
+        project('project-4')
+      );
+      const milestone = {
+        id: 'milestone-1',
+        props: { Title: 'Kickoff', Project: [{ id: 'project-1' }] },
+        createdTime: new Date(),
+        lastEditedTime: new Date(),
+        truncated: ['Project'] as const,
+      };
+
+      const projects = await expandRelation(client, schema, milestone, 'Project');
+
+      expect(projects.map(related => related.id)).toEqual([
+        'project-1',
+        'project-2',
+        'project-3',
+        'project-4',
+      ]);
+      expect(requests.slice(0, 3)).toEqual([
+        { path: 'pages/milestone-1', method: 'get' },
+        { path: 'pages/milestone-1/properties/prj', method: 'get' },
+        {
+          path: 'pages/milestone-1/properties/prj',
+          method: 'get',
+          query: { start_cursor: 'cursor-2' },
+        },
+      ]);
+    });
+
+    it('should encode property names used to read truncated relations', async () => {
+      const schema = createTypedSchema({
+        databaseId: linkedMilestoneDefinition.databaseId,
+        properties: {
+          Title: { type: 'title' },
+          Project: { type: 'relation', target: projectSchema, name: 'Parent project' },
+        },
+      } as const);
+      const { client, requests } = createFakeClient(
+        buildPage('milestone-1', {
+          'Parent project': { type: 'relation', relation: [], has_more: true },
+        }),
+        { object: 'list', results: [], next_cursor: null, has_more: false }
+      );
+      const milestone = {
+        id: 'milestone-1',
+        props: { Title: 'Kickoff', Project: [] },
+        createdTime: new Date(),
+        lastEditedTime: new Date(),
+        truncated: ['Project'] as const,
+      };
+
+      expect(await expandRelation(client, schema, milestone, 'Project')).toEqual([]);
+      expect(requests[1]).toEqual({
+        path: 'pages/milestone-1/properties/Parent%20project',
+        method: 'get',
+      });
+    });
+
+    it('should check required properties of related pages', async () => {
+      const ownerSchema = createTypedSchema({
+        databaseId: 'abcdefab-1234-5678-9abc-abcdefabcdef',
+        properties: { Name: { type: 'title', required: true } },
+      } as const);
+      const schema = createTypedSchema({
+        databaseId: linkedMilestoneDefinition.databaseId,
+        properties: {
+          Title: { type: 'title' },
+          Owner: { type: 'relation', target: ownerSchema },
+        },
+      } as const);
+      const unnamed = buildPage('owner-1', { Name: { type: 'title', title: [] } });
+      const milestone = {
+        id: 'milestone-1',
+        props: { Title: 'Kickoff', Owner: [{ id: 'owner-1' }] },
+        createdTime: new Date(),
+        lastEditedTime: new Date(),
+      };
+
+      await expect(
+        expandRelation(createFakeClient(unnamed).client, schema, milestone, 'Owner')
+      ).rejects.toThrow(RecordValidationError);
+
+      const reported = await expandRelation(
+        createFakeClient(unnamed).client,
+        schema,
+        milestone,
+        'Owner',
+        { onMissingRequired: 'report' }
+      );
+      expect(reported.map(owner => owner.props)).toEqual([{ Name: null }]);
+      expect(reported[0]!.issues).toHaveLength(1);
+      expectTypeOf(reported[0]!.props.Name).toEqualTypeOf<string | null>();
+    });
+
+    it('should reject relations that only reference a database ID', async () => {
+      const schema = createTypedSchema(milestoneSchema);
+      const { client } = createFakeClient();
+      const milestone = {
+        id: 'milestone-1',
+        props: { Title: 'Kickoff', Project: [{ id: 'project-1' }] },
+        createdTime: new Date(),
+        lastEditedTime: new Date(),
+      };
+
+      await expect(expandRelation(client, schema, milestone, 'Project' as never)).rejects.toThrow(
+        SchemaValidationError
+      );
+    });
+  });
+});
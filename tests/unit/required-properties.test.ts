@@ -0,0 +1,265 @@
+/**
+ * Unit tests for required properties
+ *
+ * Tests properties declared with `required: true`:
+ * - Inferred types without null
+ * - Definition, value and record validation
+ * - Page writes and query decoding policies
+ */
+
+import { describe, it, expect } from 'vitest';
+import { expectTypeOf } from 'expect-type';
+import { createTypedSchema, validateSchemaStructure } from '../../src/schema/index.js';
+import { validatePropertyValue } from '../../src/schema/validator.js';
+import {
+  buildQueryBody,
+  createPage,
+  diffSchemas,
+  query,
+  updatePage,
+} from '../../src/services/index.js';
+import {
+  PropertyValidationError,
+  RecordValidationError,
+  SchemaValidationError,
+} from '../../src/errors/index.js';
+import type {
+  InferSchemaProperties,
+  InferWritableProperties,
+  NotionPage,
+  SchemaDefinition,
+} from '../../src/types/index.js';
+import {
+  buildPage,
+  buildQueryResponse,
+  createFakeClient,
+  richText,
+} from '../fixtures/notion-pages.js';
+
+/**
+ * Order database with a required title and status
+ */
+const orderSchema = {
+  databaseId: 'aaaaaaaa-bbbb-cccc-dddd-ffffffffffff',
+  properties: {
+    Title: { type: 'title', required: true },
+    Status: { type: 'select', options: ['Open', 'Shipped'] as const, required: true },
+    Notes: { type: 'rich_text' },
+  },
+} as const satisfies SchemaDefinition;
+
+const schema = createTypedSchema(orderSchema);
+
+/**
+ * Build a raw order page; an empty title decodes to null
+ */
+function buildOrderPage(id: string, title: string | null): NotionPage {
+  return buildPage(id, {
+    Title: { id: 'title', type: 'title', title: title === null ? [] : [richText(title)] },
+    Status: { id: 'stat', type: 'select', select: { id: 'o1', name: 'Open', color: 'gray' } },
+    Notes: { id: 'nts', type: 'rich_text', rich_text: [] },
+  });
+}
+
+const completeOrder = buildOrderPage('order-1', 'ORD-1');
+const untitledOrder = buildOrderPage('order-2', null);
+
+describe('Unit Tests: Required Properties', () => {
+  describe('Type inference', () => {
+    it('should remove null from required properties', () => {
+      type Props = InferSchemaProperties<typeof orderSchema>;
+      type Writable = InferWritableProperties<typeof orderSchema>;
+
+      expectTypeOf<Props['Title']>().toEqualTypeOf<string>();
+      expectTypeOf<Props['Status']>().toEqualTypeOf<'Open' | 'Shipped'>();
+      expectTypeOf<Props['Notes']>().toEqualTypeOf<string | null>();
+      expectTypeOf<Writable['Title']>().toEqualTypeOf<string>();
+    });
+  });
+
+  describe('Validation', () => {
+    it('should reject a non-boolean required flag', () => {
+      const definition = {
+        databaseId: orderSchema.databaseId,
+        properties: { Title: { type: 'title', required: 'yes' } },
+      } as unknown as SchemaDefinition;
+
+      expect(() => createTypedSchema(definition)).toThrow(SchemaValidationError);
+      expect(validateSchemaStructure(definition).errors).toEqual([
+        "Property 'Title': Required flag must be a boolean",
+      ]);
+    });
+
+    it('should reject null and missing values', () => {
+      const definition = orderSchema.properties.Title;
+
+      expect(() => validatePropertyValue('ORD-1', definition, 'Title')).not.toThrow();
+      expect(() => validatePropertyValue(null, definition, 'Title')).toThrow(
+        "Invalid value for property 'Title': expected value for required property, received null"
+      );
+      expect(() => validatePropertyValue(undefined, definition, 'Title')).toThrow(
+        PropertyValidationError
+      );
+      expect(schema.createPropertyValidator()('Title', null)).toBe(false);
+    });
+
+    it('should reject empty lists for required list properties', () => {
+      expect(() => validatePropertyValue([], { type: 'people', required: true }, 'Owners')).toThrow(
+        PropertyValidationError
+      );
+      expect(() => validatePropertyValue([], { type: 'people' }, 'Owners')).not.toThrow();
+    });
+
+    it('should report missing required properties in records', () => {
+      expect(schema.validateRecord({ Title: 'ORD-1', Notes: null })).toEqual({
+        success: false,
+        issues: [
+          {
+            path: 'Status',
+            code: 'missing_required',
+            message:
+              "Invalid value for property 'Status': expected value for required property, received undefined",
+          },
+        ],
+      });
+    });
+  });
+
+  describe('Page writes', () => {
+    it('should require values when creating pages', async () => {
+      const { client, requests } = createFakeClient(completeOrder);
+
+      await expect(createPage(client, schema, { Title: 'ORD-1' })).rejects.toThrow(
+        PropertyValidationError
+      );
+      expect(requests).toEqual([]);
+
+      await createPage(client, schema, { Title: 'ORD-1', Status: 'Open' });
+      expect(requests).toHaveLength(1);
+    });
+
+    it('should reject clearing required properties on update', async () => {
+      const { client, requests } = createFakeClient(completeOrder);
+      const cleared = { Status: null } as unknown as Partial<
+        InferWritableProperties<typeof orderSchema>
+      >;
+
+      await expect(updatePage(client, schema, 'order-1', cleared)).rejects.toThrow(
+        PropertyValidationError
+      );
+      await updatePage(client, schema, 'order-1', { Notes: null });
+      expect(requests).toHaveLength(1);
+    });
+  });
+
+  describe('Query decoding', () => {
+    const response = buildQueryResponse([completeOrder, untitledOrder]);
+
+    it('should throw on an empty required property by default', async () => {
+      const { client } = createFakeClient(response);
+
+      await expect(query(client, schema)).rejects.toThrow(
+        new RecordValidationError(
+          orderSchema.databaseId,
+          [
+            {
+              path: 'Title',
+              code: 'missing_required',
+              message:
+                "Invalid value for property 'Title': expected value for required property, received null",
+            },
+          ],
+          'order-2'
+        )
+      );
+    });
+
+    it('should skip pages with an empty required property', async () => {
+      const { client, requests } = createFakeClient(response);
+
+      const results = await query(client, schema, { onMissingRequired: 'skip' });
+
+      expect(results.map(result => result.id)).toEqual(['order-1']);
+      expect(requests[0]?.body).toEqual({});
+    });
+
+    it('should report pages with an empty required property', async () => {
+      const { client } = createFakeClient(response);
+
+      const results = await query(client, schema, { onMissingRequired: 'report' });
+
+      expect(results.map(result => result.issues?.map(issue => issue.path))).toEqual([
+        undefined,
+        ['Title'],
+      ]);
+      expect(results[1]?.props.Title).toBeNull();
+      expectTypeOf(results[1]!.props.Title).toEqualTypeOf<string | null>();
+      expectTypeOf(results[1]!.props.Notes).toEqualTypeOf<string | null>();
+    });
+
+    it('should keep required properties non-null under the other policies', async () => {
+      const { client } = createFakeClient(response);
+
+      const results = await query(client, schema, { onMissingRequired: 'skip' });
+
+      expectTypeOf(results[0]!.props.Title).toEqualTypeOf<string>();
+    });
+
+    it('should only check required properties when decoding', async () => {
+      const strictSchema = createTypedSchema({
+        ...orderSchema,
+        properties: {
+          ...orderSchema.properties,
+          Title: { type: 'title', required: true, refine: () => false },
+        },
+      } as const);
+      const { client } = createFakeClient(buildQueryResponse([completeOrder]));
+
+      const results = await query(client, strictSchema);
+
+      expect(results.map(result => result.props.Title)).toEqual(['ORD-1']);
+    });
+
+    it('should treat empty required lists as missing', async () => {
+      const teamSchema = createTypedSchema({
+        databaseId: orderSchema.databaseId,
+        properties: {
+          Title: { type: 'title' },
+          Owners: { type: 'people', required: true },
+        },
+      } as const);
+      const { client } = createFakeClient(
+        buildQueryResponse([
+          buildPage('team-1', {
+            Title: { id: 'title', type: 'title', title: [richText('Platform')] },
+            Owners: { id: 'own', type: 'people', people: [] },
+          }),
+        ])
+      );
+
+      const [result] = await query(client, teamSchema, { onMissingRequired: 'report' });
+
+      expect(result?.issues?.map(issue => [issue.path, issue.code])).toEqual([
+        ['Owners', 'missing_required'],
+      ]);
+    });
+
+    it('should keep the policy out of the request body', () => {
+      expect(buildQueryBody(schema, { page_size: 10, onMissingRequired: 'skip' })).toEqual({
+        page_size: 10,
+      });
+    });
+  });
+
+  describe('Schema tooling', () => {
+    it('should not treat the required flag as a Notion schema change', () => {
+      const { Title: _title, ...properties } = orderSchema.properties;
+      const optional = {
+        ...orderSchema,
+        properties: { ...properties, Title: { type: 'title' } },
+      } as const satisfies SchemaDefinition;
+
+      expect(diffSchemas(orderSchema, optional).changes).toEqual([]);
+    });
+  });
+});
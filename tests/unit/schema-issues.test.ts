@@ -0,0 +1,199 @@
+/**
+ * Unit tests for aggregated schema validation issues
+ *
+ * Tests SchemaValidationError reporting every problem found:
+ * - Issue paths, codes and messages from createTypedSchema
+ * - Issues from validateSchemaStructure and validateSchema
+ * - Conversion of valibot failures and path formatting
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createTypedSchema,
+  formatIssuePath,
+  toSchemaIssues,
+  validateDatabaseId,
+  validateSchema,
+  validateSchemaStructure,
+} from '../../src/schema/index.js';
+import { SchemaValidationError } from '../../src/errors/index.js';
+import type { SchemaDefinition } from '../../src/types/index.js';
+
+/**
+ * Schema definition with several independent problems
+ */
+const brokenSchema = {
+  databaseId: 'not-a-uuid',
+  properties: {
+    Name: { type: 'title' },
+    Status: { type: 'select', options: ['Todo', 'Done', 'Todo'] },
+    'Due date': { type: 'number', format: 'doubloon' },
+    Stage: {
+      type: 'status',
+      options: ['Open', 'Closed'],
+      groups: { 'To-do': ['Open'], 'In progress': 'Closed', Complete: [] },
+    },
+  },
+} as unknown as SchemaDefinition;
+
+/**
+ * Run a validator and return the error it throws
+ */
+function catchError(validate: () => unknown): Error {
+  try {
+    validate();
+  } catch (error) {
+    return error as Error;
+  }
+  throw new Error('Expected validation to fail');
+}
+
+/**
+ * Run createTypedSchema and return the thrown schema validation error
+ */
+function catchSchemaError(definition: SchemaDefinition): SchemaValidationError {
+  const error = catchError(() => createTypedSchema(definition));
+  expect(error).toBeInstanceOf(SchemaValidationError);
+  return error as SchemaValidationError;
+}
+
+describe('Unit Tests: Schema Validation Issues', () => {
+  describe('createTypedSchema', () => {
+    it('should report every issue with its path and code', () => {
+      const error = catchSchemaError(brokenSchema);
+
+      expect(error.issues).toEqual([
+        {
+          path: 'databaseId',
+          code: 'invalid_database_id',
+          message: 'Database ID must be a valid UUID format',
+        },
+        {
+          path: 'properties.Status.options[2]',
+          code: 'duplicate_option',
+          message: 'Options must be unique',
+        },
+        {
+          path: 'properties["Due date"].format',
+          code: 'invalid_number_format',
+          message: "Invalid number format 'doubloon'",
+        },
+        {
+          path: 'properties.Stage.groups["In progress"]',
+          code: 'invalid_status_groups',
+          message: "Status group 'In progress' must be an array",
+        },
+      ]);
+      expect(error.context.property).toBe('schema');
+    });
+
+    it('should report every invalid option', () => {
+      const error = catchSchemaError({
+        databaseId: '12345678-1234-5678-9abc-123456789abc',
+        properties: {
+          Name: { type: 'title' },
+          Status: { type: 'select', options: ['a', '', ' ', 'a', 'a', 'b', 'b', 3] },
+        },
+      } as unknown as SchemaDefinition);
+
+      expect(error.issues.map(issue => [issue.path, issue.message])).toEqual([
+        ['properties.Status.options[1]', 'Options cannot be empty strings'],
+        ['properties.Status.options[2]', 'Options cannot be empty strings'],
+        ['properties.Status.options[3]', 'Options must be unique'],
+        ['properties.Status.options[4]', 'Options must be unique'],
+        ['properties.Status.options[6]', 'Options must be unique'],
+        ['properties.Status.options[7]', 'All options must be strings'],
+      ]);
+    });
+
+    it('should describe the issues in the error message', () => {
+      const error = catchSchemaError(brokenSchema);
+
+      expect(error.message).toContain('Invalid schema: databaseId: Database ID must be');
+      expect(error.message).toContain('properties.Status.options[2]: Options must be unique');
+      expect(error.message).not.toContain('received object');
+    });
+
+    it('should report schema-level issues at the root path', () => {
+      const error = catchSchemaError({
+        databaseId: '12345678-1234-5678-9abc-123456789abc',
+        properties: { Notes: { type: 'rich_text' } },
+      });
+
+      expect(error.issues).toEqual([
+        {
+          path: 'properties',
+          code: 'missing_title',
+          message: 'Schema must have exactly one title property',
+        },
+      ]);
+    });
+
+    it('should report invalid property names through the schema instance', () => {
+      const schema = createTypedSchema({
+        databaseId: '12345678-1234-5678-9abc-123456789abc',
+        properties: { Name: { type: 'title' } },
+      });
+
+      const error = catchError(() => schema.validatePropertyName('1st'));
+
+      expect(error).toBeInstanceOf(SchemaValidationError);
+      expect((error as SchemaValidationError).issues.map(issue => issue.code)).toEqual([
+        'invalid_property_name',
+        'invalid_property_name',
+      ]);
+    });
+  });
+
+  describe('Hand-written validator', () => {
+    it('should pair every error with an issue', () => {
+      const { errors, issues } = validateSchemaStructure(brokenSchema);
+
+      expect(errors).toEqual([
+        'Database ID must be a valid UUID format',
+        "Property 'Status': Options must be unique",
+        "Property 'Due date': Invalid number format 'doubloon'",
+        "Property 'Stage': Status group 'In progress' must be an array",
+      ]);
+      expect(issues.map(issue => issue.path)).toEqual([
+        'databaseId',
+        'properties.Status.options[2]',
+        'properties["Due date"].format',
+        'properties.Stage.groups["In progress"]',
+      ]);
+    });
+
+    it('should throw the same issues from validateSchema', () => {
+      const error = catchError(() => validateSchema(brokenSchema));
+
+      expect(error).toBeInstanceOf(SchemaValidationError);
+      expect((error as SchemaValidationError).issues).toEqual(
+        catchSchemaError(brokenSchema).issues
+      );
+    });
+  });
+
+  describe('Issue conversion', () => {
+    it('should convert failures of plain valibot schemas', () => {
+      expect(toSchemaIssues(catchError(() => validateDatabaseId('abc')))).toEqual([
+        { path: '', code: 'regex', message: 'Invalid database ID format' },
+      ]);
+    });
+
+    it('should wrap other errors as a single issue', () => {
+      expect(toSchemaIssues(new Error('boom'))).toEqual([
+        { path: '', code: 'invalid_schema', message: 'boom' },
+      ]);
+    });
+
+    it('should format paths using property access notation', () => {
+      expect(formatIssuePath([])).toBe('');
+      expect(formatIssuePath(['properties', 'Status', 'options', 2])).toBe(
+        'properties.Status.options[2]'
+      );
+      expect(formatIssuePath(['properties', '🚀 Launch', 'name'])).toBe(
+        'properties["🚀 Launch"].name'
+      );
+    });
+  });
+});
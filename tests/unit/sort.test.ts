@@ -0,0 +1,81 @@
+/**
+ * Unit tests for schema-aware query sorts
+ *
+ * Tests sort compilation and validation:
+ * - Property sorts constrained to schema property names
+ * - Timestamp sorts on created_time and last_edited_time
+ * - Runtime rejection before the request is built
+ */
+
+import { describe, it, expect } from 'vitest';
+import { expectTypeOf } from 'expect-type';
+import { createTypedSchema } from '../../src/schema/index.js';
+import { compileSorts, query } from '../../src/services/index.js';
+import { PropertyAccessError, SchemaValidationError } from '../../src/errors/index.js';
+import type { QuerySort } from '../../src/types/index.js';
+import { taskSchema } from '../fixtures/schemas.js';
+import { buildQueryResponse, createFakeClient } from '../fixtures/notion-pages.js';
+
+describe('Unit Tests: Query Sorts', () => {
+  it('should compile property and timestamp sorts', () => {
+    const schema = createTypedSchema(taskSchema);
+
+    expect(
+      compileSorts(schema, [
+        { property: 'Status', direction: 'ascending' },
+        { timestamp: 'created_time', direction: 'descending' },
+      ])
+    ).toEqual([
+      { property: 'Status', direction: 'ascending' },
+      { timestamp: 'created_time', direction: 'descending' },
+    ]);
+  });
+
+  it('should include compiled sorts in the query request', async () => {
+    const schema = createTypedSchema(taskSchema);
+    const { client, requests } = createFakeClient(buildQueryResponse([]));
+
+    await query(client, schema, {
+      sorts: [{ timestamp: 'last_edited_time', direction: 'ascending' }],
+    });
+
+    expect(requests[0]?.body).toEqual({
+      sorts: [{ timestamp: 'last_edited_time', direction: 'ascending' }],
+    });
+  });
+
+  it('should reject sorts on properties not defined in the schema', async () => {
+    const schema = createTypedSchema(taskSchema);
+    const { client, request } = createFakeClient(buildQueryResponse([]));
+    const sorts = [{ property: 'Staus', direction: 'ascending' }] as unknown as QuerySort<
+      typeof taskSchema
+    >[];
+
+    await expect(query(client, schema, { sorts })).rejects.toThrow(PropertyAccessError);
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid directions and timestamps', () => {
+    const schema = createTypedSchema(taskSchema);
+    const badDirection = [{ property: 'Status', direction: 'up' }] as unknown as QuerySort<
+      typeof taskSchema
+    >[];
+    const badTimestamp = [
+      { timestamp: 'archived_time', direction: 'ascending' },
+    ] as unknown as QuerySort<typeof taskSchema>[];
+
+    expect(() => compileSorts(schema, badDirection)).toThrow(SchemaValidationError);
+    expect(() => compileSorts(schema, badTimestamp)).toThrow(SchemaValidationError);
+  });
+
+  it('should constrain sort properties to schema property names', () => {
+    type TaskSort = QuerySort<typeof taskSchema>;
+
+    expectTypeOf<{ property: 'Status'; direction: 'ascending' }>().toMatchTypeOf<TaskSort>();
+    expectTypeOf<{ property: 'Staus'; direction: 'ascending' }>().not.toMatchTypeOf<TaskSort>();
+    expectTypeOf<{
+      timestamp: 'created_time';
+      direction: 'descending';
+    }>().toMatchTypeOf<TaskSort>();
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Unit tests for status properties
+ *
+ * Tests status property behavior:
+ * - Definition validation of options and groups in both validation paths
+ * - Literal type inference like select properties
+ * - Value validation against declared options
+ * - Group helpers for workflow automation
+ * - Decoding, encoding and filtering
+ */
+
+import { describe, it, expect } from 'vitest';
+import { expectTypeOf } from 'expect-type';
+import { createTypedSchema, isValidPropertyDefinition } from '../../src/schema/index.js';
+import { validatePropertyStructure, validatePropertyValue } from '../../src/schema/validator.js';
+import {
+  compileFilter,
+  decodePropertyValue,
+  encodePropertyValue,
+} from '../../src/services/index.js';
+import { SchemaValidationError, SelectionValidationError } from '../../src/errors/index.js';
+import type { InferSchemaProperties } from '../../src/types/index.js';
+import { getStatusGroup, isStatusInGroup } from '../../src/types/index.js';
+import { ticketSchema } from '../fixtures/schemas.js';
+
+const stateDefinition = ticketSchema.properties.State;
+
+describe('Unit Tests: Status Properties', () => {
+  describe('Definition Validation', () => {
+    it('should accept options assigned to groups', () => {
+      expect(validatePropertyStructure('State', stateDefinition)).toEqual([]);
+      expect(isValidPropertyDefinition(stateDefinition)).toBe(true);
+      expect(() => createTypedSchema(ticketSchema)).not.toThrow();
+    });
+
+    it('should reject options missing from every group', () => {
+      const definition = {
+        type: 'status',
+        options: ['Backlog', 'Doing'],
+        groups: { 'To-do': ['Backlog'], 'In progress': [], Complete: [] },
+      };
+
+      expect(validatePropertyStructure('State', definition)).toEqual([
+        "Property 'State': Status options must belong to exactly one group [Doing]",
+      ]);
+      expect(isValidPropertyDefinition(definition)).toBe(false);
+    });
+
+    it('should reject groups referencing undeclared options', () => {
+      const definition = {
+        type: 'status',
+        options: ['Backlog'],
+        groups: { 'To-do': ['Backlog'], 'In progress': ['Doing'], Complete: [] },
+      };
+
+      expect(validatePropertyStructure('State', definition)).toEqual([
+        "Property 'State': Status groups reference undeclared options [Doing]",
+      ]);
+      expect(isValidPropertyDefinition(definition)).toBe(false);
+    });
+
+    it('should reject missing groups', () => {
+      const definition = { type: 'status', options: ['Backlog'] };
+
+      expect(validatePropertyStructure('State', definition)).toEqual([
+        "Property 'State': Status properties must have groups object",
+      ]);
+      expect(isValidPropertyDefinition(definition)).toBe(false);
+    });
+  });
+
+  describe('Type Inference', () => {
+    it('should infer a literal union of the declared options', () => {
+      type Props = InferSchemaProperties<typeof ticketSchema>;
+
+      expectTypeOf<Props['State']>().toEqualTypeOf<
+        'Backlog' | 'Doing' | 'Review' | 'Shipped' | 'Dropped' | null
+      >();
+    });
+  });
+
+  describe('Value Validation', () => {
+    it('should accept declared options and reject others', () => {
+      expect(() => validatePropertyValue('Review', stateDefinition, 'State')).not.toThrow();
+      expect(() => validatePropertyValue(null, stateDefinition, 'State')).not.toThrow();
+      expect(() => validatePropertyValue('Blocked', stateDefinition, 'State')).toThrow(
+        SelectionValidationError
+      );
+
+      const validator = createTypedSchema(ticketSchema).createPropertyValidator();
+      expect(validator('State', 'Doing')).toBe(true);
+      expect(validator('State', 'Blocked')).toBe(false);
+    });
+  });
+
+  describe('Group Helpers', () => {
+    it('should resolve the group of a status option', () => {
+      expect(getStatusGroup(stateDefinition, 'Backlog')).toBe('To-do');
+      expect(getStatusGroup(stateDefinition, 'Review')).toBe('In progress');
+      expect(getStatusGroup(stateDefinition, 'Unknown')).toBeNull();
+      expect(isStatusInGroup(stateDefinition, 'Dropped', 'Complete')).toBe(true);
+      expect(isStatusInGroup(stateDefinition, null, 'Complete')).toBe(false);
+    });
+
+    it('should check groups through the schema and narrow values', () => {
+      const schema = createTypedSchema(ticketSchema);
+      const state = 'Shipped' as InferSchemaProperties<typeof ticketSchema>['State'];
+
+      expect(schema.getStatusGroup('State', state)).toBe('Complete');
+      expect(schema.isStatusInGroup('State', state, 'In progress')).toBe(false);
+      if (schema.isStatusInGroup('State', state, 'Complete')) {
+        expectTypeOf(state).toEqualTypeOf<'Shipped' | 'Dropped'>();
+      }
+    });
+
+    it('should reject group checks on non-status properties', () => {
+      const schema = createTypedSchema(ticketSchema);
+
+      expect(() => schema.getStatusGroup('Title', 'Backlog')).toThrow(SchemaValidationError);
+    });
+  });
+
+  describe('Codec and Filters', () => {
+    it('should decode and encode status values', () => {
+      expect(
+        decodePropertyValue('State', stateDefinition, {
+          type: 'status',
+          status: { id: 's1', name: 'Doing', color: 'blue' },
+        })
+      ).toBe('Doing');
+      expect(
+        decodePropertyValue('State', stateDefinition, { type: 'status', status: null })
+      ).toBeNull();
+      expect(encodePropertyValue(stateDefinition, 'Shipped')).toEqual({
+        status: { name: 'Shipped' },
+      });
+    });
+
+    it('should compile status filters against declared options', () => {
+      const schema = createTypedSchema(ticketSchema);
+
+      expect(compileFilter(schema, { State: { equals: 'Review' } })).toEqual({
+        property: 'State',
+        status: { equals: 'Review' },
+      });
+      expect(() =>
+        compileFilter(schema, { State: { equals: 'Blocked' } } as unknown as Parameters<
+          typeof compileFilter<typeof ticketSchema>
+        >[1])
+      ).toThrow(SelectionValidationError);
+    });
+  });
+});
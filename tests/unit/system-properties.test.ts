@@ -0,0 +1,120 @@
+/**
+ * Unit tests for system timestamp and audit properties
+ *
+ * Tests created_time, last_edited_time, created_by and last_edited_by:
+ * - Definition validation in both validation paths
+ * - Type inference as non-null Date and NotionUser values
+ * - Value validation reusing the NotionUser checks
+ * - Decoding, read-only writes and filters
+ */
+
+import { describe, it, expect } from 'vitest';
+import { expectTypeOf } from 'expect-type';
+import { createTypedSchema, isValidPropertyDefinition } from '../../src/schema/index.js';
+import { validatePropertyStructure, validatePropertyValue } from '../../src/schema/validator.js';
+import { compileFilter, decodePageProperties, updatePage } from '../../src/services/index.js';
+import { PropertyValidationError, SchemaValidationError } from '../../src/errors/index.js';
+import type {
+  InferSchemaProperties,
+  InferWritableProperties,
+  NotionUser,
+} from '../../src/types/index.js';
+import { getPropertyCategory, isReadOnlyProperty } from '../../src/types/index.js';
+import { documentSchema, sampleUsers } from '../fixtures/schemas.js';
+import { buildPage, createFakeClient, richText } from '../fixtures/notion-pages.js';
+
+const rawDocumentPage = buildPage('document-page-1111', {
+  Title: { type: 'title', title: [richText('Design notes')] },
+  Created: { type: 'created_time', created_time: '2024-01-01T00:00:00.000Z' },
+  Edited: { type: 'last_edited_time', last_edited_time: '2024-01-02T12:30:00.000Z' },
+  Author: { type: 'created_by', created_by: { object: 'user', id: 'user-1' } },
+  Editor: {
+    type: 'last_edited_by',
+    last_edited_by: { object: 'user', id: 'bot-1', type: 'bot', bot: {} },
+  },
+});
+
+describe('Unit Tests: System Properties', () => {
+  describe('Definition Validation', () => {
+    it('should accept system property definitions', () => {
+      for (const definition of Object.values(documentSchema.properties)) {
+        expect(validatePropertyStructure('System', definition)).toEqual([]);
+        expect(isValidPropertyDefinition(definition)).toBe(true);
+        expect(isReadOnlyProperty(definition)).toBe(definition.type !== 'title');
+      }
+      expect(() => createTypedSchema(documentSchema)).not.toThrow();
+      expect(getPropertyCategory(documentSchema.properties.Author)).toBe('system');
+    });
+  });
+
+  describe('Type Inference', () => {
+    it('should infer non-null Date and NotionUser values', () => {
+      type Props = InferSchemaProperties<typeof documentSchema>;
+
+      expectTypeOf<Props['Created']>().toEqualTypeOf<Date>();
+      expectTypeOf<Props['Edited']>().toEqualTypeOf<Date>();
+      expectTypeOf<Props['Author']>().toEqualTypeOf<NotionUser>();
+      expectTypeOf<Props['Editor']>().toEqualTypeOf<NotionUser>();
+    });
+
+    it('should omit system properties from writable properties', () => {
+      expectTypeOf<keyof InferWritableProperties<typeof documentSchema>>().toEqualTypeOf<'Title'>();
+    });
+  });
+
+  describe('Value Validation', () => {
+    it('should validate timestamps as Dates and audit users as NotionUsers', () => {
+      const { Created, Author } = documentSchema.properties;
+
+      expect(() => validatePropertyValue(new Date(), Created, 'Created')).not.toThrow();
+      expect(() => validatePropertyValue('2024-01-01', Created, 'Created')).toThrow(
+        PropertyValidationError
+      );
+      expect(() => validatePropertyValue(sampleUsers[0], Author, 'Author')).not.toThrow();
+      expect(() => validatePropertyValue({ id: 'user-1' }, Author, 'Author')).toThrow(
+        PropertyValidationError
+      );
+
+      const validator = createTypedSchema(documentSchema).createPropertyValidator();
+      expect(validator('Editor', sampleUsers[1])).toBe(true);
+      expect(validator('Editor', [sampleUsers[1]])).toBe(false);
+    });
+  });
+
+  describe('Decoding and Writes', () => {
+    it('should decode timestamps and users', () => {
+      const props = decodePageProperties(documentSchema, rawDocumentPage);
+
+      expect(props.Created).toEqual(new Date('2024-01-01T00:00:00.000Z'));
+      expect(props.Edited).toEqual(new Date('2024-01-02T12:30:00.000Z'));
+      expect(props.Author).toEqual({ id: 'user-1', type: 'person' });
+      expect(props.Editor).toEqual({ id: 'bot-1', type: 'bot', bot: {} });
+    });
+
+    it('should reject system values before sending a request', async () => {
+      const schema = createTypedSchema(documentSchema);
+      const { client, requests } = createFakeClient(rawDocumentPage);
+
+      await expect(
+        // @ts-expect-error - created_time properties are not writable
+        updatePage(client, schema, 'document-page-1111', { Created: new Date() })
+      ).rejects.toThrow(SchemaValidationError);
+      expect(requests).toEqual([]);
+    });
+  });
+
+  describe('Filters', () => {
+    it('should compile timestamp and audit user filters', () => {
+      const schema = createTypedSchema(documentSchema);
+
+      expect(compileFilter(schema, { Created: { past_week: true } })).toEqual({
+        property: 'Created',
+        created_time: { past_week: {} },
+      });
+      expect(compileFilter(schema, { Editor: { contains: 'user-1' } })).toEqual({
+        property: 'Editor',
+        last_edited_by: { contains: 'user-1' },
+      });
+    });
+  });
+});
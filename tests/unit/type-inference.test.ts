@@ -12,6 +12,7 @@ import { expectTypeOf } from 'expect-type';
 import type {
   InferPropertyType,
   InferSchemaProperties,
+  NumberFormat,
   PropertyDefinition,
   SchemaDefinition,
 } from '../../src/types/index.js';
@@ -175,8 +176,9 @@ describe('Type Inference Tests: User Story 1', () => {
       expectTypeOf<{ type: 'checkbox' }>().toMatchTypeOf<PropertyDefinition>();
 
       // Format should be constrained for number properties
-      type NumberFormat = Extract<PropertyDefinition, { type: 'number' }>['format'];
-      expectTypeOf<NumberFormat>().toEqualTypeOf<'number' | 'percent' | 'dollar' | undefined>();
+      type Format = Extract<PropertyDefinition, { type: 'number' }>['format'];
+      expectTypeOf<Format>().toEqualTypeOf<NumberFormat | undefined>();
+      expectTypeOf<'euro'>().toMatchTypeOf<NumberFormat>();
     });
 
     it('should enforce schema definition structure', () => {
@@ -0,0 +1,185 @@
+/**
+ * Unit tests for validation configuration
+ *
+ * Tests ValidationConfig overrides given to createTypedSchema:
+ * - Property count limits, title rules and naming rules
+ * - Identical outcomes from the valibot and hand-written validators
+ * - Configuration carried by the schema instance
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createTypedSchema,
+  DEFAULT_VALIDATION_CONFIG,
+  validateSchemaDefinition,
+  validateSchemaStructure,
+  type ValidationConfig,
+} from '../../src/schema/index.js';
+import { SchemaValidationError } from '../../src/errors/index.js';
+import type { PropertyDefinition, SchemaDefinition } from '../../src/types/index.js';
+import { taskSchema } from '../fixtures/schemas.js';
+import { createFakeClient, rawTaskDatabase } from '../fixtures/notion-pages.js';
+
+const databaseId = '12345678-1234-5678-9abc-123456789abc';
+
+/**
+ * Build a schema with a title and the given number of extra number properties
+ */
+function buildWideSchema(extraProperties: number): SchemaDefinition {
+  const properties: Record<string, PropertyDefinition> = { Name: { type: 'title' } };
+  for (let index = 1; index <= extraProperties; index++) {
+    properties[`Column ${index}`] = { type: 'number' };
+  }
+  return { databaseId, properties };
+}
+
+/**
+ * Validate a definition through both validation paths under the same overrides
+ */
+function validateBothPaths(
+  definition: SchemaDefinition,
+  overrides: Partial<ValidationConfig> = {}
+): { typedSchema: boolean; structure: boolean } {
+  let typedSchema = true;
+  try {
+    createTypedSchema(definition, { validation: overrides });
+  } catch (error) {
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    typedSchema = false;
+  }
+
+  const config = { ...DEFAULT_VALIDATION_CONFIG, ...overrides };
+  return { typedSchema, structure: validateSchemaStructure(definition, config).isValid };
+}
+
+describe('Unit Tests: Validation Configuration', () => {
+  describe('Property limits', () => {
+    it('should keep the default limit of 20 properties', () => {
+      expect(validateBothPaths(buildWideSchema(19))).toEqual({
+        typedSchema: true,
+        structure: true,
+      });
+      expect(validateBothPaths(buildWideSchema(20))).toEqual({
+        typedSchema: false,
+        structure: false,
+      });
+    });
+
+    it('should accept wide databases with a raised maximum', () => {
+      expect(validateBothPaths(buildWideSchema(44), { maxProperties: 60 })).toEqual({
+        typedSchema: true,
+        structure: true,
+      });
+      expect(validateBothPaths(buildWideSchema(60), { maxProperties: 60 })).toEqual({
+        typedSchema: false,
+        structure: false,
+      });
+    });
+
+    it('should enforce a raised minimum', () => {
+      expect(validateBothPaths(buildWideSchema(1), { minProperties: 3 })).toEqual({
+        typedSchema: false,
+        structure: false,
+      });
+      expect(
+        validateSchemaStructure(buildWideSchema(1), {
+          ...DEFAULT_VALIDATION_CONFIG,
+          minProperties: 3,
+        }).errors
+      ).toEqual(['Schema must have at least 3 property']);
+    });
+  });
+
+  describe('Title rules', () => {
+    const untitled: SchemaDefinition = { databaseId, properties: { Notes: { type: 'rich_text' } } };
+    const doubleTitled: SchemaDefinition = {
+      databaseId,
+      properties: { Name: { type: 'title' }, Alias: { type: 'title' } },
+    };
+
+    it('should require exactly one title by default', () => {
+      expect(validateBothPaths(untitled)).toEqual({ typedSchema: false, structure: false });
+      expect(validateBothPaths(doubleTitled)).toEqual({ typedSchema: false, structure: false });
+    });
+
+    it('should relax title rules when configured', () => {
+      expect(validateBothPaths(untitled, { requireTitle: false })).toEqual({
+        typedSchema: true,
+        structure: true,
+      });
+      expect(validateBothPaths(doubleTitled, { allowMultipleTitles: true })).toEqual({
+        typedSchema: true,
+        structure: true,
+      });
+    });
+  });
+
+  describe('Naming rules', () => {
+    const dashed: SchemaDefinition = {
+      databaseId,
+      properties: { Name: { type: 'title' }, 'due-date': { type: 'date' } },
+    };
+
+    it('should reject names outside the default naming rule', () => {
+      expect(validateBothPaths(dashed)).toEqual({ typedSchema: false, structure: false });
+      expect(() => validateSchemaDefinition(dashed)).toThrow(
+        'Property name can only contain letters, numbers, underscores, and spaces'
+      );
+    });
+
+    it('should apply a custom naming pattern', () => {
+      const kebabCase = { propertyNamePattern: /^[A-Za-z][a-z-]*$/ };
+
+      expect(validateBothPaths(dashed, kebabCase)).toEqual({ typedSchema: true, structure: true });
+      expect(validateBothPaths(taskSchema, kebabCase)).toEqual({
+        typedSchema: true,
+        structure: true,
+      });
+      expect(
+        validateSchemaStructure(
+          { databaseId, properties: { Name: { type: 'title' }, Due_date: { type: 'date' } } },
+          { ...DEFAULT_VALIDATION_CONFIG, ...kebabCase }
+        ).errors
+      ).toEqual(['Property name must match /^[A-Za-z][a-z-]*$/']);
+    });
+
+    it('should accept any non-empty name without a pattern', () => {
+      const emoji: SchemaDefinition = {
+        databaseId,
+        properties: { '🚀 Launch': { type: 'title' } },
+      };
+
+      expect(validateBothPaths(emoji, { propertyNamePattern: null })).toEqual({
+        typedSchema: true,
+        structure: true,
+      });
+    });
+  });
+
+  describe('Schema instances', () => {
+    it('should expose the merged configuration', () => {
+      const schema = createTypedSchema(taskSchema, { validation: { maxProperties: 60 } });
+
+      expect(createTypedSchema(taskSchema).validationConfig).toBe(DEFAULT_VALIDATION_CONFIG);
+      expect(schema.validationConfig).toEqual({ ...DEFAULT_VALIDATION_CONFIG, maxProperties: 60 });
+    });
+
+    it('should validate property names with the schema configuration', () => {
+      const schema = createTypedSchema(taskSchema, {
+        validation: { propertyNamePattern: /^[A-Z]/ },
+      });
+
+      expect(() => schema.validatePropertyName('Due-Date')).not.toThrow();
+      expect(() => schema.validatePropertyName('dueDate')).toThrow(SchemaValidationError);
+    });
+
+    it('should keep the configuration when resolving property IDs', async () => {
+      const schema = createTypedSchema(taskSchema, { validation: { maxProperties: 60 } });
+      const { client } = createFakeClient(rawTaskDatabase);
+
+      const pinned = await schema.resolvePropertyIds(client);
+
+      expect(pinned.validationConfig).toEqual(schema.validationConfig);
+    });
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Conformance tests for the validation entry points
+ *
+ * Tests every entry point reports identical results for the same input:
+ * - Schema definitions and their issues through createTypedSchema, valibot and
+ *   validateSchemaStructure
+ * - Property definitions through valibot and validatePropertyStructure
+ * - Selection options through both validators
+ * - Property values through createPropertyValidator, validateRecord and validatePropertyValue
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createTypedSchema,
+  isValidPropertyDefinition,
+  isValidSchemaDefinition,
+  validatePropertyDefinition,
+  validateSchemaDefinition,
+  validateSelectionOptions,
+} from '../../src/schema/index.js';
+import {
+  validatePropertyStructure,
+  validatePropertyValue,
+  validateSchemaStructure,
+  validateSelectionOptions as validateSelectionOptionMessages,
+} from '../../src/schema/validator.js';
+import { SchemaValidationError, type SchemaIssue } from '../../src/errors/index.js';
+import type { PropertyDefinition, SchemaDefinition } from '../../src/types/index.js';
+import {
+  documentSchema,
+  financialSchema,
+  launchSchema,
+  supportCaseSchema,
+  taskSchema,
+  ticketSchema,
+} from '../fixtures/schemas.js';
+
+const databaseId = '12345678-1234-5678-9abc-123456789abc';
+
+/**
+ * Run a validator that throws, returning the thrown message or null when it passed
+ */
+function thrownMessage(validate: () => unknown): string | null {
+  try {
+    validate();
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+/**
+ * Property definitions covering the configuration rules of every property type
+ */
+const definitionCases: readonly [string, unknown][] = [
+  ['title', { type: 'title' }],
+  ['aliased title', { type: 'title', name: 'Task name', id: 'title' }],
+  ['empty alias', { type: 'title', name: '' }],
+  ['empty ID', { type: 'rich_text', id: '' }],
+  ['number format', { type: 'number', format: 'percent' }],
+  ['unknown number format', { type: 'number', format: 'doubloon' }],
+  ['number bounds', { type: 'number', min: 0, max: 10, integer: true }],
+  ['inverted number bounds', { type: 'number', min: 10, max: 0 }],
+  ['negative text length', { type: 'rich_text', maxLength: -1 }],
+  ['string pattern', { type: 'title', pattern: '^[A-Z]' }],
+  ['empty domains', { type: 'url', domains: [] }],
+  ['fractional item count', { type: 'people', minItems: 0.5 }],
+  ['select', { type: 'select', options: ['Low', 'High'] }],
+  ['select without options', { type: 'select' }],
+  ['empty select options', { type: 'select', options: [] }],
+  ['whitespace select option', { type: 'select', options: ['Low', '  '] }],
+  ['duplicate multi-select options', { type: 'multi_select', options: ['a', 'b', 'a'] }],
+  ['non-string option', { type: 'multi_select', options: ['a', 1] }],
+  [
+    'status',
+    {
+      type: 'status',
+      options: ['Open', 'Doing', 'Done'],
+      groups: { 'To-do': ['Open'], 'In progress': ['Doing'], Complete: ['Done'] },
+    },
+  ],
+  ['status without groups', { type: 'status', options: ['Open'] }],
+  [
+    'status with ungrouped option',
+    {
+      type: 'status',
+      options: ['Open', 'Done'],
+      groups: { 'To-do': ['Open'], 'In progress': [], Complete: [] },
+    },
+  ],
+  [
+    'status with undeclared option',
+    {
+      type: 'status',
+      options: ['Open'],
+      groups: { 'To-do': ['Open'], 'In progress': ['Doing'], Complete: [] },
+    },
+  ],
+  ['relation', { type: 'relation', target: databaseId }],
+  ['relation to schema', { type: 'relation', target: { databaseId, definition: {} } }],
+  ['relation to invalid ID', { type: 'relation', target: 'not-a-uuid' }],
+  ['formula', { type: 'formula', result: 'boolean' }],
+  ['formula with array result', { type: 'formula', result: 'array' }],
+  ['rollup with string result', { type: 'rollup', result: 'string' }],
+  ['unique ID prefix', { type: 'unique_id', prefix: 'TASK' }],
+  ['empty unique ID prefix', { type: 'unique_id', prefix: '' }],
+  ['unknown type', { type: 'button' }],
+  ['not an object', 'title'],
+];
+
+/**
+ * Schema definitions covering the schema-level rules
+ */
+const schemaCases: readonly [string, unknown][] = [
+  ['task schema', taskSchema],
+  ['financial schema', financialSchema],
+  ['ticket schema', ticketSchema],
+  ['document schema', documentSchema],
+  ['support case schema', supportCaseSchema],
+  ['launch schema', launchSchema],
+  ['invalid database ID', { databaseId: 'abc', properties: { Name: { type: 'title' } } }],
+  ['missing properties', { databaseId }],
+  ['no title', { databaseId, properties: { Notes: { type: 'rich_text' } } }],
+  ['two titles', { databaseId, properties: { Name: { type: 'title' }, Alias: { type: 'title' } } }],
+  ['invalid name', { databaseId, properties: { '1st': { type: 'title' } } }],
+  [
+    'duplicate aliases',
+    {
+      databaseId,
+      properties: { Name: { type: 'title' }, notes: { type: 'rich_text', name: 'Name' } },
+    },
+  ],
+  [
+    'invalid property',
+    { databaseId, properties: { Name: { type: 'title' }, Tags: { type: 'select', options: [] } } },
+  ],
+  ['not an object', null],
+];
+
+describe('Unit Tests: Validation Conformance', () => {
+  describe('Property definitions', () => {
+    it.each(definitionCases)('should report the same issues for %s', (_label, definition) => {
+      const errors = validatePropertyStructure('Field', definition);
+      const expectedMessage = errors[0]?.replace("Property 'Field': ", '') ?? null;
+
+      expect(thrownMessage(() => validatePropertyDefinition(definition))).toBe(expectedMessage);
+      expect(isValidPropertyDefinition(definition)).toBe(errors.length === 0);
+    });
+  });
+
+  describe('Schema definitions', () => {
+    it.each(schemaCases)('should report the same issues for %s', (_label, schema) => {
+      const { isValid, errors, issues } = validateSchemaStructure(schema);
+
+      expect(thrownMessage(() => validateSchemaDefinition(schema))).toBe(
+        issues[0]?.message ?? null
+      );
+      expect(errors).toHaveLength(issues.length);
+      expect(isValidSchemaDefinition(schema)).toBe(isValid);
+
+      let typedSchemaIssues: readonly SchemaIssue[] = [];
+      try {
+        createTypedSchema(schema as SchemaDefinition);
+      } catch (error) {
+        typedSchemaIssues = (error as SchemaValidationError).issues;
+      }
+      expect(typedSchemaIssues).toEqual(issues);
+    });
+
+    it('should raise SchemaValidationError from createTypedSchema', () => {
+      expect(() =>
+        createTypedSchema({ databaseId, properties: { Notes: { type: 'rich_text' } } })
+      ).toThrow(SchemaValidationError);
+    });
+  });
+
+  describe('Selection options', () => {
+    it.each([
+      ['valid options', ['Low', 'High']],
+      ['empty options', []],
+      ['whitespace option', ['Low', ' ']],
+      ['duplicate options', ['Low', 'Low']],
+      ['non-string option', ['Low', 2]],
+      ['not an array', 'Low'],
+    ])('should report the same issues for %s', (_label, options) => {
+      const errors = validateSelectionOptionMessages(options, 'Field');
+      const expectedMessage = errors[0]?.replace("Property 'Field': ", '') ?? null;
+
+      expect(thrownMessage(() => validateSelectionOptions(options))).toBe(expectedMessage);
+    });
+  });
+
+  describe('Property values', () => {
+    const properties = {
+      Name: { type: 'title' },
+      Estimate: { type: 'number', min: 0, integer: true },
+      Done: { type: 'checkbox' },
+      Due: { type: 'date' },
+      Link: { type: 'url' },
+      Contact: { type: 'email', domains: ['example.com'] },
+      Phone: { type: 'phone_number' },
+      Priority: { type: 'select', options: ['Low', 'High'] },
+      Tags: { type: 'multi_select', options: ['bug', 'feature'], maxItems: 1 },
+      Owners: { type: 'people' },
+      Creator: { type: 'created_by' },
+      Attachments: { type: 'files' },
+      Ticket: { type: 'unique_id', prefix: 'TCK' },
+      Project: { type: 'relation', target: databaseId },
+      Overdue: { type: 'formula', result: 'boolean' },
+      Total: { type: 'rollup', result: 'number' },
+    } as const satisfies Record<string, PropertyDefinition>;
+    const schema = createTypedSchema({ databaseId, properties });
+    const validate = schema.createPropertyValidator();
+
+    const valueCases: readonly [keyof typeof properties, unknown][] = [
+      ['Name', 'Write docs'],
+      ['Name', 42],
+      ['Estimate', 3],
+      ['Estimate', NaN],
+      ['Estimate', -1],
+      ['Estimate', 1.5],
+      ['Done', 'yes'],
+      ['Due', new Date('2024-01-01')],
+      ['Due', '2024-01-01'],
+      ['Link', 'https://example.com'],
+      ['Link', 'ftp://example.com'],
+      ['Contact', 'not-an-email'],
+      ['Contact', 'ada@example.com'],
+      ['Contact', 'ada@example.org'],
+      ['Phone', '+1 (555) 010-0199'],
+      ['Phone', '12'],
+      ['Priority', 'High'],
+      ['Priority', 'Urgent'],
+      ['Tags', ['bug']],
+      ['Tags', ['bug', 'chore']],
+      ['Tags', ['bug', 'feature']],
+      ['Tags', 'bug'],
+      ['Owners', [{ id: 'user-1', type: 'person' }]],
+      ['Owners', [{ id: 'user-1', type: 'robot' }]],
+      ['Creator', { id: 'bot-1', type: 'bot', name: null }],
+      ['Attachments', [{ name: 'spec.pdf', url: 'https://example.com/spec.pdf' }]],
+      ['Attachments', [{ name: '', url: 'https://example.com/spec.pdf' }]],
+      ['Ticket', { prefix: 'TCK', number: 7 }],
+      ['Ticket', { prefix: 'TCK', number: 7.5 }],
+      ['Project', [{ id: 'page-1' }]],
+      ['Project', [{ id: '' }]],
+      ['Overdue', false],
+      ['Total', '12'],
+      ['Name', null],
+      ['Tags', undefined],
+    ];
+
+    it.each(valueCases)('should agree on %s value %j', (name, value) => {
+      const thrown = thrownMessage(() => validatePropertyValue(value, properties[name], name));
+
+      expect(validate(name, value)).toBe(thrown === null);
+      expect(schema.validateRecord({ Name: 'Task', [name]: value }).success).toBe(thrown === null);
+    });
+  });
+});